@@ -1,21 +1,78 @@
 import React, { useState, useEffect } from 'react';
-import { AppData } from './types';
-import { loadData, saveData } from './utils/storage';
+import { AppData, AuditAction, AuditEntry } from './types';
+import { loadAuditLog, loadAuditUser, loadData, saveAuditLog, saveAuditUser, saveData } from './utils/storage';
+import { appendAuditEntry, createAuditEntry, redoLastAction, undoLastAction } from './utils/audit';
+import { allocateCredits } from './utils/credits';
+import { assessLateFees } from './utils/lateFees';
+import { goToToday } from './utils/weekends';
 import ConsolidatedDashboard from './components/ConsolidatedDashboard';
 import './App.css';
 
+// Credit decides what is still outstanding when late fees are charged, and the fees
+// in turn change what credit can cover, so credits are applied either side
+const applyLedgerRules = (data: AppData): AppData => {
+  return allocateCredits(assessLateFees(allocateCredits(data), new Date()));
+};
+
 function App() {
-  const [appData, setAppData] = useState<AppData>(() => loadData());
+  // Opens on the weekend today falls in, however long the app has been closed
+  const [appData, setAppData] = useState<AppData>(() => applyLedgerRules(goToToday(loadData(), new Date())));
+
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>(loadAuditLog);
+  const [auditUser, setAuditUser] = useState<string>(loadAuditUser);
 
   useEffect(() => {
-    saveData(appData);
+    if (!saveData(appData)) {
+      alert('Your latest changes could not be saved: the browser\'s storage is full or unavailable, so they will be lost when the app is closed.');
+    }
   }, [appData]);
 
+  useEffect(() => {
+    if (!saveAuditLog(auditLog)) {
+      alert('The change history could not be saved: the browser\'s storage is full or unavailable. Your data is unaffected.');
+    }
+  }, [auditLog]);
+
+  // Credits are re-applied after every change so edits and deletions hand them back
+  const handleAppDataUpdate = (data: AppData, action?: AuditAction) => {
+    const updated = applyLedgerRules(data);
+    const entry = createAuditEntry(appData, updated, auditUser || 'Unknown', action);
+    if (entry) setAuditLog(appendAuditEntry(auditLog, entry));
+    setAppData(updated);
+  };
+
+  // Entries are recorded after the ledger rules ran, so undo and redo already put back
+  // credits, statuses and late fees as they were; running the rules again on a later day
+  // could charge a fee the original action avoided
+  const handleUndo = () => {
+    const result = undoLastAction(appData, auditLog, auditUser || 'Unknown');
+    if (!result) return;
+    setAuditLog(result.log);
+    setAppData(result.appData);
+  };
+
+  const handleRedo = () => {
+    const result = redoLastAction(appData, auditLog);
+    if (!result) return;
+    setAuditLog(result.log);
+    setAppData(result.appData);
+  };
+
+  const handleAuditUserChange = (user: string) => {
+    setAuditUser(user);
+    saveAuditUser(user);
+  };
+
   return (
     <div className="App">
       <ConsolidatedDashboard 
         appData={appData}
-        onAppDataUpdate={setAppData}
+        onAppDataUpdate={handleAppDataUpdate}
+        auditLog={auditLog}
+        auditUser={auditUser}
+        onAuditUserChange={handleAuditUserChange}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
       />
     </div>
   );
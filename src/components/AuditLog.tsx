@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { AppData, AuditActionType, AuditChange, AuditEntry } from '../types';
+import {
+  AUDIT_ACTION_TYPES,
+  MAX_UNDO,
+  filterAuditLog,
+  getMatchLabel,
+  getPlayerName,
+  getRedoEntry,
+  getUndoEntry
+} from '../utils/audit';
+import { getAllMatches } from '../utils/ledger';
+import { formatCurrency } from '../utils/money';
+import { format, parseISO } from 'date-fns';
+
+interface AuditLogProps {
+  appData: AppData;
+  auditLog: AuditEntry[];
+  auditUser: string;
+  onAuditUserChange: (user: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// Fields holding paise; everything else is shown as stored
+const AMOUNT_FIELD = /amount|balance|fee|due|paid|refund|credit|advance|arrears|cap|opening|closing/i;
+
+const formatTimestamp = (date: string) => {
+  try {
+    return format(parseISO(date), 'MMM dd, yyyy HH:mm');
+  } catch {
+    return date;
+  }
+};
+
+// Array items are named by id in the path, so only the field names are shown
+const formatField = (change: AuditChange): string => {
+  return change.path.filter(segment => !segment.startsWith('#')).join(' › ') || 'All data';
+};
+
+const formatValue = (change: AuditChange, value: unknown): string => {
+  if (value === undefined) return '—';
+  const field = change.path[change.path.length - 1] || '';
+  if (typeof value === 'number' && AMOUNT_FIELD.test(field)) return formatCurrency(value);
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+const AuditLog: React.FC<AuditLogProps> = ({ appData, auditLog, auditUser, onAuditUserChange, onUndo, onRedo }) => {
+  const [playerId, setPlayerId] = useState('');
+  const [matchId, setMatchId] = useState('');
+  const [type, setType] = useState<AuditActionType | ''>('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const matches = getAllMatches(appData);
+  const entries = filterAuditLog(auditLog, { playerId, matchId, type: type || undefined }).reverse();
+  const undoEntry = getUndoEntry(auditLog);
+  const redoEntry = getRedoEntry(auditLog);
+
+  const getMatchName = (id: string) => {
+    const match = matches.find(m => m.id === id);
+    return match ? getMatchLabel(appData, match) : 'Removed match';
+  };
+
+  return (
+    <div className="audit-log">
+      <div className="data-section">
+        <div className="form-row">
+          <label>Your name</label>
+          <input
+            type="text"
+            placeholder="Recorded with each change"
+            value={auditUser}
+            onChange={(e) => onAuditUserChange(e.target.value)}
+          />
+          <button className="btn-small secondary" onClick={onUndo} disabled={!undoEntry}>
+            ↶ Undo{undoEntry ? `: ${undoEntry.description}` : ''}
+          </button>
+          <button className="btn-small secondary" onClick={onRedo} disabled={!redoEntry}>
+            ↷ Redo{redoEntry ? `: ${redoEntry.description}` : ''}
+          </button>
+        </div>
+        <p className="help-text">Up to the last {MAX_UNDO} changes can be undone, newest first.</p>
+      </div>
+
+      <div className="data-section">
+        <div className="form-row">
+          <select value={playerId} onChange={(e) => setPlayerId(e.target.value)}>
+            <option value="">All players</option>
+            {appData.players.map(player => (
+              <option key={player.id} value={player.id}>{getPlayerName(appData, player.id)}</option>
+            ))}
+          </select>
+          <select value={matchId} onChange={(e) => setMatchId(e.target.value)}>
+            <option value="">All matches</option>
+            {matches.map(match => (
+              <option key={match.id} value={match.id}>{getMatchLabel(appData, match)}</option>
+            ))}
+          </select>
+          <select value={type} onChange={(e) => setType(e.target.value as AuditActionType | '')}>
+            <option value="">All actions</option>
+            {AUDIT_ACTION_TYPES.map(t => (
+              <option key={t.value} value={t.value}>{t.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="help-text">No changes recorded{auditLog.length > 0 ? ' for this filter' : ''}.</p>
+        ) : (
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Who</th>
+                <th>Action</th>
+                <th>Players</th>
+                <th>Matches</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <React.Fragment key={entry.id}>
+                  <tr className={entry.undoneAt ? 'audit-undone' : ''}>
+                    <td>{formatTimestamp(entry.timestamp)}</td>
+                    <td>{entry.user}</td>
+                    <td>
+                      {entry.description}
+                      {entry.undoneAt && (
+                        <small className="cost-breakdown">
+                          Undone by {entry.undoneBy} on {formatTimestamp(entry.undoneAt)}
+                        </small>
+                      )}
+                    </td>
+                    <td>{entry.playerIds.map(id => getPlayerName(appData, id)).join(', ')}</td>
+                    <td>{entry.matchIds.map(getMatchName).join(', ')}</td>
+                    <td>
+                      <button
+                        className="btn-small secondary"
+                        onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                      >
+                        {expandedId === entry.id ? 'Hide' : `${entry.changes.length} change(s)`}
+                      </button>
+                    </td>
+                  </tr>
+                  {expandedId === entry.id && (
+                    <tr>
+                      <td colSpan={6}>
+                        {entry.compacted && (
+                          <p className="help-text">Values are only kept for the last {MAX_UNDO} changes.</p>
+                        )}
+                        <table className="audit-changes">
+                          <thead>
+                            <tr>
+                              <th>Field</th>
+                              <th>Player</th>
+                              <th>Before</th>
+                              <th>After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {entry.changes.map((change, index) => (
+                              <tr key={index}>
+                                <td>{formatField(change)}</td>
+                                <td>{change.playerId ? getPlayerName(appData, change.playerId) : ''}</td>
+                                <td>{formatValue(change, change.before)}</td>
+                                <td>{formatValue(change, change.after)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
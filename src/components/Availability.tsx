@@ -0,0 +1,243 @@
+import React, { useState } from 'react';
+import { AppData, AvailabilityPoll, AvailabilityStatus, Player, Weekend } from '../types';
+import {
+  AVAILABILITY_STATUSES,
+  createMatchFromPoll,
+  createPoll,
+  createPollForMatch,
+  generateAvailabilityText,
+  getPollSummary,
+  getPolls,
+  getResponse,
+  removePoll,
+  savePoll,
+  setResponse
+} from '../utils/availability';
+import { getClubName, getClubs, getDefaultClubId } from '../utils/clubs';
+import { getMembers } from '../utils/guests';
+import { getWeekendMatches } from '../utils/ledger';
+import { formatMatchDate, getWeekendDates, saveWeekendMatch } from '../utils/schedule';
+import { shareWhatsAppText } from '../utils/whatsapp';
+
+interface AvailabilityProps {
+  appData: AppData;
+  weekend: Weekend;
+  isLocked: boolean;
+  onAppDataUpdate: (data: AppData) => void;
+}
+
+const getName = (player: Player) => {
+  if (player.nickname && player.nickname.trim()) return player.nickname.trim();
+  return player.lastName ? `${player.firstName} ${player.lastName}` : player.firstName;
+};
+
+const Availability: React.FC<AvailabilityProps> = ({ appData, weekend, isLocked, onAppDataUpdate }) => {
+  const polls = getPolls(weekend);
+  const dates = getWeekendDates(weekend);
+  // Scheduled matches not yet polled can be polled for; anything else starts a new match
+  const unpolledMatches = getWeekendMatches(weekend)
+    .filter(match => match.status === 'scheduled')
+    .filter(match => !polls.some(poll => poll.matchId === match.id));
+
+  const [selectedPollId, setSelectedPollId] = useState(polls[0]?.id || '');
+  const [pollForm, setPollForm] = useState({
+    matchId: '',
+    date: dates[0],
+    time: '',
+    clubId: getDefaultClubId(appData),
+    capacity: ''
+  });
+
+  const poll = polls.find(p => p.id === selectedPollId) || polls[0];
+  const linkedMatch = poll && weekend.matches.find(match => match.id === poll.matchId);
+  const summary = poll ? getPollSummary(poll, appData.players) : undefined;
+
+  const updateWeekend = (fn: (w: Weekend) => Weekend) => {
+    onAppDataUpdate({ ...appData, weekends: appData.weekends.map(w => (w.id === weekend.id ? fn(w) : w)) });
+  };
+
+  const handleStartPoll = () => {
+    const capacity = parseInt(pollForm.capacity, 10) > 0 ? parseInt(pollForm.capacity, 10) : undefined;
+    const match = unpolledMatches.find(m => m.id === pollForm.matchId);
+    const created = match
+      ? createPollForMatch(match, capacity)
+      : createPoll(pollForm.date, pollForm.clubId, pollForm.time || undefined, capacity);
+    updateWeekend(w => savePoll(w, created));
+    setSelectedPollId(created.id);
+    setPollForm({ ...pollForm, matchId: '', time: '', capacity: '' });
+  };
+
+  const handleResponse = (current: AvailabilityPoll, playerId: string, status: AvailabilityStatus) => {
+    // Pressing the current answer again clears it
+    const next = getResponse(current, playerId) === status ? undefined : status;
+    updateWeekend(w => savePoll(w, setResponse(current, playerId, next)));
+  };
+
+  const handleCapacityChange = (current: AvailabilityPoll, value: string) => {
+    const capacity = parseInt(value, 10);
+    updateWeekend(w => savePoll(w, { ...current, capacity: capacity > 0 ? capacity : undefined }));
+  };
+
+  const handleCreateMatch = (current: AvailabilityPoll) => {
+    const { confirmed } = getPollSummary(current, appData.players);
+    if (confirmed.length === 0) {
+      alert('Nobody has confirmed yet.');
+      return;
+    }
+    const match = createMatchFromPoll(appData, weekend, current);
+    updateWeekend(w => saveWeekendMatch(savePoll(w, { ...current, matchId: match.id }), match));
+  };
+
+  const handleDeletePoll = (current: AvailabilityPoll) => {
+    if (window.confirm('Delete this poll and its answers? A match created from it is kept.')) {
+      updateWeekend(w => removePoll(w, current.id));
+      setSelectedPollId('');
+    }
+  };
+
+  const getPlace = (playerId: string) => {
+    if (!summary) return null;
+    if (summary.confirmed.includes(playerId)) return <span className="status-badge paid">Confirmed</span>;
+    const waiting = summary.waitlist.indexOf(playerId);
+    if (waiting !== -1) return <span className="status-badge partial">Waitlist #{waiting + 1}</span>;
+    return null;
+  };
+
+  // Regular players first, each group in name order; guests are added to matches directly
+  const players = getMembers(appData.players).sort((a, b) =>
+    Number(!!b.regular) - Number(!!a.regular) || getName(a).localeCompare(getName(b))
+  );
+
+  return (
+    <div className="availability">
+      {!isLocked && (
+        <div className="data-section">
+          <h4>New Poll</h4>
+          <div className="form-row">
+            <select value={pollForm.matchId} onChange={(e) => setPollForm({ ...pollForm, matchId: e.target.value })}>
+              <option value="">A new match</option>
+              {unpolledMatches.map(match => (
+                <option key={match.id} value={match.id}>
+                  {getClubName(appData, match.clubId)} {formatMatchDate(match)}
+                </option>
+              ))}
+            </select>
+            {!pollForm.matchId && (
+              <>
+                <select value={pollForm.date} onChange={(e) => setPollForm({ ...pollForm, date: e.target.value })}>
+                  {dates.map(date => (
+                    <option key={date} value={date}>{formatMatchDate({ date })}</option>
+                  ))}
+                </select>
+                <input
+                  type="time"
+                  value={pollForm.time}
+                  onChange={(e) => setPollForm({ ...pollForm, time: e.target.value })}
+                />
+                <select value={pollForm.clubId} onChange={(e) => setPollForm({ ...pollForm, clubId: e.target.value })}>
+                  {getClubs(appData).map(club => (
+                    <option key={club.id} value={club.id}>{club.name}</option>
+                  ))}
+                </select>
+              </>
+            )}
+            <input
+              type="number"
+              min="0"
+              placeholder="Places (no limit)"
+              value={pollForm.capacity}
+              onChange={(e) => setPollForm({ ...pollForm, capacity: e.target.value })}
+            />
+            <button className="btn-small primary" onClick={handleStartPoll}>Start Poll</button>
+          </div>
+          <p className="help-text">
+            Polling a scheduled match counts its players so far as in.
+          </p>
+        </div>
+      )}
+
+      {poll && summary ? (
+        <div className="data-section">
+          <div className="form-row">
+            <select value={poll.id} onChange={(e) => setSelectedPollId(e.target.value)}>
+              {polls.map(p => (
+                <option key={p.id} value={p.id}>{getClubName(appData, p.clubId)} {formatMatchDate(p)}</option>
+              ))}
+            </select>
+            <label>Places</label>
+            <input
+              type="number"
+              min="0"
+              placeholder="No limit"
+              value={poll.capacity || ''}
+              onChange={(e) => handleCapacityChange(poll, e.target.value)}
+              disabled={isLocked}
+            />
+          </div>
+
+          <p>
+            <strong>{summary.confirmed.length}{poll.capacity ? `/${poll.capacity}` : ''}</strong> confirmed,{' '}
+            {summary.waitlist.length} waiting, {summary.maybe.length} maybe, {summary.out.length} out,{' '}
+            {summary.noReply.length} regular(s) yet to reply
+          </p>
+
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Player</th>
+                <th>Answer</th>
+                <th>Place</th>
+              </tr>
+            </thead>
+            <tbody>
+              {players.map(player => {
+                const response = getResponse(poll, player.id);
+                return (
+                  <tr key={player.id}>
+                    <td>{getName(player)}</td>
+                    <td>
+                      {AVAILABILITY_STATUSES.map(status => (
+                        <button
+                          key={status.value}
+                          className={`btn-small ${response === status.value ? 'primary' : 'secondary'}`}
+                          onClick={() => handleResponse(poll, player.id, status.value)}
+                          disabled={isLocked}
+                        >
+                          {status.label}
+                        </button>
+                      ))}
+                    </td>
+                    <td>{getPlace(player.id)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="form-actions">
+            {!isLocked && (
+              <button className="btn-small primary" onClick={() => handleCreateMatch(poll)}>
+                {linkedMatch ? 'Update Match Players' : 'Create Match from Confirmed'}
+              </button>
+            )}
+            <button className="btn-small secondary" onClick={() => shareWhatsAppText(generateAvailabilityText(appData, poll))}>
+              📱 Share Availability
+            </button>
+            {!isLocked && (
+              <button className="btn-small danger" onClick={() => handleDeletePoll(poll)}>Delete Poll</button>
+            )}
+          </div>
+          {linkedMatch && (
+            <p className="help-text">
+              Updating sets the match's players to those confirmed. Players on the match who have said out stay on it as late withdrawals.
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="help-text">No polls for this weekend yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default Availability;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { AppData, Club } from '../types';
+import { DEFAULT_CLUB_COLOUR, createClub, deleteClub, getClubs, isClubInUse, updateClub } from '../utils/clubs';
+import { fromPaise, parseRupees } from '../utils/money';
+
+interface ClubsProps {
+  appData: AppData;
+  onAppDataUpdate: (data: AppData) => void;
+}
+
+const emptyClubForm = { name: '', homeGround: '', defaultGroundCost: '', colour: DEFAULT_CLUB_COLOUR };
+
+const Clubs: React.FC<ClubsProps> = ({ appData, onAppDataUpdate }) => {
+  const clubs = getClubs(appData);
+  const [clubForm, setClubForm] = useState(emptyClubForm);
+
+  const handleUpdate = (club: Club, updates: Partial<Omit<Club, 'id'>>) => {
+    onAppDataUpdate(updateClub(appData, club.id, updates));
+  };
+
+  const handleAdd = () => {
+    if (!clubForm.name.trim()) return;
+    const club = createClub({
+      name: clubForm.name.trim(),
+      homeGround: clubForm.homeGround.trim() || undefined,
+      defaultGroundCost: parseRupees(clubForm.defaultGroundCost),
+      colour: clubForm.colour
+    });
+    onAppDataUpdate({ ...appData, clubs: [...clubs, club] });
+    setClubForm(emptyClubForm);
+  };
+
+  const handleDelete = (club: Club) => {
+    if (isClubInUse(appData, club.id)) {
+      alert(`${club.name} has matches recorded against it and cannot be deleted.`);
+      return;
+    }
+    onAppDataUpdate(deleteClub(appData, club.id));
+  };
+
+  return (
+    <div className="data-section">
+      <h4>Clubs</h4>
+      <table className="payment-table">
+        <thead>
+          <tr>
+            <th>Colour</th>
+            <th>Name</th>
+            <th>Home Ground</th>
+            <th>Ground Cost (₹)</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {clubs.map(club => (
+            <tr key={club.id}>
+              <td>
+                <input
+                  type="color"
+                  value={club.colour}
+                  onChange={(e) => handleUpdate(club, { colour: e.target.value })}
+                />
+              </td>
+              <td>
+                <input
+                  type="text"
+                  value={club.name}
+                  onChange={(e) => handleUpdate(club, { name: e.target.value })}
+                />
+              </td>
+              <td>
+                <input
+                  type="text"
+                  value={club.homeGround || ''}
+                  onChange={(e) => handleUpdate(club, { homeGround: e.target.value || undefined })}
+                />
+              </td>
+              <td>
+                <input
+                  type="number"
+                  min="0"
+                  value={club.defaultGroundCost ? fromPaise(club.defaultGroundCost) : ''}
+                  onChange={(e) => handleUpdate(club, { defaultGroundCost: parseRupees(e.target.value) })}
+                />
+              </td>
+              <td>
+                <button className="btn-small danger" onClick={() => handleDelete(club)}>Delete</button>
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td>
+              <input
+                type="color"
+                value={clubForm.colour}
+                onChange={(e) => setClubForm({ ...clubForm, colour: e.target.value })}
+              />
+            </td>
+            <td>
+              <input
+                type="text"
+                placeholder="Club name"
+                value={clubForm.name}
+                onChange={(e) => setClubForm({ ...clubForm, name: e.target.value })}
+              />
+            </td>
+            <td>
+              <input
+                type="text"
+                placeholder="Home ground"
+                value={clubForm.homeGround}
+                onChange={(e) => setClubForm({ ...clubForm, homeGround: e.target.value })}
+              />
+            </td>
+            <td>
+              <input
+                type="number"
+                min="0"
+                placeholder="0"
+                value={clubForm.defaultGroundCost}
+                onChange={(e) => setClubForm({ ...clubForm, defaultGroundCost: e.target.value })}
+              />
+            </td>
+            <td>
+              <button className="btn-small primary" onClick={handleAdd} disabled={!clubForm.name.trim()}>
+                Add Club
+              </button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      <p className="help-text">
+        New matches start with the club's ground cost. Clubs with matches recorded against them cannot be deleted.
+      </p>
+    </div>
+  );
+};
+
+export default Clubs;
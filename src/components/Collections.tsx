@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { AppData, PaymentMethod } from '../types';
+import {
+  PAYMENT_METHODS,
+  addHandover,
+  createHandover,
+  deleteHandover,
+  getCollectorIds,
+  getCollectorLedger,
+  getCollectorSummary,
+  getHandoverDate,
+  getPaymentMethodLabel
+} from '../utils/collections';
+import { formatCurrency, fromPaise, parseRupees } from '../utils/money';
+import { getPartyName } from '../utils/settlement';
+import { getSettings } from '../utils/settings';
+import { format } from 'date-fns';
+
+interface CollectionsProps {
+  appData: AppData;
+  onAppDataUpdate: (data: AppData) => void;
+}
+
+const emptyHandoverForm = (collectorId: string) => ({
+  collectorId,
+  amount: '',
+  method: 'cash' as PaymentMethod,
+  date: format(new Date(), 'yyyy-MM-dd'),
+  note: ''
+});
+
+const formatSigned = (amount: number) => `${amount < 0 ? '-' : ''}${formatCurrency(Math.abs(amount))}`;
+
+const Collections: React.FC<CollectionsProps> = ({ appData, onAppDataUpdate }) => {
+  const collectorIds = getCollectorIds(appData);
+  const summaries = collectorIds.map(collectorId => getCollectorSummary(appData, collectorId));
+  const { treasurerId } = getSettings(appData);
+
+  const [collectorId, setCollectorId] = useState(collectorIds[0] || '');
+  const [handoverForm, setHandoverForm] = useState(() => emptyHandoverForm(collectorIds[0] || ''));
+
+  const ledger = collectorId ? getCollectorLedger(appData, collectorId) : [];
+  const unreconciled = summaries.filter(summary => summary.unreconciled.length > 0);
+
+  const handleAdd = () => {
+    const amount = parseRupees(handoverForm.amount);
+    if (amount <= 0 || !handoverForm.collectorId) return;
+    const held = summaries.find(summary => summary.collectorId === handoverForm.collectorId)?.held || 0;
+    if (amount > held) {
+      alert(`${getPartyName(appData, handoverForm.collectorId)} only holds ${formatCurrency(Math.max(0, held))}.`);
+      return;
+    }
+    const handover = createHandover({
+      collectorId: handoverForm.collectorId,
+      amount,
+      method: handoverForm.method,
+      date: getHandoverDate(handoverForm.date),
+      note: handoverForm.note.trim() || undefined
+    });
+    onAppDataUpdate(addHandover(appData, handover));
+    setHandoverForm(emptyHandoverForm(handoverForm.collectorId));
+  };
+
+  // Pre-fills a handover of everything the collector holds
+  const handleHandOverAll = (id: string, held: number) => {
+    setCollectorId(id);
+    setHandoverForm({ ...emptyHandoverForm(id), amount: fromPaise(held).toString() });
+  };
+
+  const formatReceivedDate = (date: string) => date.slice(0, 10);
+
+  if (collectorIds.length === 0) {
+    return (
+      <p className="help-text">
+        No collectors yet. Pick the players who take payments for the team under Settings.
+      </p>
+    );
+  }
+
+  return (
+    <div className="collections">
+      <div className="data-section">
+        <h4>Held by Collectors</h4>
+        <table className="payment-table">
+          <thead>
+            <tr>
+              <th>Collector</th>
+              <th>Collected</th>
+              <th>Handed Over</th>
+              <th>Holding</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(summary => (
+              <tr key={summary.collectorId}>
+                <td>
+                  <button
+                    className="btn-small secondary"
+                    onClick={() => setCollectorId(summary.collectorId)}
+                    disabled={summary.collectorId === collectorId}
+                  >
+                    {getPartyName(appData, summary.collectorId)}
+                  </button>
+                </td>
+                <td className="amount">{formatCurrency(summary.collected)}</td>
+                <td className="amount">{formatCurrency(summary.handedOver)}</td>
+                <td className={`amount ${summary.held > 0 ? 'due' : summary.held < 0 ? 'overpaid' : ''}`}>
+                  {formatSigned(summary.held)}
+                </td>
+                <td>
+                  {summary.held > 0 && (
+                    <button className="btn-small secondary" onClick={() => handleHandOverAll(summary.collectorId, summary.held)}>
+                      Hand Over
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="data-section">
+        <h4>Record a Handover</h4>
+        <div className="form-row">
+          <select
+            value={handoverForm.collectorId}
+            onChange={(e) => setHandoverForm({ ...handoverForm, collectorId: e.target.value })}
+          >
+            {collectorIds.map(id => (
+              <option key={id} value={id}>{getPartyName(appData, id)}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            placeholder="Amount (₹)"
+            value={handoverForm.amount}
+            onChange={(e) => setHandoverForm({ ...handoverForm, amount: e.target.value })}
+          />
+          <select
+            value={handoverForm.method}
+            onChange={(e) => setHandoverForm({ ...handoverForm, method: e.target.value as PaymentMethod })}
+          >
+            {PAYMENT_METHODS.map(method => (
+              <option key={method.value} value={method.value}>{method.label}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={handoverForm.date}
+            onChange={(e) => setHandoverForm({ ...handoverForm, date: e.target.value })}
+          />
+          <input
+            type="text"
+            placeholder="Note"
+            value={handoverForm.note}
+            onChange={(e) => setHandoverForm({ ...handoverForm, note: e.target.value })}
+          />
+          <button
+            className="btn-small primary"
+            onClick={handleAdd}
+            disabled={parseRupees(handoverForm.amount) <= 0 || !handoverForm.collectorId}
+          >
+            Record Handover
+          </button>
+        </div>
+        <p className="help-text">
+          A handover passes money from a collector to {treasurerId ? getPartyName(appData, treasurerId) : 'the treasurer'}. It settles their oldest collections first.
+        </p>
+      </div>
+
+      {collectorId && (
+        <div className="data-section">
+          <h4>{getPartyName(appData, collectorId)}'s Collections</h4>
+          {ledger.length === 0 ? (
+            <p className="help-text">Nothing collected yet.</p>
+          ) : (
+            <table className="payment-table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Description</th>
+                  <th>Method</th>
+                  <th>Amount</th>
+                  <th>Holding</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...ledger].reverse().map((line, index) => (
+                  <tr key={`${line.handoverId || line.date}-${index}`}>
+                    <td>{formatReceivedDate(line.date)}</td>
+                    <td>{line.description}</td>
+                    <td>{getPaymentMethodLabel(line.method)}</td>
+                    <td className={`amount ${line.amount < 0 ? 'due' : 'overpaid'}`}>{formatSigned(line.amount)}</td>
+                    <td className="amount">{formatSigned(line.held)}</td>
+                    <td>
+                      {line.handoverId && (
+                        <button
+                          className="btn-small danger"
+                          onClick={() => onAppDataUpdate(deleteHandover(appData, line.handoverId!))}
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      <div className="data-section">
+        <h4>Unreconciled Collections</h4>
+        {unreconciled.length === 0 ? (
+          <p className="help-text">Every collection has been handed over.</p>
+        ) : (
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Collector</th>
+                <th>Received</th>
+                <th>From</th>
+                <th>For</th>
+                <th>Method</th>
+                <th>Not Handed Over</th>
+              </tr>
+            </thead>
+            <tbody>
+              {unreconciled.flatMap(summary => summary.unreconciled.map(collection => (
+                <tr key={collection.receipt.id}>
+                  <td>{getPartyName(appData, summary.collectorId)}</td>
+                  <td>{formatReceivedDate(collection.receipt.date)}</td>
+                  <td>{getPartyName(appData, collection.playerId)}</td>
+                  <td>{collection.description}</td>
+                  <td>{getPaymentMethodLabel(collection.receipt.method)}</td>
+                  <td className="amount due">{formatCurrency(collection.outstanding)}</td>
+                </tr>
+              )))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Collections;
@@ -1,30 +1,132 @@
 import React, { useState, useEffect } from 'react';
-import { AppData, Weekend, Player, Match, Payment } from '../types';
-import { getPlayerPayment, calculateMatchCostPerPlayer, createPayment } from '../utils/calculations';
-import { format, parse, addDays } from 'date-fns';
-import { getNextWeekend } from '../utils/storage';
+import { AppData, AuditAction, AuditEntry, Club, ExpenseCategory, Weekend, Player, Match, MatchStatus, Payment, PaymentMethod, AttendanceStatus } from '../types';
+import { ATTENDANCE_STATUSES, EXPENSE_CATEGORIES, getAttendanceLabel, calculateExpenseShares, calculateMatchRefund, calculateMatchShares, calculateMatchTotalCost, getMatchStatus, getMatchStatusLabel, calculatePlayerCategoryShares, getDefaultExpenses, getExpensePlayerIds, setPartialPayment, syncMatchPayments } from '../utils/calculations';
+import { buildPlayerLedger, getCurrentMatchEntry, getCurrentWeekend as getLedgerCurrentWeekend, getLatestClosedPeriod, getWeekendMatches, isWeekendLocked, mapWeekendMatches } from '../utils/ledger';
+import { formatCurrency, formatShareRange, fromPaise, parseRupees, toPaise } from '../utils/money';
+import { getPlayerCredit } from '../utils/credits';
+import { formatLateFeeRule, getOverduePayments } from '../utils/lateFees';
+import { applyGuests, createGuest, getHost, getMembers, isGuest } from '../utils/guests';
+import { applyMemberships } from '../utils/memberships';
+import { getRedoEntry, getUndoEntry } from '../utils/audit';
+import { getNoShowCharges, getPlayerReliability } from '../utils/attendance';
+import { getClub, getClubExpenses, getClubName, getClubs } from '../utils/clubs';
+import { formatMatchDate, getMatchDay, getWeekendDates, getWeekendSunday, removeWeekendMatch, saveWeekendMatch } from '../utils/schedule';
+import { markWeekendPaid, markWeekendUnpaid } from '../utils/settlement';
+import { getSettings } from '../utils/settings';
+import { applyTemplates, createMatchFromTemplate, createTemplateFromMatch, getTemplate, getTemplates, saveTemplate } from '../utils/templates';
+import { getCashPosition } from '../utils/vendors';
+import { getAdjacentWeekend, goToNextWeekend, goToWeekend } from '../utils/weekends';
+import { shareWhatsAppText } from '../utils/whatsapp';
+import { format, parse } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
+import AuditLog from './AuditLog';
 import DataManagement from './DataManagement';
+import ExpenseLines from './ExpenseLines';
+import MatchStatusFields from './MatchStatusFields';
+import Memberships from './Memberships';
+import PaymentHistory from './PaymentHistory';
+import Periods from './Periods';
+import Reports from './Reports';
+import Settings from './Settings';
+import Settlement from './Settlement';
+import WeekendTimeline from './WeekendTimeline';
+import Availability from './Availability';
+import VendorLedger from './VendorLedger';
+import Kitty from './Kitty';
+import Collections from './Collections';
+import ReceiptFields from './ReceiptFields';
+import WhatsAppImageGenerator from './WhatsAppImageGenerator';
 
 interface ConsolidatedDashboardProps {
   appData: AppData;
-  onAppDataUpdate: (data: AppData) => void;
+  onAppDataUpdate: (data: AppData, action?: AuditAction) => void;
+  auditLog: AuditEntry[];
+  auditUser: string;
+  onAuditUserChange: (user: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
 interface PlayerPaymentRow {
   player: Player;
   prevBalance: number;
-  saturdayPayment?: Payment;
-  sundayPayment?: Payment;
+  matchPayments: { [matchId: string]: Payment | undefined };
   amountPaid: number;
   totalDue: number;
   currentBalance: number;
+  lateFees: number;
+  membershipDue: number;
+  kittyDue: number;
   status: 'paid' | 'pending' | 'partial';
 }
 
-const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData, onAppDataUpdate }) => {
+// Share rules as typed into the match form, keyed by player id
+type ShareRuleForm = { [playerId: string]: { weight: string; fixedAmount: string } };
+
+const toShareRuleForm = (playerShares: Match['playerShares'] = {}): ShareRuleForm => {
+  const form: ShareRuleForm = {};
+  Object.entries(playerShares).forEach(([playerId, share]) => {
+    form[playerId] = {
+      weight: (share.weight ?? 1).toString(),
+      fixedAmount: share.fixedAmount !== undefined ? fromPaise(share.fixedAmount).toString() : ''
+    };
+  });
+  return form;
+};
+
+// Only players who differ from a plain full share are stored on the match
+const toPlayerShares = (form: ShareRuleForm, playerIds: string[]): Match['playerShares'] => {
+  const playerShares: NonNullable<Match['playerShares']> = {};
+  playerIds.forEach(playerId => {
+    const rule = form[playerId];
+    if (!rule) return;
+    if (rule.fixedAmount.trim() !== '') {
+      playerShares[playerId] = { fixedAmount: parseRupees(rule.fixedAmount) };
+    } else {
+      const weight = parseFloat(rule.weight);
+      if (!isNaN(weight) && weight >= 0 && weight !== 1) {
+        playerShares[playerId] = { weight };
+      }
+    }
+  });
+  return Object.keys(playerShares).length > 0 ? playerShares : undefined;
+};
+
+// Only players who did not simply play are stored on the match
+const toAttendance = (form: Match['attendance'] = {}, playerIds: string[]): Match['attendance'] => {
+  const attendance: NonNullable<Match['attendance']> = {};
+  playerIds.forEach(playerId => {
+    if (form[playerId] && form[playerId] !== 'played') attendance[playerId] = form[playerId];
+  });
+  return Object.keys(attendance).length > 0 ? attendance : undefined;
+};
+
+const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({
+  appData,
+  onAppDataUpdate,
+  auditLog,
+  auditUser,
+  onAuditUserChange,
+  onUndo,
+  onRedo
+}) => {
   const [showPlayerManagement, setShowPlayerManagement] = useState(false);
+  const [reliabilityPlayerId, setReliabilityPlayerId] = useState<string | null>(null);
+  const [guestForm, setGuestForm] = useState({ name: '', hostId: '', collectDirectly: false });
   const [showDataManagement, setShowDataManagement] = useState(false);
+  const [historyPlayerId, setHistoryPlayerId] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showReports, setShowReports] = useState(false);
+  const [showPeriods, setShowPeriods] = useState(false);
+  const [showMemberships, setShowMemberships] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showWhatsAppImage, setShowWhatsAppImage] = useState(false);
+  const [showWeekends, setShowWeekends] = useState(false);
+  const [showAvailability, setShowAvailability] = useState(false);
+  const [showVendors, setShowVendors] = useState(false);
+  const [showKitty, setShowKitty] = useState(false);
+  const [showCollections, setShowCollections] = useState(false);
+  const [receiptDetails, setReceiptDetails] = useState({ method: 'cash' as PaymentMethod, collectedBy: '' });
   const [editingPlayer, setEditingPlayer] = useState<{playerId: string, field: string} | null>(null);
   const [editingCell, setEditingCell] = useState<{playerId: string, field: string} | null>(null);
   const [editValue, setEditValue] = useState<string>('');
@@ -32,12 +134,20 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
     firstName: '', lastName: '', nickname: '', mobile: '', regular: false, arrears: 0, advancePayment: 0
   });
   const [searchTerm, setSearchTerm] = useState('');
-  const [showMatchForm, setShowMatchForm] = useState<'saturday' | 'sunday' | null>(null);
+  // The match being edited, or an empty object for a new one
+  const [showMatchForm, setShowMatchForm] = useState<{ matchId?: string } | null>(null);
+  const [newMatchDate, setNewMatchDate] = useState('');
+  const [useTemplates, setUseTemplates] = useState(true);
   const [matchForm, setMatchForm] = useState({
-    groundCost: '',
-    cafeteriaCost: '',
+    date: '',
+    time: '',
+    expenses: getDefaultExpenses(),
     selectedPlayers: [] as string[],
-    club: 'MICC' as 'MICC' | 'Sadhooz'
+    shareRules: {} as ShareRuleForm,
+    attendance: {} as NonNullable<Match['attendance']>,
+    clubId: getClubs(appData)[0]?.id || '',
+    status: 'scheduled' as MatchStatus,
+    refund: undefined as number | undefined
   });
   const [sortConfig, setSortConfig] = useState<{key: string, direction: 'asc' | 'desc'} | null>(() => {
     const saved = localStorage.getItem('cricket-payment-sort-config');
@@ -51,90 +161,48 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
     }
   }, [sortConfig]);
 
+  const settings = getSettings(appData);
+
   const getCurrentWeekend = (): Weekend | undefined => {
-    return appData.weekends.find(w => w.id === appData.currentWeekendId);
+    return getLedgerCurrentWeekend(appData);
   };
 
-  const getWeekendMatches = (weekend: Weekend): Match[] => {
-    const matches: Match[] = [];
-    if (weekend.saturdayMatch) matches.push(weekend.saturdayMatch);
-    if (weekend.sundayMatch) matches.push(weekend.sundayMatch);
-    matches.push(...weekend.weekdayMatches);
-    return matches;
+  // The current weekend can only be in a closed period when an older weekend is being viewed
+  const getEditableWeekend = (): Weekend | undefined => {
+    const currentWeekend = getCurrentWeekend();
+    return currentWeekend && !isWeekendLocked(appData, currentWeekend) ? currentWeekend : undefined;
   };
 
-  const calculatePlayerPaymentRow = (player: Player): PlayerPaymentRow => {
+  const getCurrentMatches = (): Match[] => {
     const currentWeekend = getCurrentWeekend();
-    if (!currentWeekend) {
-      return {
-        player,
-        prevBalance: 0,
-        amountPaid: 0,
-        totalDue: 0,
-        currentBalance: 0,
-        status: 'pending'
-      };
-    }
+    return currentWeekend ? getWeekendMatches(currentWeekend) : [];
+  };
 
-    // Calculate previous balance including arrears and advance payments
-    const previousWeekends = appData.weekends.filter(w => w.id !== currentWeekend.id);
-    const previousMatches = previousWeekends.flatMap(w => getWeekendMatches(w));
-    
-    let prevBalance = player.balance;
-    
-    // Add arrears (outstanding dues from previous periods)
-    if (player.arrears) {
-      prevBalance += player.arrears;
-    }
-    
-    // Subtract advance payments
-    if (player.advancePayment) {
-      prevBalance -= player.advancePayment;
-    }
-    
-    previousMatches.forEach(match => {
-      const payment = getPlayerPayment(match, player.id);
-      if (payment) {
-        prevBalance += (payment.amountDue - payment.amountPaid);
-      } else if (match.playerIds.includes(player.id)) {
-        const costPerPlayer = (match.groundCost + match.cafeteriaCost) / match.playerIds.length;
-        prevBalance += costPerPlayer;
-      }
+  const calculatePlayerPaymentRow = (player: Player): PlayerPaymentRow => {
+    const playerLedger = buildPlayerLedger(appData, player);
+    const matchPayments: PlayerPaymentRow['matchPayments'] = {};
+    getCurrentMatches().forEach(match => {
+      matchPayments[match.id] = getCurrentMatchEntry(playerLedger, match.id)?.payment;
     });
-
-    // Get current weekend payments
-    const saturdayPayment = currentWeekend.saturdayMatch ? 
-      getPlayerPayment(currentWeekend.saturdayMatch, player.id) : undefined;
-    const sundayPayment = currentWeekend.sundayMatch ? 
-      getPlayerPayment(currentWeekend.sundayMatch, player.id) : undefined;
-
-    const allCurrentPayments = [saturdayPayment, sundayPayment].filter(Boolean) as Payment[];
-    const amountPaid = allCurrentPayments.reduce((sum, p) => sum + p.amountPaid, 0);
-    const totalDue = allCurrentPayments.reduce((sum, p) => sum + p.amountDue, 0);
-    const currentBalance = prevBalance + (totalDue - amountPaid);
-
-    // Determine status based on total balance instead of individual payments
-    let status: 'paid' | 'pending' | 'partial' = 'pending';
-    if (currentBalance <= 0) {
-      status = 'paid'; // If negative balance (overpaid) or zero, mark as paid
-    } else if (amountPaid > 0) {
-      status = 'partial'; // If some payment made but still owes money
-    }
-
     return {
       player,
-      prevBalance,
-      saturdayPayment,
-      sundayPayment,
-      amountPaid,
-      totalDue,
-      currentBalance,
-      status
+      prevBalance: playerLedger.prevBalance,
+      matchPayments,
+      amountPaid: playerLedger.amountPaid,
+      totalDue: playerLedger.totalDue,
+      currentBalance: playerLedger.currentBalance,
+      lateFees: playerLedger.lateFees,
+      membershipDue: playerLedger.membershipDue,
+      kittyDue: playerLedger.kittyDue,
+      status: playerLedger.status
     };
   };
 
+  // Guests only get a row of their own while they owe or are owed something themselves
   const getPlayerRows = (): PlayerPaymentRow[] => {
-    let rows = appData.players.map(calculatePlayerPaymentRow);
+    let rows = appData.players
+      .map(calculatePlayerPaymentRow)
+      .filter(row => !isGuest(row.player) || row.currentBalance !== 0 || Object.values(row.matchPayments).some(Boolean));
     
     // Apply sorting if configured
     if (sortConfig) {
@@ -207,234 +275,219 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
     return player.lastName ? `${player.firstName} ${player.lastName}` : player.firstName;
   };
 
-  const formatDate = (dateString: string, type: 'saturday' | 'sunday' = 'saturday') => {
+  const getGuestLabel = (guest: Player): string => {
+    const host = getHost(appData, guest);
+    if (!host) return 'guest';
+    return guest.collectDirectly ? `guest of ${getPlayerDisplayName(host)}, pays directly` : `guest of ${getPlayerDisplayName(host)}`;
+  };
+
+  // Adds the guest and puts them straight into the match being edited
+  const handleAddGuest = () => {
+    if (!guestForm.name.trim() || !guestForm.hostId) return;
+    const guest = createGuest(guestForm.name.trim(), guestForm.hostId, guestForm.collectDirectly);
+    onAppDataUpdate({ ...appData, players: [...appData.players, guest] });
+    setMatchForm({ ...matchForm, selectedPlayers: [...matchForm.selectedPlayers, guest.id] });
+    setGuestForm({ ...guestForm, name: '' });
+  };
+
+  const formatDate = (dateString: string, pattern = 'MMM dd') => {
     try {
-      const startDate = parse(dateString, 'yyyy-MM-dd', new Date());
-      const targetDate = type === 'saturday' ? startDate : addDays(startDate, 1);
-      return format(targetDate, 'MMM dd');
+      return format(parse(dateString, 'yyyy-MM-dd', new Date()), pattern);
     } catch {
-      return type === 'saturday' ? 'Aug 30' : 'Aug 31';
+      return dateString;
     }
   };
 
+  // Pressing Next again from a weekend that already has a following one just moves to it;
+  // only a newly added weekend gets matches from the templates
   const handleNextWeekend = () => {
-    const currentWeekend = getCurrentWeekend();
-    if (!currentWeekend) return;
+    const moved = goToNextWeekend(appData);
+    const isNew = moved.weekends.length > appData.weekends.length;
+    onAppDataUpdate(isNew && useTemplates ? applyTemplates(moved, moved.currentWeekendId) : moved);
+  };
 
-    const nextWeekend = getNextWeekend(currentWeekend);
-    const updatedData = {
-      ...appData,
-      weekends: [...appData.weekends, nextWeekend],
-      currentWeekendId: nextWeekend.id
-    };
-    onAppDataUpdate(updatedData);
+  const handleSelectWeekend = (weekendId: string) => {
+    resetMatchForm();
+    onAppDataUpdate({ ...appData, currentWeekendId: weekendId });
   };
 
-  const handleEditMatch = (type: 'saturday' | 'sunday') => {
-    const currentWeekend = getCurrentWeekend();
-    if (!currentWeekend) return;
-    
-    const match = type === 'saturday' ? currentWeekend.saturdayMatch : currentWeekend.sundayMatch;
-    if (!match) return;
+  const handleGoToDate = (date: string) => {
+    if (!date) return;
+    resetMatchForm();
+    onAppDataUpdate(goToWeekend(appData, date));
+  };
+
+  const handleEditMatch = (match: Match) => {
+    if (!getEditableWeekend()) return;
     
     // Pre-fill the form with existing match data
     setMatchForm({
-      groundCost: match.groundCost.toString(),
-      cafeteriaCost: match.cafeteriaCost.toString(),
+      date: match.date,
+      time: match.time || '',
+      expenses: match.expenses,
+      selectedPlayers: match.playerIds,
+      shareRules: toShareRuleForm(match.playerShares),
+      attendance: match.attendance || {},
+      clubId: match.clubId,
+      status: getMatchStatus(match),
+      refund: match.refund
+    });
+    setShowMatchForm({ matchId: match.id });
+  };
+
+  // Saturday defaults to the first club and Sunday to the second, as they were before clubs were configurable
+  const getDefaultClub = (date: string): Club | undefined => {
+    const clubs = getClubs(appData);
+    const currentWeekend = getCurrentWeekend();
+    return currentWeekend && date === getWeekendSunday(currentWeekend) ? clubs[1] || clubs[0] : clubs[0];
+  };
+
+  const handleNewMatch = (date: string) => {
+    const club = getDefaultClub(date);
+    setMatchForm({
+      date,
+      time: '',
+      expenses: getClubExpenses(club),
+      selectedPlayers: [],
+      shareRules: {},
+      attendance: {},
+      clubId: club?.id || '',
+      status: 'scheduled',
+      refund: undefined
+    });
+    setShowMatchForm({});
+  };
+
+  // Fills the form from a template, keeping the weekend being viewed
+  const handleApplyTemplate = (templateId: string) => {
+    const template = getTemplate(appData, templateId);
+    const currentWeekend = getCurrentWeekend();
+    if (!template || !currentWeekend) return;
+    const match = createMatchFromTemplate(appData, template, currentWeekend);
+    setMatchForm({
+      date: match.date,
+      time: match.time || '',
+      expenses: match.expenses,
       selectedPlayers: match.playerIds,
-      club: match.club
+      shareRules: toShareRuleForm(match.playerShares),
+      attendance: {},
+      clubId: match.clubId,
+      status: 'scheduled',
+      refund: undefined
     });
-    setShowMatchForm(type);
   };
 
-  const handleDeleteMatch = (type: 'saturday' | 'sunday') => {
+  const handleSaveAsTemplate = () => {
     const currentWeekend = getCurrentWeekend();
+    if (!currentWeekend || !matchForm.date) return;
+    const name = window.prompt('Template name', `${getClubName(appData, matchForm.clubId)} ${formatDate(matchForm.date, 'EEEE')}`);
+    if (!name || !name.trim()) return;
+    const template = createTemplateFromMatch({
+      id: '',
+      date: matchForm.date,
+      time: matchForm.time || undefined,
+      clubId: matchForm.clubId,
+      expenses: matchForm.expenses,
+      playerIds: matchForm.selectedPlayers,
+      playerShares: toPlayerShares(matchForm.shareRules, matchForm.selectedPlayers),
+      payments: []
+    }, currentWeekend, name.trim());
+    onAppDataUpdate(saveTemplate(appData, template));
+    alert(`Saved the template "${template.name}". Edit it under Settings.`);
+  };
+
+  // Ground lines still at the old club's usual cost move to the new club's
+  const handleMatchClubChange = (clubId: string) => {
+    const previous = getClub(appData, matchForm.clubId);
+    const next = getClub(appData, clubId);
+    const expenses = matchForm.expenses.map(expense =>
+      expense.category === 'ground' && next && expense.amount === (previous?.defaultGroundCost || 0)
+        ? { ...expense, amount: next.defaultGroundCost }
+        : expense
+    );
+    setMatchForm({ ...matchForm, clubId, expenses });
+  };
+
+  const renderClubBadge = (clubId: string) => {
+    const club = getClub(appData, clubId);
+    return (
+      <span className="club-badge" style={{ background: club?.colour }}>
+        {getClubName(appData, clubId)}
+      </span>
+    );
+  };
+
+  const handleDeleteMatch = (match: Match) => {
+    const currentWeekend = getEditableWeekend();
     if (!currentWeekend) return;
     
-    if (window.confirm(`Are you sure you want to delete the ${type} match? This will remove all payment records for this match.`)) {
-      let updatedWeekend = { ...currentWeekend };
-      if (type === 'saturday') {
-        updatedWeekend.saturdayMatch = undefined;
-      } else {
-        updatedWeekend.sundayMatch = undefined;
-      }
-      
+    const label = `${getMatchDay(match)} ${formatMatchDate(match, 'MMM dd')}`;
+    const hasReceipts = match.payments.some(payment => payment.receipts.length > 0);
+    const warning = hasReceipts
+      ? `Players have already paid for the ${label} match. Deleting it removes their payment records; set the match to Abandoned or Cancelled instead to keep what they paid as credit. Delete anyway?`
+      : `Are you sure you want to delete the ${label} match? This will remove all payment records for this match.`;
+    if (window.confirm(warning)) {
       const updatedWeekends = appData.weekends.map(w => 
-        w.id === currentWeekend.id ? updatedWeekend : w
+        w.id === currentWeekend.id ? removeWeekendMatch(w, match.id) : w
       );
       onAppDataUpdate({ ...appData, weekends: updatedWeekends });
     }
   };
 
-  const handleCreateMatch = (type: 'saturday' | 'sunday') => {
-    const groundCost = parseFloat(matchForm.groundCost) || 0;
-    const cafeteriaCost = parseFloat(matchForm.cafeteriaCost) || 0;
+  const resetMatchForm = () => {
+    setMatchForm({ date: '', time: '', expenses: getDefaultExpenses(), selectedPlayers: [], shareRules: {}, attendance: {}, clubId: getClubs(appData)[0]?.id || '', status: 'scheduled', refund: undefined });
+    setShowMatchForm(null);
+  };
+
+  const handleCreateMatch = () => {
     const playerIds = matchForm.selectedPlayers;
-    const currentWeekend = getCurrentWeekend();
-    if (!currentWeekend || playerIds.length === 0) return;
+    const currentWeekend = getEditableWeekend();
+    if (!currentWeekend || !showMatchForm || playerIds.length === 0 || !matchForm.date) return;
 
-    const existingMatch = type === 'saturday' ? currentWeekend.saturdayMatch : currentWeekend.sundayMatch;
-    const costPerPlayer = (groundCost + cafeteriaCost) / playerIds.length;
+    const existingMatch = currentWeekend.matches.find(m => m.id === showMatchForm.matchId);
     
-    let match: Match;
-    
-    if (existingMatch) {
-      // Update existing match
-      match = {
-        ...existingMatch,
-        club: matchForm.club,
-        groundCost,
-        cafeteriaCost,
-        playerIds,
-        payments: playerIds.map(playerId => {
-          // Keep existing payment if player was already in match, otherwise create new
-          const existingPayment = existingMatch.payments.find(p => p.playerId === playerId);
-          return existingPayment ? { ...existingPayment, amountDue: costPerPlayer } : createPayment(uuidv4(), playerId, costPerPlayer);
-        })
-      };
-    } else {
-      // Create new match
-      match = {
+    // Keep existing payments for players already in the match; new players get fresh records
+    // Members' cover is worked out afresh on every save, from the plans running on the match date,
+    // and so is which guests' shares go to their hosts
+    const match: Match = syncMatchPayments(applyGuests(appData, applyMemberships(appData, {
+      ...(existingMatch || {
         id: uuidv4(),
-        date: type === 'saturday' ? currentWeekend.startDate : format(addDays(parse(currentWeekend.startDate, 'yyyy-MM-dd', new Date()), 1), 'yyyy-MM-dd'),
-        club: matchForm.club,
-        type: type === 'saturday' ? 'Saturday' : 'Sunday',
-        groundCost,
-        cafeteriaCost,
-        playerIds,
-        payments: playerIds.map(playerId => createPayment(uuidv4(), playerId, costPerPlayer))
-      };
-    }
-
-    let updatedWeekend = { ...currentWeekend };
-    if (type === 'saturday') {
-      updatedWeekend.saturdayMatch = match;
-    } else {
-      updatedWeekend.sundayMatch = match;
-    }
+        payments: []
+      }),
+      date: matchForm.date,
+      time: matchForm.time || undefined,
+      clubId: matchForm.clubId,
+      expenses: matchForm.expenses,
+      playerIds,
+      playerShares: toPlayerShares(matchForm.shareRules, playerIds),
+      attendance: toAttendance(matchForm.attendance, playerIds),
+      status: matchForm.status,
+      refund: matchForm.refund
+    })), settings.rounding, settings.graceDays);
 
     const updatedWeekends = appData.weekends.map(w => 
-      w.id === currentWeekend.id ? updatedWeekend : w
+      w.id === currentWeekend.id ? saveWeekendMatch(w, match) : w
     );
     onAppDataUpdate({ ...appData, weekends: updatedWeekends });
     
-    // Reset form
-    setMatchForm({ groundCost: '', cafeteriaCost: '', selectedPlayers: [], club: 'MICC' });
-    setShowMatchForm(null);
+    resetMatchForm();
   };
 
+  // Who took the money and how, for receipts recorded from the payment table
+  const getReceiptDetails = () => ({
+    method: receiptDetails.method,
+    collectedBy: receiptDetails.collectedBy || undefined
+  });
+
   const handleOverallPaymentToggle = (playerId: string) => {
-    console.log('Status button clicked for player:', playerId);
-    const currentWeekend = getCurrentWeekend();
-    if (!currentWeekend) {
-      console.log('No current weekend found');
-      return;
-    }
+    const currentWeekend = getEditableWeekend();
+    if (!currentWeekend) return;
 
     const player = appData.players.find(p => p.id === playerId)!;
     const playerRow = calculatePlayerPaymentRow(player);
-    const isCurrentlyPaid = playerRow.status === 'paid';
-    console.log('Player status:', playerRow.status, 'isCurrentlyPaid:', isCurrentlyPaid);
-    console.log('Current balance:', playerRow.currentBalance);
-    
-    let updatedWeekend = { ...currentWeekend };
-    let updatedPlayers = [...appData.players];
-    
-    // Get all current payments for this player directly from the matches
-    const saturdayPayment = currentWeekend.saturdayMatch ? 
-      getPlayerPayment(currentWeekend.saturdayMatch, playerId) : undefined;
-    const sundayPayment = currentWeekend.sundayMatch ? 
-      getPlayerPayment(currentWeekend.sundayMatch, playerId) : undefined;
-      
-    const allCurrentPayments = [saturdayPayment, sundayPayment].filter(Boolean) as Payment[];
-    console.log('Found payments:', allCurrentPayments.length, allCurrentPayments);
-    
-    if (isCurrentlyPaid) {
-      // If currently paid, mark as unpaid (set amountPaid to 0 for all matches and reset player balance)
-      console.log('Marking as unpaid - setting payments to 0');
-      
-      // Reset all current weekend payments to 0
-      allCurrentPayments.forEach(payment => {
-        const paymentStatus: Payment['status'] = 'pending';
-        const updatedPayment: Payment = { 
-          ...payment, 
-          amountPaid: 0, 
-          status: paymentStatus
-        };
-
-        // Update Saturday match payment
-        if (updatedWeekend.saturdayMatch && payment.playerId === playerId) {
-          const satPayment = updatedWeekend.saturdayMatch.payments.find(p => p.playerId === playerId);
-          if (satPayment && satPayment.id === payment.id) {
-            updatedWeekend.saturdayMatch.payments = updatedWeekend.saturdayMatch.payments.map(p => 
-              p.playerId === playerId ? updatedPayment : p
-            );
-          }
-        }
-        
-        // Update Sunday match payment
-        if (updatedWeekend.sundayMatch && payment.playerId === playerId) {
-          const sunPayment = updatedWeekend.sundayMatch.payments.find(p => p.playerId === playerId);
-          if (sunPayment && sunPayment.id === payment.id) {
-            updatedWeekend.sundayMatch.payments = updatedWeekend.sundayMatch.payments.map(p => 
-              p.playerId === playerId ? updatedPayment : p
-            );
-          }
-        }
-      });
-      
-      // Reset player's previous balance to what it should be (original balance)
-      updatedPlayers = updatedPlayers.map(p => 
-        p.id === playerId ? { ...p, balance: playerRow.currentBalance } : p
-      );
-      
-    } else {
-      // If currently unpaid, mark as FULLY paid (clear ALL dues including previous balance)
-      console.log('Marking as fully paid - clearing all dues');
-      
-      // Set all current weekend payments to fully paid
-      allCurrentPayments.forEach(payment => {
-        const paymentStatus: Payment['status'] = 'paid';
-        const updatedPayment: Payment = { 
-          ...payment, 
-          amountPaid: payment.amountDue, 
-          status: paymentStatus
-        };
-
-        // Update Saturday match payment
-        if (updatedWeekend.saturdayMatch && payment.playerId === playerId) {
-          const satPayment = updatedWeekend.saturdayMatch.payments.find(p => p.playerId === playerId);
-          if (satPayment && satPayment.id === payment.id) {
-            updatedWeekend.saturdayMatch.payments = updatedWeekend.saturdayMatch.payments.map(p => 
-              p.playerId === playerId ? updatedPayment : p
-            );
-          }
-        }
-        
-        // Update Sunday match payment
-        if (updatedWeekend.sundayMatch && payment.playerId === playerId) {
-          const sunPayment = updatedWeekend.sundayMatch.payments.find(p => p.playerId === playerId);
-          if (sunPayment && sunPayment.id === payment.id) {
-            updatedWeekend.sundayMatch.payments = updatedWeekend.sundayMatch.payments.map(p => 
-              p.playerId === playerId ? updatedPayment : p
-            );
-          }
-        }
-      });
-      
-      // Clear player's previous balance to 0 (they've paid everything)
-      updatedPlayers = updatedPlayers.map(p => 
-        p.id === playerId ? { ...p, balance: 0 } : p
-      );
-    }
-
-    const updatedWeekends = appData.weekends.map(w => 
-      w.id === currentWeekend.id ? updatedWeekend : w
-    );
-    
-    console.log('Updating app data...');
-    onAppDataUpdate({ ...appData, weekends: updatedWeekends, players: updatedPlayers });
-    console.log('Status toggle completed');
+    onAppDataUpdate(playerRow.status === 'paid'
+      ? markWeekendUnpaid(appData, currentWeekend.id, playerId)
+      : markWeekendPaid(appData, currentWeekend.id, playerId, playerRow.prevBalance, getReceiptDetails()));
   };
 
 
@@ -462,7 +515,7 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
         arrears: 0,
         advancePayment: 0
       }));
-      onAppDataUpdate({ ...appData, players: updatedPlayers });
+      onAppDataUpdate({ ...appData, players: updatedPlayers }, { type: 'player', description: 'Cleared all financial data' });
       alert('All financial data has been cleared successfully!');
     }
   };
@@ -472,37 +525,16 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
       // Remove player from players list
       const updatedPlayers = appData.players.filter(p => p.id !== playerId);
       
-      // Remove player from all matches across all weekends
-      const updatedWeekends = appData.weekends.map(weekend => {
-        const updatedWeekend = { ...weekend };
-        
-        // Update Saturday match
-        if (updatedWeekend.saturdayMatch) {
-          updatedWeekend.saturdayMatch = {
-            ...updatedWeekend.saturdayMatch,
-            playerIds: updatedWeekend.saturdayMatch.playerIds.filter(id => id !== playerId),
-            payments: updatedWeekend.saturdayMatch.payments.filter(p => p.playerId !== playerId)
-          };
-        }
-        
-        // Update Sunday match
-        if (updatedWeekend.sundayMatch) {
-          updatedWeekend.sundayMatch = {
-            ...updatedWeekend.sundayMatch,
-            playerIds: updatedWeekend.sundayMatch.playerIds.filter(id => id !== playerId),
-            payments: updatedWeekend.sundayMatch.payments.filter(p => p.playerId !== playerId)
-          };
-        }
-        
-        // Update weekday matches
-        updatedWeekend.weekdayMatches = updatedWeekend.weekdayMatches.map(match => ({
+      // Remove player from all matches across all weekends; guests they paid for owe their own share
+      const updatedWeekends = appData.weekends.map(weekend => mapWeekendMatches(weekend, match => {
+        const billedTo = Object.entries(match.billedTo || {}).filter(([guestId, hostId]) => guestId !== playerId && hostId !== playerId);
+        return {
           ...match,
           playerIds: match.playerIds.filter(id => id !== playerId),
-          payments: match.payments.filter(p => p.playerId !== playerId)
-        }));
-        
-        return updatedWeekend;
-      });
+          payments: match.payments.filter(p => p.playerId !== playerId),
+          billedTo: billedTo.length > 0 ? Object.fromEntries(billedTo) : undefined
+        };
+      }));
       
       onAppDataUpdate({ ...appData, players: updatedPlayers, weekends: updatedWeekends });
     }
@@ -526,8 +558,8 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
       nickname: newPlayerData.nickname.trim() || undefined,
       mobile: newPlayerData.mobile.trim() || '',
       balance: 0,
-      arrears: newPlayerData.arrears || 0,
-      advancePayment: newPlayerData.advancePayment || 0,
+      arrears: toPaise(newPlayerData.arrears || 0),
+      advancePayment: toPaise(newPlayerData.advancePayment || 0),
       regular: newPlayerData.regular
     };
     
@@ -582,7 +614,7 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
     const updatedPlayers = appData.players.map(player => {
       if (player.id === playerId) {
         if (field === 'balance' || field === 'arrears' || field === 'advancePayment') {
-          return { ...player, [field]: parseFloat(editValue) || 0 };
+          return { ...player, [field]: parseRupees(editValue) };
         }
         return { ...player, [field]: editValue.trim() };
       }
@@ -594,7 +626,8 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
     setEditValue('');
   };
 
-  const filteredPlayers = appData.players.filter(player => 
+  // Guests are listed apart, under the player list
+  const filteredPlayers = getMembers(appData.players).filter(player => 
     `${player.firstName} ${player.lastName}`.toLowerCase().includes(searchTerm.toLowerCase()) ||
     (player.nickname && player.nickname.toLowerCase().includes(searchTerm.toLowerCase())) ||
     player.mobile.includes(searchTerm)
@@ -603,18 +636,18 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
   const handleTotalDueEdit = (playerId: string) => {
     const playerRow = calculatePlayerPaymentRow(appData.players.find(p => p.id === playerId)!);
     setEditingCell({ playerId, field: 'totalDue' });
-    setEditValue(Math.max(0, playerRow.currentBalance).toString());
+    setEditValue(fromPaise(Math.max(0, playerRow.currentBalance)).toString());
   };
 
   // Handle editing previous balance in Payment Overview
   const handlePrevBalanceClick = (playerId: string) => {
     const player = appData.players.find(p => p.id === playerId)!;
     setEditingCell({ playerId, field: 'prevBalance' });
-    setEditValue((player.balance || 0).toString());
+    setEditValue(fromPaise(player.balance || 0).toString());
   };
 
   const handlePrevBalanceEdit = (playerId: string) => {
-    const newBalance = parseFloat(editValue) || 0;
+    const newBalance = parseRupees(editValue);
     const updatedPlayers = appData.players.map(player => 
       player.id === playerId ? { ...player, balance: newBalance } : player
     );
@@ -625,11 +658,11 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
   const handleAdvancePaymentClick = (playerId: string) => {
     const player = appData.players.find(p => p.id === playerId)!;
     setEditingCell({ playerId, field: 'advancePayment' });
-    setEditValue((player.advancePayment || 0).toString());
+    setEditValue(fromPaise(player.advancePayment || 0).toString());
   };
 
   const handleAdvancePaymentEdit = (playerId: string) => {
-    const newAdvancePayment = parseFloat(editValue) || 0;
+    const newAdvancePayment = parseRupees(editValue);
     const updatedPlayers = appData.players.map(player => 
       player.id === playerId ? { ...player, advancePayment: newAdvancePayment } : player
     );
@@ -638,59 +671,29 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
   };
 
   const handleTotalDueSave = (playerId: string) => {
-    const currentWeekend = getCurrentWeekend();
+    const currentWeekend = getEditableWeekend();
     if (!currentWeekend) return;
 
-    const newTotalDue = parseFloat(editValue) || 0;
+    const newTotalDue = parseRupees(editValue);
     const playerRow = calculatePlayerPaymentRow(appData.players.find(p => p.id === playerId)!);
     
     // Calculate how much the player should have paid to reach the new total due
     const targetTotalPaid = playerRow.totalDue - newTotalDue;
     
-    let updatedWeekend = { ...currentWeekend };
-    
     // Distribute the payment across available matches proportionally
-    const allCurrentPayments = [playerRow.saturdayPayment, playerRow.sundayPayment].filter(Boolean) as Payment[];
+    const allCurrentPayments = Object.values(playerRow.matchPayments).filter(Boolean) as Payment[];
     const totalOwed = allCurrentPayments.reduce((sum, p) => sum + p.amountDue, 0);
     
-    if (totalOwed > 0) {
-      allCurrentPayments.forEach(payment => {
-        const proportion = payment.amountDue / totalOwed;
-        const newAmountPaid = Math.max(0, Math.min(payment.amountDue, targetTotalPaid * proportion));
-        
-        // Update Saturday match payment
-        if (updatedWeekend.saturdayMatch && payment.playerId === playerId) {
-          const satPayment = updatedWeekend.saturdayMatch.payments.find(p => p.playerId === playerId);
-          if (satPayment && satPayment.id === payment.id) {
-            const paymentStatus: Payment['status'] = newAmountPaid >= satPayment.amountDue ? 'paid' : newAmountPaid > 0 ? 'partial' : 'pending';
-            const updatedPayment: Payment = { 
-              ...satPayment, 
-              amountPaid: newAmountPaid, 
-              status: paymentStatus
-            };
-            updatedWeekend.saturdayMatch.payments = updatedWeekend.saturdayMatch.payments.map(p => 
-              p.playerId === playerId ? updatedPayment : p
-            );
-          }
-        }
-        
-        // Update Sunday match payment
-        if (updatedWeekend.sundayMatch && payment.playerId === playerId) {
-          const sunPayment = updatedWeekend.sundayMatch.payments.find(p => p.playerId === playerId);
-          if (sunPayment && sunPayment.id === payment.id) {
-            const paymentStatus: Payment['status'] = newAmountPaid >= sunPayment.amountDue ? 'paid' : newAmountPaid > 0 ? 'partial' : 'pending';
-            const updatedPayment: Payment = { 
-              ...sunPayment, 
-              amountPaid: newAmountPaid, 
-              status: paymentStatus
-            };
-            updatedWeekend.sundayMatch.payments = updatedWeekend.sundayMatch.payments.map(p => 
-              p.playerId === playerId ? updatedPayment : p
-            );
-          }
-        }
-      });
-    }
+    const updatedWeekend = totalOwed > 0
+      ? mapWeekendMatches(currentWeekend, match => ({
+          ...match,
+          payments: match.payments.map(p => {
+            if (p.playerId !== playerId) return p;
+            const newAmountPaid = Math.max(0, Math.min(p.amountDue, Math.round(targetTotalPaid * p.amountDue / totalOwed)));
+            return setPartialPayment(p, newAmountPaid, getReceiptDetails());
+          })
+        }))
+      : currentWeekend;
 
     const updatedWeekends = appData.weekends.map(w => 
       w.id === currentWeekend.id ? updatedWeekend : w
@@ -711,50 +714,84 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
       return;
     }
 
-    const satDate = formatDate(currentWeekend.startDate, 'saturday');
-    const sunDate = formatDate(currentWeekend.startDate, 'sunday');
+    const matches = getWeekendMatches(currentWeekend);
+    const matchDates = matches.map(match => formatMatchDate(match, 'MMM dd'));
     
     let message = `🏏 *Weekend Cricket Cost Update*\n`;
-    message += `📅 ${satDate} & ${sunDate}\n\n`;
+    message += `📅 ${matchDates.length > 0 ? matchDates.join(' & ') : formatDate(currentWeekend.startDate)}\n\n`;
     message += `*Pending Payments:*\n`;
     
     pendingPlayers.forEach(row => {
       const name = `${row.player.firstName} ${row.player.lastName}`.trim();
-      message += `• ${name}: ₹${row.currentBalance}\n`;
+      // What each of this weekend's matches adds, when there is more than one
+      const perMatch = matches.length > 1
+        ? matches
+            .filter(match => row.matchPayments[match.id])
+            .map(match => `${formatMatchDate(match, 'EEE')} ${formatCurrency(row.matchPayments[match.id]!.amountDue)}`)
+        : [];
+      const included = [
+        ...perMatch,
+        row.lateFees > 0 ? `${formatCurrency(row.lateFees)} late fee` : '',
+        row.membershipDue > 0 ? `${formatCurrency(row.membershipDue)} membership` : '',
+        row.kittyDue > 0 ? `${formatCurrency(row.kittyDue)} fines and contributions` : ''
+      ].filter(Boolean);
+      const breakdown = included.length > 0 ? ` (incl. ${included.join(', ')})` : '';
+      message += `• ${name}: ${formatCurrency(row.currentBalance)}${breakdown}\n`;
     });
+
+    // Charges for matches a player was down for but did not play, listed apart from the dues above
+    const noShowCharges = matches.flatMap(match => getNoShowCharges(match).map(charge => ({ ...charge, match })));
+    if (noShowCharges.length > 0) {
+      message += `\n*No-show Charges:*\n`;
+      noShowCharges.forEach(charge => {
+        const player = appData.players.find(p => p.id === charge.playerId);
+        const name = player ? `${player.firstName} ${player.lastName || ''}`.trim() : 'Removed player';
+        message += `• ${name}: ${formatCurrency(charge.amountDue)} (${getAttendanceLabel(charge.status)}, ${formatMatchDate(charge.match, 'EEE')})\n`;
+      });
+    }
     
-    message += `\n💰 Total Pending: ₹${pendingPlayers.reduce((sum, row) => sum + row.currentBalance, 0)}\n`;
+    const totalLateFees = pendingPlayers.reduce((sum, row) => sum + row.lateFees, 0);
+    message += `\n💰 Total Pending: ${formatCurrency(pendingPlayers.reduce((sum, row) => sum + row.currentBalance, 0))}\n`;
+    if (totalLateFees > 0) {
+      message += `⏰ Late Fees: ${formatCurrency(totalLateFees)}\n`;
+    }
     message += `👥 Players: ${pendingPlayers.length}/${playerRows.length}\n\n`;
+    if (settings.lateFee) {
+      message += `${formatLateFeeRule(settings.lateFee, settings.graceDays)}\n`;
+    }
     message += `Please clear your dues soon. Thanks! 🙏`;
 
-    // Copy to clipboard
-    navigator.clipboard.writeText(message).then(() => {
-      alert('Message copied to clipboard! You can now paste it in WhatsApp.');
-    }).catch(() => {
-      // Fallback: show message in a popup for manual copy
-      const popup = window.open('', '_blank', 'width=400,height=600');
-      if (popup) {
-        popup.document.write(`
-          <html>
-            <head><title>WhatsApp Message</title></head>
-            <body style="font-family: Arial; padding: 20px;">
-              <h3>Copy this message for WhatsApp:</h3>
-              <textarea style="width: 100%; height: 400px; font-size: 14px;" readonly>${message}</textarea>
-              <br><br>
-              <button onclick="navigator.clipboard.writeText(document.querySelector('textarea').value).then(() => alert('Copied!')).catch(() => alert('Please copy manually'))">Copy to Clipboard</button>
-            </body>
-          </html>
-        `);
-      }
-    });
+    shareWhatsAppText(message);
   };
 
 
   const currentWeekend = getCurrentWeekend();
+  const isLocked = !!currentWeekend && !getEditableWeekend();
   const playerRows = getPlayerRows();
   const pendingCount = playerRows.filter(row => row.status === 'pending').length;
   const paidCount = playerRows.filter(row => row.status === 'paid').length;
   const partialCount = playerRows.filter(row => row.status === 'partial').length;
+  const today = new Date();
+  const undoEntry = getUndoEntry(auditLog);
+  const redoEntry = getRedoEntry(auditLog);
+  const cash = getCashPosition(appData);
+  const previousWeekend = getAdjacentWeekend(appData, -1);
+  const followingWeekend = getAdjacentWeekend(appData, 1);
+
+  // Each player's weekend due broken down by expense category
+  const currentMatches = getCurrentMatches();
+  const getCategoryBreakdown = (playerId: string): string => {
+    const totals: { [category in ExpenseCategory]?: number } = {};
+    currentMatches.forEach(match => {
+      Object.entries(calculatePlayerCategoryShares(match, playerId, settings.rounding)).forEach(([category, amount]) => {
+        totals[category as ExpenseCategory] = (totals[category as ExpenseCategory] || 0) + (amount || 0);
+      });
+    });
+    return EXPENSE_CATEGORIES
+      .filter(category => totals[category.value])
+      .map(category => `${category.label} ${formatCurrency(totals[category.value]!)}`)
+      .join(' · ');
+  };
 
   return (
     <div className="consolidated-dashboard">
@@ -764,7 +801,44 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
           <h1>🏏 Cricket Cost Splitter</h1>
           {currentWeekend && (
             <p className="weekend-dates">
-              Weekend: {formatDate(currentWeekend.startDate, 'saturday')} - {formatDate(currentWeekend.startDate, 'sunday')}, 2025
+              Weekend: {formatDate(currentWeekend.startDate)} - {formatDate(getWeekendSunday(currentWeekend), 'MMM dd, yyyy')}
+            </p>
+          )}
+          <p
+            className="cash-position"
+            title={`Collected ${formatCurrency(cash.collected)}, paid to clubs ${formatCurrency(cash.paidToVendors)}, refunds ${formatCurrency(cash.refundsReceived)}, paid back to players ${formatCurrency(cash.reimbursed)}, kitty purchases ${formatCurrency(cash.purchases)}, kitty income ${formatCurrency(cash.income)}`}
+          >
+            Team cash: {cash.net < 0 ? '-' : ''}{formatCurrency(Math.abs(cash.net))}
+          </p>
+          {currentWeekend && (
+            <div className="weekend-nav">
+              <button
+                className="action-btn secondary"
+                onClick={() => previousWeekend && handleSelectWeekend(previousWeekend.id)}
+                disabled={!previousWeekend}
+                title={previousWeekend ? `Weekend of ${formatDate(previousWeekend.startDate)}` : 'No earlier weekend'}
+              >
+                ← Previous
+              </button>
+              <input
+                type="date"
+                value={currentWeekend.startDate}
+                onChange={(e) => handleGoToDate(e.target.value)}
+                title="Jump to the weekend of a date"
+              />
+              <button
+                className="action-btn secondary"
+                onClick={() => followingWeekend && handleSelectWeekend(followingWeekend.id)}
+                disabled={!followingWeekend}
+                title={followingWeekend ? `Weekend of ${formatDate(followingWeekend.startDate)}` : 'No later weekend yet'}
+              >
+                Next →
+              </button>
+            </div>
+          )}
+          {isLocked && (
+            <p className="locked-badge">
+              🔒 In the closed period "{getLatestClosedPeriod(appData)?.name}" - read-only
             </p>
           )}
         </div>
@@ -773,15 +847,70 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
           <button className="action-btn primary" onClick={handleNextWeekend}>
             Next Weekend →
           </button>
+          {getTemplates(appData).some(template => template.autoCreate) && (
+            <label className="template-toggle" title="Pre-create the auto-create templates' matches on a new weekend">
+              <input type="checkbox" checked={useTemplates} onChange={(e) => setUseTemplates(e.target.checked)} />
+              With templates
+            </label>
+          )}
+          <button className="action-btn secondary" onClick={() => setShowWeekends(true)}>
+            Weekends ({appData.weekends.length})
+          </button>
+          <button className="action-btn secondary" onClick={() => setShowAvailability(true)} disabled={!currentWeekend}>
+            Availability
+          </button>
           <button className="action-btn secondary" onClick={generateWhatsAppText}>
             WhatsApp Message
           </button>
+          <button className="action-btn secondary" onClick={() => setShowWhatsAppImage(true)}>
+            WhatsApp Image
+          </button>
           <button className="action-btn secondary" onClick={() => setShowPlayerManagement(true)}>
             Manage Players ({appData.players.length})
           </button>
           <button className="action-btn secondary" onClick={() => setShowDataManagement(true)}>
             Data Management
           </button>
+          <button className="action-btn secondary" onClick={() => setShowReports(true)}>
+            Reports
+          </button>
+          <button className="action-btn secondary" onClick={() => setShowVendors(true)}>
+            Vendors
+          </button>
+          <button className="action-btn secondary" onClick={() => setShowKitty(true)}>
+            Kitty
+          </button>
+          <button className="action-btn secondary" onClick={() => setShowCollections(true)}>
+            Collections
+          </button>
+          <button className="action-btn secondary" onClick={() => setShowPeriods(true)}>
+            Periods
+          </button>
+          <button className="action-btn secondary" onClick={() => setShowMemberships(true)}>
+            Memberships
+          </button>
+          <button className="action-btn secondary" onClick={() => setShowSettings(true)}>
+            Settings
+          </button>
+          <button className="action-btn secondary" onClick={() => setShowAuditLog(true)}>
+            Audit Log
+          </button>
+          <button
+            className="action-btn secondary"
+            onClick={onUndo}
+            disabled={!undoEntry}
+            title={undoEntry ? `Undo: ${undoEntry.description}` : 'Nothing to undo'}
+          >
+            ↶ Undo
+          </button>
+          <button
+            className="action-btn secondary"
+            onClick={onRedo}
+            disabled={!redoEntry}
+            title={redoEntry ? `Redo: ${redoEntry.description}` : 'Nothing to redo'}
+          >
+            ↷ Redo
+          </button>
         </div>
       </div>
 
@@ -834,6 +963,7 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
                         <th>Arrears</th>
                         <th>Advance</th>
                         <th>Regular</th>
+                        <th>Reliability</th>
                         <th>Actions</th>
                       </tr>
                     </thead>
@@ -920,6 +1050,7 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
                             className="regular-checkbox"
                           />
                         </td>
+                        <td></td>
                         <td>
                           <button 
                             className="btn primary small" 
@@ -930,196 +1061,304 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
                           </button>
                         </td>
                       </tr>
-                      {filteredPlayers.map(player => (
-                        <tr key={player.id}>
-                          <td>
-                            {editingPlayer?.playerId === player.id && editingPlayer?.field === 'firstName' ? (
-                              <input
-                                type="text"
-                                value={editValue}
-                                onChange={(e) => setEditValue(e.target.value)}
-                                onBlur={handlePlayerSave}
-                                onKeyDown={(e) => {
-                                  if (e.key === 'Enter') handlePlayerSave();
-                                  if (e.key === 'Escape') setEditingPlayer(null);
-                                  if (e.key === 'Tab') {
-                                    e.preventDefault();
-                                    handlePlayerTabToNext(player.id, 'firstName', 'lastName');
-                                  }
-                                }}
-                                className="inline-edit"
-                                autoFocus
-                              />
-                            ) : (
-                              <span 
-                                className="editable-cell"
-                                onClick={() => handlePlayerEdit(player.id, 'firstName', player.firstName)}
-                              >
-                                {player.firstName}
-                              </span>
+                      {filteredPlayers.map(player => {
+                        const reliability = getPlayerReliability(appData, player.id);
+                        return (
+                          <React.Fragment key={player.id}>
+                            <tr>
+                              <td>
+                                {editingPlayer?.playerId === player.id && editingPlayer?.field === 'firstName' ? (
+                                  <input
+                                    type="text"
+                                    value={editValue}
+                                    onChange={(e) => setEditValue(e.target.value)}
+                                    onBlur={handlePlayerSave}
+                                    onKeyDown={(e) => {
+                                      if (e.key === 'Enter') handlePlayerSave();
+                                      if (e.key === 'Escape') setEditingPlayer(null);
+                                      if (e.key === 'Tab') {
+                                        e.preventDefault();
+                                        handlePlayerTabToNext(player.id, 'firstName', 'lastName');
+                                      }
+                                    }}
+                                    className="inline-edit"
+                                    autoFocus
+                                  />
+                                ) : (
+                                  <span 
+                                    className="editable-cell"
+                                    onClick={() => handlePlayerEdit(player.id, 'firstName', player.firstName)}
+                                  >
+                                    {player.firstName}
+                                  </span>
+                                )}
+                              </td>
+                              <td>
+                                {editingPlayer?.playerId === player.id && editingPlayer?.field === 'lastName' ? (
+                                  <input
+                                    type="text"
+                                    value={editValue}
+                                    onChange={(e) => setEditValue(e.target.value)}
+                                    onBlur={handlePlayerSave}
+                                    onKeyDown={(e) => {
+                                      if (e.key === 'Enter') handlePlayerSave();
+                                      if (e.key === 'Escape') setEditingPlayer(null);
+                                      if (e.key === 'Tab') {
+                                        e.preventDefault();
+                                        handlePlayerTabToNext(player.id, 'lastName', 'nickname');
+                                      }
+                                    }}
+                                    className="inline-edit"
+                                    autoFocus
+                                  />
+                                ) : (
+                                  <span 
+                                    className="editable-cell"
+                                    onClick={() => handlePlayerEdit(player.id, 'lastName', player.lastName || '')}
+                                  >
+                                    {player.lastName || <span className="placeholder">Add last name</span>}
+                                  </span>
+                                )}
+                              </td>
+                              <td>
+                                {editingPlayer?.playerId === player.id && editingPlayer?.field === 'nickname' ? (
+                                  <input
+                                    type="text"
+                                    value={editValue}
+                                    onChange={(e) => setEditValue(e.target.value)}
+                                    onBlur={handlePlayerSave}
+                                    onKeyDown={(e) => {
+                                      if (e.key === 'Enter') handlePlayerSave();
+                                      if (e.key === 'Escape') setEditingPlayer(null);
+                                      if (e.key === 'Tab') {
+                                        e.preventDefault();
+                                        handlePlayerTabToNext(player.id, 'nickname', 'mobile');
+                                      }
+                                    }}
+                                    className="inline-edit"
+                                    autoFocus
+                                  />
+                                ) : (
+                                  <span 
+                                    className="editable-cell"
+                                    onClick={() => handlePlayerEdit(player.id, 'nickname', player.nickname || '')}
+                                  >
+                                    {player.nickname || <span className="placeholder">Add nickname</span>}
+                                  </span>
+                                )}
+                              </td>
+                              <td>
+                                {editingPlayer?.playerId === player.id && editingPlayer?.field === 'mobile' ? (
+                                  <input
+                                    type="tel"
+                                    value={editValue}
+                                    onChange={(e) => setEditValue(e.target.value)}
+                                    onBlur={handlePlayerSave}
+                                    onKeyDown={(e) => {
+                                      if (e.key === 'Enter') handlePlayerSave();
+                                      if (e.key === 'Escape') setEditingPlayer(null);
+                                      if (e.key === 'Tab') {
+                                        e.preventDefault();
+                                        // Move to next row's firstName or end editing
+                                        const playerIndex = appData.players.findIndex(p => p.id === player.id);
+                                        if (playerIndex < appData.players.length - 1) {
+                                          const nextPlayer = appData.players[playerIndex + 1];
+                                          handlePlayerTabToNext(player.id, 'mobile', 'firstName', nextPlayer.id);
+                                        } else {
+                                          handlePlayerSave();
+                                          setEditingPlayer(null);
+                                        }
+                                      }
+                                    }}
+                                    className="inline-edit"
+                                    autoFocus
+                                  />
+                                ) : (
+                                  <span 
+                                    className="editable-cell"
+                                    onClick={() => handlePlayerEdit(player.id, 'mobile', player.mobile)}
+                                  >
+                                    {player.mobile || <span className="placeholder">Add mobile</span>}
+                                  </span>
+                                )}
+                              </td>
+                              <td>
+                                {editingPlayer?.playerId === player.id && editingPlayer?.field === 'arrears' ? (
+                                  <input
+                                    type="number"
+                                    value={editValue}
+                                    onChange={(e) => setEditValue(e.target.value)}
+                                    onBlur={handlePlayerSave}
+                                    onKeyDown={(e) => {
+                                      if (e.key === 'Enter') handlePlayerSave();
+                                      if (e.key === 'Escape') setEditingPlayer(null);
+                                    }}
+                                    className="inline-edit"
+                                    autoFocus
+                                  />
+                                ) : (
+                                  <span 
+                                    className="editable-cell"
+                                    onClick={() => handlePlayerEdit(player.id, 'arrears', fromPaise(player.arrears || 0).toString())}
+                                  >
+                                    {player.arrears ? formatCurrency(player.arrears) : <span className="placeholder">{formatCurrency(0)}</span>}
+                                  </span>
+                                )}
+                              </td>
+                              <td>
+                                {editingPlayer?.playerId === player.id && editingPlayer?.field === 'advancePayment' ? (
+                                  <input
+                                    type="number"
+                                    value={editValue}
+                                    onChange={(e) => setEditValue(e.target.value)}
+                                    onBlur={handlePlayerSave}
+                                    onKeyDown={(e) => {
+                                      if (e.key === 'Enter') handlePlayerSave();
+                                      if (e.key === 'Escape') setEditingPlayer(null);
+                                    }}
+                                    className="inline-edit"
+                                    autoFocus
+                                  />
+                                ) : (
+                                  <span 
+                                    className="editable-cell"
+                                    onClick={() => handlePlayerEdit(player.id, 'advancePayment', fromPaise(player.advancePayment || 0).toString())}
+                                  >
+                                    {player.advancePayment ? formatCurrency(player.advancePayment) : <span className="placeholder">{formatCurrency(0)}</span>}
+                                  </span>
+                                )}
+                              </td>
+                              <td>
+                                <input
+                                  type="checkbox"
+                                  checked={player.regular || false}
+                                  onChange={(e) => {
+                                    const updatedPlayers = appData.players.map(p => 
+                                      p.id === player.id ? { ...p, regular: e.target.checked } : p
+                                    );
+                                    onAppDataUpdate({ ...appData, players: updatedPlayers });
+                                  }}
+                                  className="regular-checkbox"
+                                />
+                              </td>
+                              <td>
+                                {reliability.rate !== undefined ? (
+                                  <button
+                                    className="btn-small secondary"
+                                    onClick={() => setReliabilityPlayerId(reliabilityPlayerId === player.id ? null : player.id)}
+                                    title={`${reliability.counts['no-show-charged'] + reliability.counts['no-show-excused']} no-show(s), ${reliability.counts['late-withdrawal']} late withdrawal(s)`}
+                                  >
+                                    {Math.round(reliability.rate * 100)}% of {reliability.total}
+                                  </button>
+                                ) : (
+                                  <span className="placeholder">No matches</span>
+                                )}
+                              </td>
+                              <td>
+                                <button 
+                                  className="btn danger small" 
+                                  onClick={() => handleDeletePlayer(player.id)}
+                                  aria-label={`Delete ${player.firstName} ${player.lastName}`}
+                                >
+                                  Delete
+                                </button>
+                              </td>
+                            </tr>
+                            {reliabilityPlayerId === player.id && (
+                              <tr>
+                                <td colSpan={9}>
+                                  <p className="help-text">
+                                    Played {reliability.counts.played}, charged no-shows {reliability.counts['no-show-charged']},
+                                    excused no-shows {reliability.counts['no-show-excused']}, late withdrawals {reliability.counts['late-withdrawal']}
+                                  </p>
+                                  {reliability.counts.played < reliability.total && (
+                                    <table className="audit-changes">
+                                      <thead>
+                                        <tr>
+                                          <th>Match</th>
+                                          <th>Attendance</th>
+                                        </tr>
+                                      </thead>
+                                      <tbody>
+                                        {reliability.history
+                                          .filter(record => record.status !== 'played')
+                                          .map(record => (
+                                            <tr key={record.match.id}>
+                                              <td>{getClubName(appData, record.match.clubId)} {formatMatchDate(record.match, 'EEE, MMM dd, yyyy')}</td>
+                                              <td>{getAttendanceLabel(record.status)}</td>
+                                            </tr>
+                                          ))}
+                                      </tbody>
+                                    </table>
+                                  )}
+                                </td>
+                              </tr>
                             )}
-                          </td>
-                          <td>
-                            {editingPlayer?.playerId === player.id && editingPlayer?.field === 'lastName' ? (
-                              <input
-                                type="text"
-                                value={editValue}
-                                onChange={(e) => setEditValue(e.target.value)}
-                                onBlur={handlePlayerSave}
-                                onKeyDown={(e) => {
-                                  if (e.key === 'Enter') handlePlayerSave();
-                                  if (e.key === 'Escape') setEditingPlayer(null);
-                                  if (e.key === 'Tab') {
-                                    e.preventDefault();
-                                    handlePlayerTabToNext(player.id, 'lastName', 'nickname');
-                                  }
-                                }}
-                                className="inline-edit"
-                                autoFocus
-                              />
-                            ) : (
-                              <span 
-                                className="editable-cell"
-                                onClick={() => handlePlayerEdit(player.id, 'lastName', player.lastName || '')}
-                              >
-                                {player.lastName || <span className="placeholder">Add last name</span>}
-                              </span>
-                            )}
-                          </td>
-                          <td>
-                            {editingPlayer?.playerId === player.id && editingPlayer?.field === 'nickname' ? (
-                              <input
-                                type="text"
-                                value={editValue}
-                                onChange={(e) => setEditValue(e.target.value)}
-                                onBlur={handlePlayerSave}
-                                onKeyDown={(e) => {
-                                  if (e.key === 'Enter') handlePlayerSave();
-                                  if (e.key === 'Escape') setEditingPlayer(null);
-                                  if (e.key === 'Tab') {
-                                    e.preventDefault();
-                                    handlePlayerTabToNext(player.id, 'nickname', 'mobile');
-                                  }
-                                }}
-                                className="inline-edit"
-                                autoFocus
-                              />
-                            ) : (
-                              <span 
-                                className="editable-cell"
-                                onClick={() => handlePlayerEdit(player.id, 'nickname', player.nickname || '')}
-                              >
-                                {player.nickname || <span className="placeholder">Add nickname</span>}
-                              </span>
-                            )}
-                          </td>
-                          <td>
-                            {editingPlayer?.playerId === player.id && editingPlayer?.field === 'mobile' ? (
-                              <input
-                                type="tel"
-                                value={editValue}
-                                onChange={(e) => setEditValue(e.target.value)}
-                                onBlur={handlePlayerSave}
-                                onKeyDown={(e) => {
-                                  if (e.key === 'Enter') handlePlayerSave();
-                                  if (e.key === 'Escape') setEditingPlayer(null);
-                                  if (e.key === 'Tab') {
-                                    e.preventDefault();
-                                    // Move to next row's firstName or end editing
-                                    const playerIndex = appData.players.findIndex(p => p.id === player.id);
-                                    if (playerIndex < appData.players.length - 1) {
-                                      const nextPlayer = appData.players[playerIndex + 1];
-                                      handlePlayerTabToNext(player.id, 'mobile', 'firstName', nextPlayer.id);
-                                    } else {
-                                      handlePlayerSave();
-                                      setEditingPlayer(null);
-                                    }
-                                  }
-                                }}
-                                className="inline-edit"
-                                autoFocus
-                              />
-                            ) : (
-                              <span 
-                                className="editable-cell"
-                                onClick={() => handlePlayerEdit(player.id, 'mobile', player.mobile)}
-                              >
-                                {player.mobile || <span className="placeholder">Add mobile</span>}
-                              </span>
-                            )}
-                          </td>
-                          <td>
-                            {editingPlayer?.playerId === player.id && editingPlayer?.field === 'arrears' ? (
-                              <input
-                                type="number"
-                                value={editValue}
-                                onChange={(e) => setEditValue(e.target.value)}
-                                onBlur={handlePlayerSave}
-                                onKeyDown={(e) => {
-                                  if (e.key === 'Enter') handlePlayerSave();
-                                  if (e.key === 'Escape') setEditingPlayer(null);
-                                }}
-                                className="inline-edit"
-                                autoFocus
-                              />
-                            ) : (
-                              <span 
-                                className="editable-cell"
-                                onClick={() => handlePlayerEdit(player.id, 'arrears', (player.arrears || 0).toString())}
-                              >
-                                {player.arrears ? `₹${player.arrears}` : <span className="placeholder">₹0</span>}
-                              </span>
-                            )}
-                          </td>
-                          <td>
-                            {editingPlayer?.playerId === player.id && editingPlayer?.field === 'advancePayment' ? (
-                              <input
-                                type="number"
-                                value={editValue}
-                                onChange={(e) => setEditValue(e.target.value)}
-                                onBlur={handlePlayerSave}
-                                onKeyDown={(e) => {
-                                  if (e.key === 'Enter') handlePlayerSave();
-                                  if (e.key === 'Escape') setEditingPlayer(null);
-                                }}
-                                className="inline-edit"
-                                autoFocus
-                              />
-                            ) : (
-                              <span 
-                                className="editable-cell"
-                                onClick={() => handlePlayerEdit(player.id, 'advancePayment', (player.advancePayment || 0).toString())}
-                              >
-                                {player.advancePayment ? `₹${player.advancePayment}` : <span className="placeholder">₹0</span>}
-                              </span>
-                            )}
-                          </td>
-                          <td>
-                            <input
-                              type="checkbox"
-                              checked={player.regular || false}
-                              onChange={(e) => {
-                                const updatedPlayers = appData.players.map(p => 
-                                  p.id === player.id ? { ...p, regular: e.target.checked } : p
-                                );
-                                onAppDataUpdate({ ...appData, players: updatedPlayers });
-                              }}
-                              className="regular-checkbox"
-                            />
-                          </td>
-                          <td>
-                            <button 
-                              className="btn danger small" 
-                              onClick={() => handleDeletePlayer(player.id)}
-                              aria-label={`Delete ${player.firstName} ${player.lastName}`}
-                            >
-                              Delete
-                            </button>
-                          </td>
-                        </tr>
-                      ))}
+                          </React.Fragment>
+                        );
+                      })}
                     </tbody>
                   </table>
+
+                  {appData.players.some(isGuest) && (
+                    <div className="data-section">
+                      <h4>Guests</h4>
+                      <table className="player-table">
+                        <thead>
+                          <tr>
+                            <th>Name</th>
+                            <th>Brought by</th>
+                            <th>Pays directly</th>
+                            <th>Actions</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {appData.players.filter(isGuest).map(guest => (
+                            <tr key={guest.id}>
+                              <td>{getPlayerDisplayName(guest)}</td>
+                              <td>
+                                <select
+                                  value={getHost(appData, guest) ? guest.hostId : ''}
+                                  onChange={(e) => onAppDataUpdate({
+                                    ...appData,
+                                    players: appData.players.map(p => (p.id === guest.id ? { ...p, hostId: e.target.value } : p))
+                                  })}
+                                >
+                                  {!getHost(appData, guest) && <option value="">Removed player</option>}
+                                  {getMembers(appData.players).map(player => (
+                                    <option key={player.id} value={player.id}>{getPlayerDisplayName(player)}</option>
+                                  ))}
+                                </select>
+                              </td>
+                              <td>
+                                <input
+                                  type="checkbox"
+                                  checked={guest.collectDirectly || false}
+                                  onChange={(e) => onAppDataUpdate({
+                                    ...appData,
+                                    players: appData.players.map(p => (p.id === guest.id ? { ...p, collectDirectly: e.target.checked || undefined } : p))
+                                  })}
+                                />
+                              </td>
+                              <td>
+                                <button
+                                  className="btn danger small"
+                                  onClick={() => handleDeletePlayer(guest.id)}
+                                  aria-label={`Delete ${guest.firstName}`}
+                                >
+                                  Delete
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <p className="help-text">
+                        Guests are added from the match form. A guest's share is charged to whoever brought them unless they pay directly;
+                        changes apply to matches saved from now on.
+                      </p>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -1168,43 +1407,447 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
         </div>
       )}
 
-      {/* Match Creation Form */}
-      {showMatchForm && (
-        <div className="quick-form">
-          <h3>Create {showMatchForm === 'saturday' ? 'Saturday' : 'Sunday'} Match</h3>
-          
-          {/* Club and Cost Row */}
-          <div className="form-row match-form-row">
-            <div className="cost-input-group">
-              <label>Club</label>
-              <select
-                value={matchForm.club}
-                onChange={(e) => setMatchForm({...matchForm, club: e.target.value as 'MICC' | 'Sadhooz'})}
-                className="club-select"
+      {/* Reports Modal */}
+      {showReports && (
+        <div className="modal-overlay" onClick={() => setShowReports(false)}>
+          <div className="modal large" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Reports</h2>
+              <button 
+                className="modal-close" 
+                onClick={() => setShowReports(false)}
+                aria-label="Close modal"
               >
-                <option value="MICC">MICC</option>
-                <option value="Sadhooz">Sadhooz</option>
-              </select>
+                ×
+              </button>
             </div>
-            <div className="cost-input-group">
-              <label>Ground Cost</label>
-              <input
-                type="number"
-                placeholder="Ground Cost"
-                value={matchForm.groundCost}
-                onChange={(e) => setMatchForm({...matchForm, groundCost: e.target.value})}
-              />
+            <div className="modal-body">
+              <Reports appData={appData} />
             </div>
-            <div className="cost-input-group">
-              <label>Cafeteria Cost</label>
-              <input
-                type="number"
-                placeholder="Cafeteria Cost"
-                value={matchForm.cafeteriaCost}
-                onChange={(e) => setMatchForm({...matchForm, cafeteriaCost: e.target.value})}
+            <div className="modal-footer">
+              <button 
+                className="btn secondary" 
+                onClick={() => setShowReports(false)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Periods Modal */}
+      {showPeriods && (
+        <div className="modal-overlay" onClick={() => setShowPeriods(false)}>
+          <div className="modal large" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Periods</h2>
+              <button 
+                className="modal-close" 
+                onClick={() => setShowPeriods(false)}
+                aria-label="Close modal"
+              >
+                ×
+              </button>
+            </div>
+            <div className="modal-body">
+              <Periods 
+                appData={appData}
+                onAppDataUpdate={onAppDataUpdate}
               />
             </div>
+            <div className="modal-footer">
+              <button 
+                className="btn secondary" 
+                onClick={() => setShowPeriods(false)}
+              >
+                Close
+              </button>
+            </div>
           </div>
+        </div>
+      )}
+
+      {/* Weekends Modal */}
+      {showWeekends && (
+        <div className="modal-overlay" onClick={() => setShowWeekends(false)}>
+          <div className="modal large" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Weekends</h2>
+              <button 
+                className="modal-close" 
+                onClick={() => setShowWeekends(false)}
+                aria-label="Close modal"
+              >
+                ×
+              </button>
+            </div>
+            <div className="modal-body">
+              <WeekendTimeline
+                appData={appData}
+                onSelectWeekend={(weekendId) => {
+                  handleSelectWeekend(weekendId);
+                  setShowWeekends(false);
+                }}
+                onGoToDate={(date) => {
+                  handleGoToDate(date);
+                  setShowWeekends(false);
+                }}
+              />
+            </div>
+            <div className="modal-footer">
+              <button 
+                className="btn secondary" 
+                onClick={() => setShowWeekends(false)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Kitty Modal */}
+      {showKitty && (
+        <div className="modal-overlay" onClick={() => setShowKitty(false)}>
+          <div className="modal extra-large" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Team Kitty</h2>
+              <button 
+                className="modal-close" 
+                onClick={() => setShowKitty(false)}
+                aria-label="Close modal"
+              >
+                ×
+              </button>
+            </div>
+            <div className="modal-body">
+              <Kitty appData={appData} onAppDataUpdate={onAppDataUpdate} />
+            </div>
+            <div className="modal-footer">
+              <button 
+                className="btn secondary" 
+                onClick={() => setShowKitty(false)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Collections Modal */}
+      {showCollections && (
+        <div className="modal-overlay" onClick={() => setShowCollections(false)}>
+          <div className="modal extra-large" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Collections</h2>
+              <button 
+                className="modal-close" 
+                onClick={() => setShowCollections(false)}
+                aria-label="Close modal"
+              >
+                ×
+              </button>
+            </div>
+            <div className="modal-body">
+              <Collections appData={appData} onAppDataUpdate={onAppDataUpdate} />
+            </div>
+            <div className="modal-footer">
+              <button 
+                className="btn secondary" 
+                onClick={() => setShowCollections(false)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Vendors Modal */}
+      {showVendors && (
+        <div className="modal-overlay" onClick={() => setShowVendors(false)}>
+          <div className="modal extra-large" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Vendors</h2>
+              <button 
+                className="modal-close" 
+                onClick={() => setShowVendors(false)}
+                aria-label="Close modal"
+              >
+                ×
+              </button>
+            </div>
+            <div className="modal-body">
+              <VendorLedger appData={appData} onAppDataUpdate={onAppDataUpdate} />
+            </div>
+            <div className="modal-footer">
+              <button 
+                className="btn secondary" 
+                onClick={() => setShowVendors(false)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Availability Modal */}
+      {showAvailability && currentWeekend && (
+        <div className="modal-overlay" onClick={() => setShowAvailability(false)}>
+          <div className="modal large" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Availability</h2>
+              <button 
+                className="modal-close" 
+                onClick={() => setShowAvailability(false)}
+                aria-label="Close modal"
+              >
+                ×
+              </button>
+            </div>
+            <div className="modal-body">
+              <Availability
+                appData={appData}
+                weekend={currentWeekend}
+                isLocked={isLocked}
+                onAppDataUpdate={onAppDataUpdate}
+              />
+            </div>
+            <div className="modal-footer">
+              <button 
+                className="btn secondary" 
+                onClick={() => setShowAvailability(false)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* WhatsApp Image Modal */}
+      {showWhatsAppImage && (
+        <div className="modal-overlay" onClick={() => setShowWhatsAppImage(false)}>
+          <div className="modal extra-large" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>WhatsApp Image</h2>
+              <button 
+                className="modal-close" 
+                onClick={() => setShowWhatsAppImage(false)}
+                aria-label="Close modal"
+              >
+                ×
+              </button>
+            </div>
+            <div className="modal-body">
+              <WhatsAppImageGenerator appData={appData} />
+            </div>
+            <div className="modal-footer">
+              <button 
+                className="btn secondary" 
+                onClick={() => setShowWhatsAppImage(false)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Audit Log Modal */}
+      {showAuditLog && (
+        <div className="modal-overlay" onClick={() => setShowAuditLog(false)}>
+          <div className="modal extra-large" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Audit Log</h2>
+              <button 
+                className="modal-close" 
+                onClick={() => setShowAuditLog(false)}
+                aria-label="Close modal"
+              >
+                ×
+              </button>
+            </div>
+            <div className="modal-body">
+              <AuditLog 
+                appData={appData}
+                auditLog={auditLog}
+                auditUser={auditUser}
+                onAuditUserChange={onAuditUserChange}
+                onUndo={onUndo}
+                onRedo={onRedo}
+              />
+            </div>
+            <div className="modal-footer">
+              <button 
+                className="btn secondary" 
+                onClick={() => setShowAuditLog(false)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Memberships Modal */}
+      {showMemberships && (
+        <div className="modal-overlay" onClick={() => setShowMemberships(false)}>
+          <div className="modal large" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Memberships</h2>
+              <button 
+                className="modal-close" 
+                onClick={() => setShowMemberships(false)}
+                aria-label="Close modal"
+              >
+                ×
+              </button>
+            </div>
+            <div className="modal-body">
+              <Memberships 
+                appData={appData}
+                onAppDataUpdate={onAppDataUpdate}
+              />
+            </div>
+            <div className="modal-footer">
+              <button 
+                className="btn secondary" 
+                onClick={() => setShowMemberships(false)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Settings Modal */}
+      {showSettings && (
+        <div className="modal-overlay" onClick={() => setShowSettings(false)}>
+          <div className="modal large" onClick={(e) => e.stopPropagation()}>
+            <div className="modal-header">
+              <h2>Settings</h2>
+              <button 
+                className="modal-close" 
+                onClick={() => setShowSettings(false)}
+                aria-label="Close modal"
+              >
+                ×
+              </button>
+            </div>
+            <div className="modal-body">
+              <Settings 
+                appData={appData}
+                onAppDataUpdate={onAppDataUpdate}
+              />
+            </div>
+            <div className="modal-footer">
+              <button 
+                className="btn secondary" 
+                onClick={() => setShowSettings(false)}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Payment History Modal */}
+      {historyPlayerId && (() => {
+        const historyPlayer = appData.players.find(p => p.id === historyPlayerId);
+        if (!historyPlayer) return null;
+        return (
+          <div className="modal-overlay" onClick={() => setHistoryPlayerId(null)}>
+            <div className="modal large" onClick={(e) => e.stopPropagation()}>
+              <div className="modal-header">
+                <h2>Payment History - {getPlayerDisplayName(historyPlayer)}</h2>
+                <button 
+                  className="modal-close" 
+                  onClick={() => setHistoryPlayerId(null)}
+                  aria-label="Close modal"
+                >
+                  ×
+                </button>
+              </div>
+              <div className="modal-body">
+                <PaymentHistory
+                  appData={appData}
+                  player={historyPlayer}
+                  onAppDataUpdate={onAppDataUpdate}
+                />
+              </div>
+              <div className="modal-footer">
+                <button 
+                  className="btn secondary" 
+                  onClick={() => setHistoryPlayerId(null)}
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
+      {/* Match Creation Form */}
+      {showMatchForm && !isLocked && (
+        <div className="quick-form">
+          <h3>{showMatchForm.matchId ? 'Edit' : 'Create'} Match</h3>
+
+          {!showMatchForm.matchId && getTemplates(appData).length > 0 && (
+            <div className="form-row">
+              <label>From template</label>
+              <select value="" onChange={(e) => handleApplyTemplate(e.target.value)}>
+                <option value="">Choose a template...</option>
+                {getTemplates(appData).map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          
+          {/* Date, Time and Club Row */}
+          <div className="form-row match-form-row">
+            <div className="cost-input-group">
+              <label>Date</label>
+              <input
+                type="date"
+                value={matchForm.date}
+                onChange={(e) => setMatchForm({ ...matchForm, date: e.target.value })}
+              />
+            </div>
+            <div className="cost-input-group">
+              <label>Time</label>
+              <input
+                type="time"
+                value={matchForm.time}
+                onChange={(e) => setMatchForm({ ...matchForm, time: e.target.value })}
+              />
+            </div>
+            <div className="cost-input-group">
+              <label>Club</label>
+              <select
+                value={matchForm.clubId}
+                onChange={(e) => handleMatchClubChange(e.target.value)}
+                className="club-select"
+              >
+                {getClubs(appData).map(club => (
+                  <option key={club.id} value={club.id}>{club.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <MatchStatusFields
+            status={matchForm.status}
+            refund={matchForm.refund}
+            onChange={(updates) => setMatchForm({ ...matchForm, status: updates.status || 'scheduled', refund: updates.refund })}
+          />
 
           {/* Player Selection */}
           <div className="player-selection-section">
@@ -1265,7 +1908,7 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
               {/* Additional Players */}
               {(() => {
                 const additionalPlayers = appData.players.filter(p => !p.regular);
-                return additionalPlayers.length > 0 ? (
+                return (
                   <div className="player-group-aligned">
                     <div className="group-header">
                       <h5>Other Players</h5>
@@ -1305,12 +1948,47 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
                               }
                             }}
                           />
-                          <span className="player-name">{getPlayerDisplayName(player)}</span>
+                          <span className="player-name">
+                            {getPlayerDisplayName(player)}
+                            {isGuest(player) && <small className="cost-breakdown">{getGuestLabel(player)}</small>}
+                          </span>
                         </label>
                       ))}
                     </div>
+                    <div className="form-row guest-form">
+                      <input
+                        type="text"
+                        placeholder="Guest name"
+                        value={guestForm.name}
+                        onChange={(e) => setGuestForm({ ...guestForm, name: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleAddGuest();
+                        }}
+                      />
+                      <select value={guestForm.hostId} onChange={(e) => setGuestForm({ ...guestForm, hostId: e.target.value })}>
+                        <option value="">Brought by...</option>
+                        {getMembers(appData.players).map(player => (
+                          <option key={player.id} value={player.id}>{getPlayerDisplayName(player)}</option>
+                        ))}
+                      </select>
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={guestForm.collectDirectly}
+                          onChange={(e) => setGuestForm({ ...guestForm, collectDirectly: e.target.checked })}
+                        />
+                        Pays directly
+                      </label>
+                      <button
+                        className="btn-compact"
+                        onClick={handleAddGuest}
+                        disabled={!guestForm.name.trim() || !guestForm.hostId}
+                      >
+                        Add Guest
+                      </button>
+                    </div>
                   </div>
-                ) : null;
+                );
               })()}
             </div>
 
@@ -1319,15 +1997,125 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
             </div>
           </div>
 
+          {/* Expenses */}
+          <div className="player-selection-section">
+            <h4 className="selection-title">Expenses:</h4>
+            <ExpenseLines
+              expenses={matchForm.expenses}
+              playerIds={matchForm.selectedPlayers}
+              players={appData.players}
+              onChange={(expenses) => setMatchForm({ ...matchForm, expenses })}
+            />
+          </div>
+
+          {/* Player Shares */}
+          {matchForm.selectedPlayers.length > 0 && (() => {
+            const draftMatch: Match = applyMemberships(appData, {
+              id: '',
+              date: matchForm.date,
+              clubId: matchForm.clubId,
+              expenses: matchForm.expenses,
+              playerIds: matchForm.selectedPlayers,
+              playerShares: toPlayerShares(matchForm.shareRules, matchForm.selectedPlayers),
+              attendance: toAttendance(matchForm.attendance, matchForm.selectedPlayers),
+              payments: [],
+              status: matchForm.status,
+              refund: matchForm.refund
+            });
+            const expenseShares = calculateExpenseShares(draftMatch, settings.rounding);
+            const { shares } = calculateMatchShares(draftMatch, settings.rounding);
+            return (
+              <div className="player-selection-section">
+                <h4 className="selection-title">Player Shares:</h4>
+                <p className="help-text">
+                  Weight 1 is a full share, 0.5 half fees, 0 a waiver. A fixed amount replaces the weighted share.
+                  Charged no-shows still pay their share, late withdrawals their share of the ground, and excused no-shows nothing.
+                </p>
+                <table className="payment-table">
+                  <thead>
+                    <tr>
+                      <th>Player</th>
+                      <th>Weight</th>
+                      <th>Fixed Amount</th>
+                      <th>Attendance</th>
+                      <th>Pays</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matchForm.selectedPlayers.map(playerId => {
+                      const player = appData.players.find(p => p.id === playerId);
+                      const rule = matchForm.shareRules[playerId] || { weight: '1', fixedAmount: '' };
+                      const updateRule = (updates: Partial<ShareRuleForm[string]>) => setMatchForm({
+                        ...matchForm,
+                        shareRules: { ...matchForm.shareRules, [playerId]: { ...rule, ...updates } }
+                      });
+                      return player ? (
+                        <tr key={playerId}>
+                          <td>
+                            {getPlayerDisplayName(player)}
+                            {isGuest(player) && <small className="cost-breakdown">{getGuestLabel(player)}</small>}
+                          </td>
+                          <td>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.25"
+                              value={rule.weight}
+                              disabled={rule.fixedAmount !== ''}
+                              onChange={(e) => updateRule({ weight: e.target.value })}
+                            />
+                          </td>
+                          <td>
+                            <input
+                              type="number"
+                              placeholder="None"
+                              value={rule.fixedAmount}
+                              onChange={(e) => updateRule({ fixedAmount: e.target.value })}
+                            />
+                          </td>
+                          <td>
+                            <select
+                              value={matchForm.attendance[playerId] || 'played'}
+                              onChange={(e) => setMatchForm({
+                                ...matchForm,
+                                attendance: { ...matchForm.attendance, [playerId]: e.target.value as AttendanceStatus }
+                              })}
+                            >
+                              {ATTENDANCE_STATUSES.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="amount">
+                            {formatCurrency(shares[playerId] || 0)}
+                            <small className="cost-breakdown">
+                              {draftMatch.expenses
+                                .filter(expense => expenseShares[expense.id].shares[playerId])
+                                .map(expense => `${expense.name || 'Expense'} ${formatCurrency(expenseShares[expense.id].shares[playerId])}`)
+                                .join(' · ')}
+                            </small>
+                          </td>
+                        </tr>
+                      ) : null;
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            );
+          })()}
+
           <div className="form-row">
             <button 
               className="btn-small primary" 
-              onClick={() => handleCreateMatch(showMatchForm)}
-              disabled={matchForm.selectedPlayers.length === 0}
+              onClick={handleCreateMatch}
+              disabled={matchForm.selectedPlayers.length === 0 || !matchForm.date}
             >
-              Create Match
+              {showMatchForm.matchId ? 'Save Match' : 'Create Match'}
+            </button>
+            <button className="btn-small secondary" onClick={handleSaveAsTemplate} disabled={!matchForm.date}>
+              Save as Template
             </button>
-            <button className="btn-small secondary" onClick={() => setShowMatchForm(null)}>Cancel</button>
+            <button className="btn-small secondary" onClick={resetMatchForm}>Cancel</button>
           </div>
         </div>
       )}
@@ -1335,82 +2123,73 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
       {/* Match Setup Cards */}
       <div className="match-setup-section">
         <div className="match-cards">
-          {/* Saturday Match */}
-          <div className="match-card compact">
-            <div className="match-header">
-              <h3>Saturday - MICC</h3>
-              <span className="match-date">{currentWeekend && formatDate(currentWeekend.startDate, 'saturday')}</span>
-            </div>
-            {currentWeekend?.saturdayMatch ? (
+          {currentMatches.map(match => (
+            <div key={match.id} className="match-card compact">
+              <div className="match-header">
+                <h3>{getMatchDay(match)} {renderClubBadge(match.clubId)}</h3>
+                <span className="match-date">{formatMatchDate(match, 'MMM dd')}</span>
+              </div>
               <div className="match-summary">
-                <p>Players: {currentWeekend.saturdayMatch.playerIds.length}</p>
-                <p>Cost: ₹{currentWeekend.saturdayMatch.groundCost + currentWeekend.saturdayMatch.cafeteriaCost}</p>
-                <p>Per Player: ₹{calculateMatchCostPerPlayer(currentWeekend.saturdayMatch)}</p>
-                <div className="match-actions">
+                <p>
+                  <span className={`match-status ${getMatchStatus(match)}`}>{getMatchStatusLabel(match)}</span>
+                </p>
+                <p>Players: {match.playerIds.length}</p>
+                <p>Cost: {formatCurrency(calculateMatchTotalCost(match))}</p>
+                {calculateMatchRefund(match) > 0 && (
+                  <p>Refund from ground: {formatCurrency(calculateMatchRefund(match))}</p>
+                )}
+                <p>
+                  {match.expenses
+                    .map(expense => `${expense.name || 'Expense'}: ${formatCurrency(expense.amount)} (${getExpensePlayerIds(match, expense).length} players)`)
+                    .join(' · ')}
+                </p>
+                <p>Per Player: {formatShareRange(calculateMatchShares(match, settings.rounding))}</p>
+                <div className="match-actions" hidden={isLocked}>
                   <button 
                     className="btn-small secondary"
-                    onClick={() => handleEditMatch('saturday')}
+                    onClick={() => handleEditMatch(match)}
                   >
                     Edit Match
                   </button>
                   <button 
                     className="btn-small danger"
-                    onClick={() => handleDeleteMatch('saturday')}
+                    onClick={() => handleDeleteMatch(match)}
                   >
                     Delete
                   </button>
                 </div>
               </div>
-            ) : (
-              <div className="no-match">
-                <p>No match created</p>
-                <button 
-                  className="btn-small primary"
-                  onClick={() => setShowMatchForm('saturday')}
-                >
-                  Create Saturday Match
-                </button>
-              </div>
-            )}
-          </div>
+            </div>
+          ))}
 
-          {/* Sunday Match */}
+          {/* New Match */}
           <div className="match-card compact">
             <div className="match-header">
-              <h3>Sunday - Sadhooz</h3>
-              <span className="match-date">{currentWeekend && formatDate(currentWeekend.startDate, 'sunday')}</span>
+              <h3>Add Match</h3>
             </div>
-            {currentWeekend?.sundayMatch ? (
-              <div className="match-summary">
-                <p>Players: {currentWeekend.sundayMatch.playerIds.length}</p>
-                <p>Cost: ₹{currentWeekend.sundayMatch.groundCost + currentWeekend.sundayMatch.cafeteriaCost}</p>
-                <p>Per Player: ₹{calculateMatchCostPerPlayer(currentWeekend.sundayMatch)}</p>
-                <div className="match-actions">
-                  <button 
-                    className="btn-small secondary"
-                    onClick={() => handleEditMatch('sunday')}
-                  >
-                    Edit Match
-                  </button>
-                  <button 
-                    className="btn-small danger"
-                    onClick={() => handleDeleteMatch('sunday')}
-                  >
-                    Delete
-                  </button>
-                </div>
-              </div>
-            ) : (
-              <div className="no-match">
-                <p>No match created</p>
-                <button 
-                  className="btn-small primary"
-                  onClick={() => setShowMatchForm('sunday')}
+            <div className="no-match">
+              <p>{currentMatches.length === 0 ? 'No match created' : 'Double-header or weekday game?'}</p>
+              {currentWeekend && (
+                <select
+                  value={getWeekendDates(currentWeekend).includes(newMatchDate) ? newMatchDate : currentWeekend.startDate}
+                  onChange={(e) => setNewMatchDate(e.target.value)}
+                  disabled={isLocked}
                 >
-                  Create Sunday Match
-                </button>
-              </div>
-            )}
+                  {getWeekendDates(currentWeekend).map(date => (
+                    <option key={date} value={date}>{format(parse(date, 'yyyy-MM-dd', new Date()), 'EEE, MMM dd')}</option>
+                  ))}
+                </select>
+              )}
+              <button 
+                className="btn-small primary"
+                onClick={() => currentWeekend && handleNewMatch(
+                  getWeekendDates(currentWeekend).includes(newMatchDate) ? newMatchDate : currentWeekend.startDate
+                )}
+                disabled={isLocked || !currentWeekend}
+              >
+                Create Match
+              </button>
+            </div>
           </div>
 
           {/* Payment Status Summary */}
@@ -1438,7 +2217,16 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
       <div className="payment-section">
         <div className="section-header">
           <h2>Payment Overview</h2>
-          <p className="help-text">Click Prev Balance, Advance Paid, or Total Due to edit • Click status button to toggle payment status • All edits automatically update final calculations</p>
+          <p className="help-text">Click a player for payment history • Click Prev Balance, Advance Paid, or Total Due to edit • Click status button to toggle payment status • All edits automatically update final calculations</p>
+          <div className="form-row">
+            <label>Payments received by</label>
+            <ReceiptFields
+              appData={appData}
+              method={receiptDetails.method}
+              collectedBy={receiptDetails.collectedBy}
+              onChange={setReceiptDetails}
+            />
+          </div>
         </div>
 
         <div className="payment-table-wrapper">
@@ -1459,13 +2247,19 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
                 >
                   Prev Balance {getSortIcon('prevBalance')}
                 </th>
+                {currentMatches.map(match => (
+                  <th key={match.id}>
+                    {getMatchDay(match)}<br/>
+                    <small>{formatMatchDate(match, 'MMM dd')}</small>
+                  </th>
+                ))}
                 <th 
                   className="sortable-header" 
                   onClick={() => handleSort('weekendDue')}
                   title="Click to sort by weekend due amount"
                 >
                   Weekend Due {getSortIcon('weekendDue')}<br/>
-                  <small>{currentWeekend && formatDate(currentWeekend.startDate, 'saturday')} - {currentWeekend && formatDate(currentWeekend.startDate, 'sunday')}</small>
+                  <small>{currentWeekend && formatDate(currentWeekend.startDate)} - {currentWeekend && formatDate(getWeekendSunday(currentWeekend))}</small>
                 </th>
                 <th 
                   className="sortable-header" 
@@ -1491,108 +2285,155 @@ const ConsolidatedDashboard: React.FC<ConsolidatedDashboardProps> = ({ appData,
               </tr>
             </thead>
             <tbody>
-              {playerRows.map(row => (
-                <tr key={row.player.id} className={`player-row status-${row.status}`}>
-                  <td className="player-name">
-                    <strong>{getPlayerDisplayName(row.player)}</strong>
-                  </td>
-                  <td className={`amount ${row.prevBalance > 0 ? 'due' : row.prevBalance < 0 ? 'overpaid' : ''}`}>
-                    {editingCell?.playerId === row.player.id && editingCell?.field === 'prevBalance' ? (
-                      <input
-                        type="number"
-                        value={editValue}
-                        onChange={(e) => setEditValue(e.target.value)}
-                        onBlur={() => handlePrevBalanceEdit(row.player.id)}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') handlePrevBalanceEdit(row.player.id);
-                          if (e.key === 'Escape') setEditingCell(null);
-                        }}
-                        className="payment-input"
-                        autoFocus
-                      />
-                    ) : (
-                      <span
-                        className="amount editable"
-                        onClick={() => handlePrevBalanceClick(row.player.id)}
-                        title="Click to edit previous balance"
+              {playerRows.map(row => {
+                const overdue = getOverduePayments(appData, row.player.id, today);
+                const daysOverdue = Math.max(0, ...overdue.map(o => o.daysOverdue));
+                return (
+                  <tr key={row.player.id} className={`player-row status-${row.status}${overdue.length > 0 ? ' overdue' : ''}`}>
+                    <td className="player-name">
+                      <strong
+                        className="editable"
+                        onClick={() => setHistoryPlayerId(row.player.id)}
+                        title="Click to view payment history"
                       >
-                        {row.prevBalance !== 0 ? `₹${Math.abs(row.prevBalance)}` : '₹0'}
-                      </span>
-                    )}
-                  </td>
-                  <td className="weekend-due">
-                    {row.totalDue > 0 ? `₹${row.totalDue}` : '-'}
-                  </td>
-                  <td className={`amount ${row.player.advancePayment && row.player.advancePayment > 0 ? 'overpaid' : ''}`}>
-                    {editingCell?.playerId === row.player.id && editingCell?.field === 'advancePayment' ? (
-                      <input
-                        type="number"
-                        value={editValue}
-                        onChange={(e) => setEditValue(e.target.value)}
-                        onBlur={() => handleAdvancePaymentEdit(row.player.id)}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') handleAdvancePaymentEdit(row.player.id);
-                          if (e.key === 'Escape') setEditingCell(null);
-                        }}
-                        className="payment-input"
-                        autoFocus
-                      />
-                    ) : (
-                      <span
-                        className="amount editable"
-                        onClick={() => handleAdvancePaymentClick(row.player.id)}
-                        title="Click to edit advance payment"
-                      >
-                        {row.player.advancePayment ? `₹${row.player.advancePayment}` : '₹0'}
-                      </span>
-                    )}
-                  </td>
-                  <td className={`total ${row.currentBalance > 0 ? 'due' : row.currentBalance < 0 ? 'overpaid' : ''}`}>
-                    <div className="total-payment">
-                      {editingCell?.playerId === row.player.id && editingCell?.field === 'totalDue' ? (
+                        {getPlayerDisplayName(row.player)}
+                      </strong>
+                    </td>
+                    <td className={`amount ${row.prevBalance > 0 ? 'due' : row.prevBalance < 0 ? 'overpaid' : ''}`}>
+                      {editingCell?.playerId === row.player.id && editingCell?.field === 'prevBalance' ? (
                         <input
                           type="number"
                           value={editValue}
                           onChange={(e) => setEditValue(e.target.value)}
-                          onBlur={() => handleTotalDueSave(row.player.id)}
+                          onBlur={() => handlePrevBalanceEdit(row.player.id)}
                           onKeyDown={(e) => {
-                            if (e.key === 'Enter') handleTotalDueSave(row.player.id);
+                            if (e.key === 'Enter') handlePrevBalanceEdit(row.player.id);
                             if (e.key === 'Escape') setEditingCell(null);
                           }}
                           className="payment-input"
                           autoFocus
                         />
                       ) : (
-                        <strong
+                        <span
                           className="amount editable"
-                          onClick={() => handleTotalDueEdit(row.player.id)}
-                          title="Click to edit total due amount"
+                          onClick={() => !isLocked && handlePrevBalanceClick(row.player.id)}
+                          title="Click to edit previous balance"
                         >
-                          {row.currentBalance > 0 && `₹${row.currentBalance}`}
-                          {row.currentBalance < 0 && `-₹${Math.abs(row.currentBalance)}`}
-                          {row.currentBalance === 0 && '₹0'}
-                        </strong>
+                          {formatCurrency(Math.abs(row.prevBalance))}
+                        </span>
                       )}
-                      <button 
-                        className={`status-btn ${row.status}`}
-                        onClick={() => handleOverallPaymentToggle(row.player.id)}
-                        title="Mark all payments as paid/unpaid"
-                      >
-                        {row.status === 'paid' ? '✓' : 
-                         row.status === 'partial' ? '◐' : '○'}
-                      </button>
-                    </div>
-                  </td>
-                  <td>
-                    <span className={`status-badge ${row.status}`}>
-                      {row.status.charAt(0).toUpperCase() + row.status.slice(1)}
-                    </span>
-                  </td>
-                </tr>
-              ))}
+                    </td>
+                    {currentMatches.map(match => {
+                      const payment = row.matchPayments[match.id];
+                      return (
+                        <td key={match.id} className={`amount ${payment ? `status-${payment.status}` : ''}`}>
+                          {payment ? formatCurrency(payment.amountDue) : '-'}
+                        </td>
+                      );
+                    })}
+                    <td className="weekend-due">
+                      {row.totalDue > 0 ? formatCurrency(row.totalDue) : '-'}
+                      {row.totalDue > 0 && (
+                        <small className="cost-breakdown">{getCategoryBreakdown(row.player.id)}</small>
+                      )}
+                    </td>
+                    <td className={`amount ${row.player.advancePayment && row.player.advancePayment > 0 ? 'overpaid' : ''}`}>
+                      {editingCell?.playerId === row.player.id && editingCell?.field === 'advancePayment' ? (
+                        <input
+                          type="number"
+                          value={editValue}
+                          onChange={(e) => setEditValue(e.target.value)}
+                          onBlur={() => handleAdvancePaymentEdit(row.player.id)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleAdvancePaymentEdit(row.player.id);
+                            if (e.key === 'Escape') setEditingCell(null);
+                          }}
+                          className="payment-input"
+                          autoFocus
+                        />
+                      ) : (
+                        <span
+                          className="amount editable"
+                          onClick={() => !isLocked && handleAdvancePaymentClick(row.player.id)}
+                          title="Click to edit advance payment"
+                        >
+                          {formatCurrency(row.player.advancePayment || 0)}
+                        </span>
+                      )}
+                      {(() => {
+                        const credit = getPlayerCredit(appData, row.player);
+                        return credit.total > 0 ? (
+                          <small className="cost-breakdown">
+                            {formatCurrency(credit.applied)} used · {formatCurrency(credit.remaining)} left
+                          </small>
+                        ) : null;
+                      })()}
+                    </td>
+                    <td className={`total ${row.currentBalance > 0 ? 'due' : row.currentBalance < 0 ? 'overpaid' : ''}`}>
+                      <div className="total-payment">
+                        {editingCell?.playerId === row.player.id && editingCell?.field === 'totalDue' ? (
+                          <input
+                            type="number"
+                            value={editValue}
+                            onChange={(e) => setEditValue(e.target.value)}
+                            onBlur={() => handleTotalDueSave(row.player.id)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleTotalDueSave(row.player.id);
+                              if (e.key === 'Escape') setEditingCell(null);
+                            }}
+                            className="payment-input"
+                            autoFocus
+                          />
+                        ) : (
+                          <strong
+                            className="amount editable"
+                            onClick={() => !isLocked && handleTotalDueEdit(row.player.id)}
+                            title="Click to edit total due amount"
+                          >
+                            {formatCurrency(row.currentBalance)}
+                          </strong>
+                        )}
+                        {row.lateFees > 0 && (
+                          <small className="cost-breakdown">incl. {formatCurrency(row.lateFees)} late fees</small>
+                        )}
+                        {row.membershipDue > 0 && (
+                          <small className="cost-breakdown">incl. {formatCurrency(row.membershipDue)} membership</small>
+                        )}
+                        {row.kittyDue > 0 && (
+                          <small className="cost-breakdown">incl. {formatCurrency(row.kittyDue)} fines and contributions</small>
+                        )}
+                        <button 
+                          className={`status-btn ${row.status}`}
+                          onClick={() => handleOverallPaymentToggle(row.player.id)}
+                          disabled={isLocked}
+                          title="Mark all payments as paid/unpaid"
+                        >
+                          {row.status === 'paid' ? '✓' : 
+                           row.status === 'partial' ? '◐' : '○'}
+                        </button>
+                      </div>
+                    </td>
+                    <td>
+                      <span className={`status-badge ${row.status}`}>
+                        {row.status.charAt(0).toUpperCase() + row.status.slice(1)}
+                      </span>
+                      {overdue.length > 0 && (
+                        <span
+                          className="overdue-badge"
+                          title={`${overdue.length} match(es) past their due date`}
+                        >
+                          Overdue {daysOverdue}d
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
+
+        <Settlement appData={appData} onAppDataUpdate={onAppDataUpdate} />
       </div>
 
     </div>
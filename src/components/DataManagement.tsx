@@ -1,10 +1,10 @@
 import React, { useRef } from 'react';
-import { AppData, Player } from '../types';
-import { exportData, importData } from '../utils/storage';
+import { AppData, AuditAction, Player } from '../types';
+import { exportData, getInitialData, importData } from '../utils/storage';
 
 interface DataManagementProps {
   appData: AppData;
-  onDataImport: (data: AppData) => void;
+  onDataImport: (data: AppData, action?: AuditAction) => void;
 }
 
 const DataManagement: React.FC<DataManagementProps> = ({ appData, onDataImport }) => {
@@ -53,7 +53,7 @@ const DataManagement: React.FC<DataManagementProps> = ({ appData, onDataImport }
       try {
         const jsonString = e.target?.result as string;
         const importedData = importData(jsonString);
-        onDataImport(importedData);
+        onDataImport(importedData, { type: 'data', description: 'Imported data from a file' });
         alert('Data imported successfully!');
       } catch (error) {
         alert('Error importing data. Please check the file format.');
@@ -114,7 +114,7 @@ const DataManagement: React.FC<DataManagementProps> = ({ appData, onDataImport }
           players: updatedPlayers
         };
 
-        onDataImport(updatedAppData);
+        onDataImport(updatedAppData, { type: 'player', description: `Imported ${newPlayers.length} players` });
         alert(`Successfully imported ${newPlayers.length} new players! (${validPlayers.length - newPlayers.length} duplicates skipped)`);
       } catch (error) {
         alert('Error importing player data. Please check the file format.');
@@ -138,9 +138,8 @@ const DataManagement: React.FC<DataManagementProps> = ({ appData, onDataImport }
   };
 
   const clearAllData = () => {
-    if (window.confirm('Are you sure you want to clear all data? This action cannot be undone.')) {
-      localStorage.removeItem('cricket-cost-splitter-data');
-      window.location.reload();
+    if (window.confirm('Are you sure you want to clear all data? You can undo this from the Audit Log.')) {
+      onDataImport(getInitialData(), { type: 'data', description: 'Cleared all data' });
     }
   };
 
@@ -158,7 +157,7 @@ const DataManagement: React.FC<DataManagementProps> = ({ appData, onDataImport }
         players: cleanedPlayers
       };
       
-      onDataImport(cleanedData);
+      onDataImport(cleanedData, { type: 'player', description: 'Reset balances, arrears and advances for all players' });
       alert('Player data has been cleaned successfully!');
     }
   };
@@ -230,6 +229,10 @@ const DataManagement: React.FC<DataManagementProps> = ({ appData, onDataImport }
         <p>Regular Players: <strong>{appData.players.filter(p => p.regular).length}</strong></p>
         <p>Additional Players: <strong>{appData.players.filter(p => !p.regular).length}</strong></p>
         <p>Total Weekends: <strong>{appData.weekends.length}</strong></p>
+        <p>Vendor Entries: <strong>{(appData.vendorEntries || []).length}</strong></p>
+        <p>Kitty Entries: <strong>{(appData.kittyEntries || []).length}</strong></p>
+        <p>Handovers: <strong>{(appData.handovers || []).length}</strong></p>
+        <p>Match Templates: <strong>{(appData.matchTemplates || []).length}</strong></p>
         <p>Current Weekend: <strong>{appData.weekends.find(w => w.id === appData.currentWeekendId)?.startDate || 'N/A'}</strong></p>
       </div>
     </div>
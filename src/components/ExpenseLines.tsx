@@ -0,0 +1,110 @@
+import React from 'react';
+import { Expense, ExpenseCategory, Player } from '../types';
+import { EXPENSE_CATEGORIES, createExpense } from '../utils/calculations';
+import { fromPaise, parseRupees } from '../utils/money';
+
+interface ExpenseLinesProps {
+  expenses: Expense[];
+  playerIds: string[]; // players in the match, who an expense can be split among
+  players: Player[]; // anyone can have paid for an expense, whether they played or not
+  onChange: (expenses: Expense[]) => void;
+}
+
+const ExpenseLines: React.FC<ExpenseLinesProps> = ({ expenses, playerIds, players, onChange }) => {
+  const updateExpense = (expenseId: string, updates: Partial<Expense>) => {
+    onChange(expenses.map(expense => expense.id === expenseId ? { ...expense, ...updates } : expense));
+  };
+
+  const removeExpense = (expenseId: string) => {
+    onChange(expenses.filter(expense => expense.id !== expenseId));
+  };
+
+  const toggleParticipant = (expense: Expense, playerId: string) => {
+    const participants = expense.playerIds
+      ? playerIds.filter(id => expense.playerIds!.includes(id))
+      : playerIds;
+    const updated = participants.includes(playerId)
+      ? participants.filter(id => id !== playerId)
+      : playerIds.filter(id => id === playerId || participants.includes(id));
+    // Everyone sharing the expense is the default, so no list is stored for it
+    updateExpense(expense.id, { playerIds: updated.length === playerIds.length ? undefined : updated });
+  };
+
+  const getPlayerName = (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return 'Unknown';
+    if (player.nickname && player.nickname.trim()) return player.nickname.trim();
+    return player.lastName ? `${player.firstName} ${player.lastName}` : player.firstName;
+  };
+
+  return (
+    <div className="expense-lines">
+      {expenses.map(expense => (
+        <div key={expense.id} className="expense-line">
+          <div className="form-row">
+            <input
+              type="text"
+              placeholder="Expense"
+              value={expense.name}
+              onChange={(e) => updateExpense(expense.id, { name: e.target.value })}
+            />
+            <select
+              value={expense.category}
+              onChange={(e) => updateExpense(expense.id, { category: e.target.value as ExpenseCategory })}
+            >
+              {EXPENSE_CATEGORIES.map(category => (
+                <option key={category.value} value={category.value}>{category.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              placeholder="Amount"
+              value={expense.amount ? fromPaise(expense.amount) : ''}
+              onChange={(e) => updateExpense(expense.id, { amount: parseRupees(e.target.value) })}
+            />
+            <select
+              value={expense.paidBy || ''}
+              onChange={(e) => updateExpense(expense.id, { paidBy: e.target.value || undefined })}
+              title="Who paid for this"
+            >
+              <option value="">Paid by Team Kitty</option>
+              {players.map(player => (
+                <option key={player.id} value={player.id}>Paid by {getPlayerName(player.id)}</option>
+              ))}
+            </select>
+            <button
+              className="btn-compact"
+              onClick={() => removeExpense(expense.id)}
+              aria-label={`Remove ${expense.name}`}
+            >
+              ×
+            </button>
+          </div>
+          {playerIds.length > 0 && (
+            <div className="expense-participants">
+              <span className="help-text">Split among:</span>
+              {playerIds.map(playerId => (
+                <label key={playerId} className="player-item">
+                  <input
+                    type="checkbox"
+                    checked={!expense.playerIds || expense.playerIds.includes(playerId)}
+                    onChange={() => toggleParticipant(expense, playerId)}
+                  />
+                  <span className="player-name">{getPlayerName(playerId)}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      <button
+        className="btn-compact"
+        onClick={() => onChange([...expenses, createExpense('other', 0, '')])}
+      >
+        + Add Expense
+      </button>
+    </div>
+  );
+};
+
+export default ExpenseLines;
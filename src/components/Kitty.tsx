@@ -0,0 +1,332 @@
+import React, { useState } from 'react';
+import { AppData, KittyEntryType, PaymentMethod } from '../types';
+import { getReceiptsTotal } from '../utils/calculations';
+import { getMembers } from '../utils/guests';
+import {
+  KITTY_ENTRY_TYPES,
+  addKittyEntry,
+  createKittyEntry,
+  deleteKittyEntry,
+  getKittyEntries,
+  getKittyEntryBalance,
+  getKittyEntryLabel,
+  isPlayerCharge,
+  recordKittyPayment
+} from '../utils/kitty';
+import { buildLedger } from '../utils/ledger';
+import { formatCurrency, parseRupees } from '../utils/money';
+import { getPartyName } from '../utils/settlement';
+import { getKittyHistory, getTreasurySummary } from '../utils/treasury';
+import { format } from 'date-fns';
+import ReceiptFields from './ReceiptFields';
+
+interface KittyProps {
+  appData: AppData;
+  onAppDataUpdate: (data: AppData) => void;
+}
+
+const emptyEntryForm = () => ({
+  type: 'fine' as KittyEntryType,
+  playerId: '',
+  amount: '',
+  date: format(new Date(), 'yyyy-MM-dd'),
+  note: ''
+});
+
+const formatSigned = (amount: number) => `${amount < 0 ? '-' : ''}${formatCurrency(Math.abs(amount))}`;
+
+const Kitty: React.FC<KittyProps> = ({ appData, onAppDataUpdate }) => {
+  const [entryForm, setEntryForm] = useState(emptyEntryForm);
+  const [paymentAmounts, setPaymentAmounts] = useState<{ [entryId: string]: string }>({});
+  const [receiptDetails, setReceiptDetails] = useState({ method: 'cash' as PaymentMethod, collectedBy: '' });
+
+  const summary = getTreasurySummary(appData);
+  const history = getKittyHistory(appData);
+  const charges = getKittyEntries(appData).filter(isPlayerCharge);
+  const needsPlayer = entryForm.type === 'fine' || entryForm.type === 'contribution';
+
+  // Credit beyond what a player fronted and is still to be paid back is an overpayment
+  const overpaid = buildLedger(appData).players
+    .map(entry => ({
+      player: entry.player,
+      amount: -entry.closingBalance - entry.weekends.reduce((sum, weekend) => sum + weekend.fronted, 0)
+    }))
+    .filter(({ amount }) => amount > 0);
+
+  const handleAdd = () => {
+    const amount = parseRupees(entryForm.amount);
+    if (amount <= 0 || (needsPlayer && !entryForm.playerId)) return;
+    const entry = createKittyEntry({
+      type: entryForm.type,
+      amount,
+      date: entryForm.date,
+      playerId: needsPlayer ? entryForm.playerId : undefined,
+      note: entryForm.note.trim() || undefined
+    });
+    onAppDataUpdate(addKittyEntry(appData, entry));
+    setEntryForm({ ...emptyEntryForm(), type: entryForm.type });
+  };
+
+  const handleKeepOverpayment = (playerId: string, amount: number) => {
+    const entry = createKittyEntry({
+      type: 'contribution',
+      amount,
+      date: format(new Date(), 'yyyy-MM-dd'),
+      playerId,
+      note: 'Overpayment kept'
+    });
+    onAppDataUpdate(addKittyEntry(appData, entry));
+  };
+
+  const handleRecordPayment = (entryId: string) => {
+    const amount = parseRupees(paymentAmounts[entryId] || '');
+    if (!amount) return;
+    onAppDataUpdate(recordKittyPayment(appData, entryId, amount, {
+      method: receiptDetails.method,
+      collectedBy: receiptDetails.collectedBy || undefined
+    }));
+    setPaymentAmounts({ ...paymentAmounts, [entryId]: '' });
+  };
+
+  const handleDelete = (entryId: string) => {
+    if (window.confirm('Delete this entry? Any payments recorded against it will be dropped.')) {
+      onAppDataUpdate(deleteKittyEntry(appData, entryId));
+    }
+  };
+
+  return (
+    <div className="kitty">
+      <div className="data-section">
+        <h4>Treasury</h4>
+        <table className="payment-table">
+          <tbody>
+            <tr>
+              <td>Kitty</td>
+              <td className="amount">{formatSigned(summary.kitty)}</td>
+            </tr>
+            <tr>
+              <td>Players owe the team</td>
+              <td className="amount due">{formatCurrency(summary.playersOwe)}</td>
+            </tr>
+            <tr>
+              <td>Team owes players</td>
+              <td className="amount overpaid">{formatCurrency(summary.playersOwed)}</td>
+            </tr>
+            <tr>
+              <td>Team owes clubs</td>
+              <td className="amount">{formatSigned(summary.vendorsOwed)}</td>
+            </tr>
+            <tr>
+              <td><strong>Cash in hand</strong></td>
+              <td className="amount"><strong>{formatSigned(summary.cash)}</strong></td>
+            </tr>
+            {summary.heldByCollectors !== 0 && (
+              <tr>
+                <td>of which collectors still hold</td>
+                <td className="amount">{formatSigned(summary.heldByCollectors)}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+        <p className="help-text">
+          {summary.difference === 0
+            ? 'Cash in hand is the kitty plus what the team owes, less what players owe it, and matches every receipt and payment recorded.'
+            : `Cash in hand is out by ${formatSigned(summary.difference)} against the receipts and payments recorded.`}
+        </p>
+      </div>
+
+      <div className="data-section">
+        <h4>Record an Entry</h4>
+        <div className="form-row">
+          <select
+            value={entryForm.type}
+            onChange={(e) => setEntryForm({ ...entryForm, type: e.target.value as KittyEntryType })}
+          >
+            {KITTY_ENTRY_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+          {needsPlayer && (
+            <select
+              value={entryForm.playerId}
+              onChange={(e) => setEntryForm({ ...entryForm, playerId: e.target.value })}
+            >
+              <option value="">Select player</option>
+              {getMembers(appData.players).map(player => (
+                <option key={player.id} value={player.id}>{getPartyName(appData, player.id)}</option>
+              ))}
+            </select>
+          )}
+          <input
+            type="number"
+            min="0"
+            placeholder="Amount (₹)"
+            value={entryForm.amount}
+            onChange={(e) => setEntryForm({ ...entryForm, amount: e.target.value })}
+          />
+          <input
+            type="date"
+            value={entryForm.date}
+            onChange={(e) => setEntryForm({ ...entryForm, date: e.target.value })}
+          />
+          <input
+            type="text"
+            placeholder="Note"
+            value={entryForm.note}
+            onChange={(e) => setEntryForm({ ...entryForm, note: e.target.value })}
+          />
+          <button
+            className="btn-small primary"
+            onClick={handleAdd}
+            disabled={parseRupees(entryForm.amount) <= 0 || (needsPlayer && !entryForm.playerId)}
+          >
+            Add Entry
+          </button>
+        </div>
+        <p className="help-text">
+          Fines and contributions are added to the player's balance. Purchases such as kit are paid out of the kitty; income from outside the team goes into it.
+        </p>
+      </div>
+
+      {overpaid.length > 0 && (
+        <div className="data-section">
+          <h4>Overpayments</h4>
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Player</th>
+                <th>In Credit</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {overpaid.map(({ player, amount }) => (
+                <tr key={player.id}>
+                  <td>{getPartyName(appData, player.id)}</td>
+                  <td className="amount overpaid">{formatCurrency(amount)}</td>
+                  <td>
+                    <button className="btn-small secondary" onClick={() => handleKeepOverpayment(player.id, amount)}>
+                      Keep in Kitty
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="help-text">
+            Keeping an overpayment records it as the player's contribution, so it leaves their credit for the kitty.
+          </p>
+        </div>
+      )}
+
+      {charges.length > 0 && (
+        <div className="data-section">
+          <h4>Fines and Contributions</h4>
+          <div className="form-row">
+            <label>Payments received by</label>
+            <ReceiptFields
+              appData={appData}
+              method={receiptDetails.method}
+              collectedBy={receiptDetails.collectedBy}
+              onChange={setReceiptDetails}
+            />
+          </div>
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Player</th>
+                <th>Entry</th>
+                <th>Amount</th>
+                <th>Owes</th>
+                <th>Record Payment</th>
+              </tr>
+            </thead>
+            <tbody>
+              {charges.map(entry => {
+                const balance = getKittyEntryBalance(entry);
+                return (
+                  <tr key={entry.id}>
+                    <td>{entry.date}</td>
+                    <td>{entry.playerId ? getPartyName(appData, entry.playerId) : ''}</td>
+                    <td>
+                      {getKittyEntryLabel(entry.type)}
+                      {entry.note && <small className="cost-breakdown">{entry.note}</small>}
+                    </td>
+                    <td className="amount">{formatCurrency(entry.amount)}</td>
+                    <td className={`amount ${balance > 0 ? 'due' : balance < 0 ? 'overpaid' : ''}`}>
+                      {formatCurrency(balance)}
+                    </td>
+                    <td>
+                      {balance > 0 && (
+                        <div className="form-row">
+                          <input
+                            type="number"
+                            placeholder="Amount"
+                            value={paymentAmounts[entry.id] || ''}
+                            onChange={(e) => setPaymentAmounts({ ...paymentAmounts, [entry.id]: e.target.value })}
+                          />
+                          <button
+                            className="btn-small primary"
+                            onClick={() => handleRecordPayment(entry.id)}
+                            disabled={!parseRupees(paymentAmounts[entry.id] || '')}
+                          >
+                            Record
+                          </button>
+                        </div>
+                      )}
+                      {getReceiptsTotal(entry.receipts) > 0 && (
+                        <small className="cost-breakdown">Paid {formatCurrency(getReceiptsTotal(entry.receipts))}</small>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="data-section">
+        <h4>Kitty History</h4>
+        {history.length === 0 ? (
+          <p className="help-text">Nothing has gone in or out of the kitty yet.</p>
+        ) : (
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Description</th>
+                <th>Amount</th>
+                <th>Balance</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...history].reverse().map((line, index) => (
+                <tr key={`${line.matchId || line.kittyEntryId || line.description}-${index}`}>
+                  <td>{line.date.slice(0, 10)}</td>
+                  <td>{line.description}</td>
+                  <td className={`amount ${line.amount < 0 ? 'due' : 'overpaid'}`}>{formatSigned(line.amount)}</td>
+                  <td className="amount">{formatSigned(line.balance)}</td>
+                  <td>
+                    {line.kittyEntryId && (
+                      <button className="btn-small danger" onClick={() => handleDelete(line.kittyEntryId!)}>
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="help-text">
+          Each match adds what players were charged over its cost, or takes out what it fell short. Opening balances are brought forward into the kitty.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default Kitty;
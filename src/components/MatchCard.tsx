@@ -1,16 +1,23 @@
 import React, { useState } from 'react';
-import { Match, Player, Payment } from '../types';
-import { calculateMatchCostPerPlayer, getPlayerPayment, createPayment, markAsPaid, markAsUnpaid, setPartialPayment } from '../utils/calculations';
+import { Club, Match, Player, Payment, RoundingPolicy } from '../types';
+import { calculateExpenseShares, calculateMatchRefund, calculateMatchShares, calculateMatchTotalCost, getMatchStatus, getMatchStatusLabel, getExpensePlayerIds, markAsPaid, markAsUnpaid, setPartialPayment, syncMatchPayments } from '../utils/calculations';
+import { DEFAULT_ROUNDING_POLICY, formatCurrency, formatShareRange, fromPaise, parseRupees } from '../utils/money';
+import { getClubExpenses } from '../utils/clubs';
+import { formatMatchDate, getMatchDay } from '../utils/schedule';
+import ExpenseLines from './ExpenseLines';
+import MatchStatusFields from './MatchStatusFields';
 import { v4 as uuidv4 } from 'uuid';
-import { format, parse } from 'date-fns';
 
 interface MatchCardProps {
   match: Match | undefined;
   players: Player[];
   onMatchUpdate: (match: Match) => void;
-  matchDate: string;
-  matchType: 'Saturday' | 'Sunday' | 'Weekday';
-  club: 'MICC' | 'Sadhooz';
+  matchDate: string; // date for a new match
+  clubId: string; // club for a new match
+  clubs?: Club[];
+  roundingPolicy?: RoundingPolicy;
+  graceDays?: number; // days after the match before new payments fall due
+  locked?: boolean; // the match is in a closed period and can only be viewed
 }
 
 const MatchCard: React.FC<MatchCardProps> = ({ 
@@ -18,42 +25,33 @@ const MatchCard: React.FC<MatchCardProps> = ({
   players, 
   onMatchUpdate, 
   matchDate, 
-  matchType, 
-  club 
+  clubId,
+  clubs = [],
+  roundingPolicy = DEFAULT_ROUNDING_POLICY,
+  graceDays,
+  locked = false
 }) => {
-  const [isEditing, setIsEditing] = useState(!match);
+  const [isEditing, setIsEditing] = useState(!match && !locked);
   const [editMatch, setEditMatch] = useState<Match>(match || {
     id: uuidv4(),
     date: matchDate,
-    club,
-    type: matchType,
-    groundCost: 0,
-    cafeteriaCost: 0,
+    clubId,
+    expenses: getClubExpenses(clubs.find(c => c.id === clubId)),
     playerIds: [],
-    payments: []
+    payments: [],
+    status: 'scheduled'
   });
 
+  const club = clubs.find(c => c.id === (isEditing || !match ? editMatch.clubId : match.clubId));
+  const clubName = club?.name || 'Unknown club';
+
   const [partialPaymentAmount, setPartialPaymentAmount] = useState<{[key: string]: string}>({});
 
   const handleSave = () => {
-    if (editMatch.playerIds.length > 0 && (editMatch.groundCost > 0 || editMatch.cafeteriaCost > 0)) {
-      const costPerPlayer = calculateMatchCostPerPlayer(editMatch);
-      
+    // A fully refunded match costs nothing but still needs saving to re-price its payments
+    if (editMatch.playerIds.length > 0 && (calculateMatchTotalCost(editMatch) > 0 || calculateMatchRefund(editMatch) > 0)) {
       // Create or update payments for selected players
-      const updatedPayments = editMatch.playerIds.map(playerId => {
-        const existingPayment = getPlayerPayment(editMatch, playerId);
-        if (existingPayment) {
-          return { ...existingPayment, amountDue: costPerPlayer };
-        }
-        return createPayment(editMatch.id, playerId, costPerPlayer);
-      });
-
-      const updatedMatch = {
-        ...editMatch,
-        payments: updatedPayments
-      };
-
-      onMatchUpdate(updatedMatch);
+      onMatchUpdate(syncMatchPayments(editMatch, roundingPolicy, graceDays));
       setIsEditing(false);
     }
   };
@@ -63,8 +61,12 @@ const MatchCard: React.FC<MatchCardProps> = ({
     const updatedPlayerIds = isSelected
       ? editMatch.playerIds.filter(id => id !== playerId)
       : [...editMatch.playerIds, playerId];
+    // Newly selected players share every expense until they are ticked off one
+    const expenses = editMatch.expenses.map(expense =>
+      expense.playerIds && !isSelected ? { ...expense, playerIds: [...expense.playerIds, playerId] } : expense
+    );
     
-    setEditMatch({ ...editMatch, playerIds: updatedPlayerIds });
+    setEditMatch({ ...editMatch, playerIds: updatedPlayerIds, expenses });
   };
 
   const handlePaymentToggle = (payment: Payment) => {
@@ -89,7 +91,7 @@ const MatchCard: React.FC<MatchCardProps> = ({
   const handlePartialPayment = (payment: Payment, amount: string) => {
     if (!match) return;
     
-    const numAmount = parseFloat(amount) || 0;
+    const numAmount = parseRupees(amount);
     const updatedPayment = setPartialPayment(payment, numAmount);
     
     const updatedPayments = match.payments.map(p => 
@@ -115,52 +117,55 @@ const MatchCard: React.FC<MatchCardProps> = ({
     }
   };
 
-  const formatDate = (dateString: string) => {
-    try {
-      const date = parse(dateString, 'yyyy-MM-dd', new Date());
-      return format(date, 'MMM dd');
-    } catch {
-      return dateString;
-    }
-  };
-
   if (!match && !isEditing) {
     return (
       <div className="match-card empty">
-        <h3>{matchType} - {club}</h3>
-        <p>{formatDate(matchDate)}</p>
-        <button className="btn btn-primary" onClick={() => setIsEditing(true)}>
-          Create Match
-        </button>
+        <h3>{getMatchDay(editMatch)} - {clubName}</h3>
+        <p>{formatMatchDate(editMatch, 'MMM dd')}</p>
+        {!locked && (
+          <button className="btn btn-primary" onClick={() => setIsEditing(true)}>
+            Create Match
+          </button>
+        )}
       </div>
     );
   }
 
-  if (isEditing) {
+  if (isEditing && !locked) {
     return (
       <div className="match-card editing">
-        <h3>{matchType} - {club}</h3>
-        <p>{formatDate(matchDate)}</p>
-        
-        <div className="cost-inputs">
-          <div className="input-group">
-            <label>Ground Cost (₹)</label>
-            <input
-              type="number"
-              value={editMatch.groundCost}
-              onChange={(e) => setEditMatch({...editMatch, groundCost: parseFloat(e.target.value) || 0})}
-            />
-          </div>
-          <div className="input-group">
-            <label>Cafeteria Cost (₹)</label>
-            <input
-              type="number"
-              value={editMatch.cafeteriaCost}
-              onChange={(e) => setEditMatch({...editMatch, cafeteriaCost: parseFloat(e.target.value) || 0})}
-            />
-          </div>
+        <h3>{getMatchDay(editMatch)} - {clubName}</h3>
+
+        <div className="cost-input-group">
+          <label>Date</label>
+          <input
+            type="date"
+            value={editMatch.date}
+            onChange={(e) => setEditMatch({ ...editMatch, date: e.target.value })}
+          />
+          <label>Time</label>
+          <input
+            type="time"
+            value={editMatch.time || ''}
+            onChange={(e) => setEditMatch({ ...editMatch, time: e.target.value || undefined })}
+          />
         </div>
 
+        {clubs.length > 1 && (
+          <div className="cost-input-group">
+            <label>Club</label>
+            <select
+              value={editMatch.clubId}
+              onChange={(e) => setEditMatch({ ...editMatch, clubId: e.target.value })}
+              className="club-select"
+            >
+              {clubs.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        
         <div className="player-selection">
           <h4>Select Players</h4>
           <div className="players-grid">
@@ -177,10 +182,34 @@ const MatchCard: React.FC<MatchCardProps> = ({
           </div>
         </div>
 
+        <MatchStatusFields
+          status={getMatchStatus(editMatch)}
+          refund={editMatch.refund}
+          onChange={(updates) => setEditMatch({ ...editMatch, ...updates })}
+        />
+
+        <div className="cost-inputs">
+          <h4>Expenses</h4>
+          <ExpenseLines
+            expenses={editMatch.expenses}
+            playerIds={editMatch.playerIds}
+            players={players}
+            onChange={(expenses) => setEditMatch({ ...editMatch, expenses })}
+          />
+        </div>
+
         {editMatch.playerIds.length > 0 && (
           <div className="cost-summary">
-            <p>Total Cost: ₹{editMatch.groundCost + editMatch.cafeteriaCost}</p>
-            <p>Cost per Player: ₹{calculateMatchCostPerPlayer(editMatch)}</p>
+            <p>Total Cost: {formatCurrency(calculateMatchTotalCost(editMatch))}</p>
+            {calculateMatchRefund(editMatch) > 0 && (
+              <p>Refund: {formatCurrency(calculateMatchRefund(editMatch))}</p>
+            )}
+            {editMatch.expenses.map(expense => (
+              <p key={expense.id}>
+                {expense.name || 'Expense'}: {formatCurrency(expense.amount)} among {getExpensePlayerIds(editMatch, expense).length} players
+              </p>
+            ))}
+            <p>Cost per Player: {formatShareRange(calculateMatchShares(editMatch, roundingPolicy))}</p>
           </div>
         )}
 
@@ -200,21 +229,38 @@ const MatchCard: React.FC<MatchCardProps> = ({
   if (!match) return null;
   
   const validMatch = match; // Create a const to help TypeScript understand it's not undefined
+  const expenseShares = calculateExpenseShares(validMatch, roundingPolicy);
 
   return (
     <div className="match-card">
       <div className="match-header">
-        <h3>{matchType} - {club}</h3>
-        <p>{formatDate(matchDate)}</p>
-        <button className="btn btn-small" onClick={() => setIsEditing(true)}>
-          Edit
-        </button>
+        <h3>{getMatchDay(validMatch)} - {clubName}</h3>
+        <p>{formatMatchDate(validMatch, 'MMM dd')}</p>
+        <span className={`match-status ${getMatchStatus(validMatch)}`}>{getMatchStatusLabel(validMatch)}</span>
+        {locked ? (
+          <span className="locked-badge" title="In a closed period">🔒 Closed</span>
+        ) : (
+          <button className="btn btn-small" onClick={() => setIsEditing(true)}>
+            Edit
+          </button>
+        )}
       </div>
 
       <div className="match-summary">
-        <p>Total Cost: ₹{validMatch.groundCost + validMatch.cafeteriaCost}</p>
+        <p>Total Cost: {formatCurrency(calculateMatchTotalCost(validMatch))}</p>
+        {calculateMatchRefund(validMatch) > 0 && (
+          <p>Refund from ground: {formatCurrency(calculateMatchRefund(validMatch))}</p>
+        )}
         <p>Players: {validMatch.playerIds.length}</p>
-        <p>Cost per Player: ₹{calculateMatchCostPerPlayer(validMatch)}</p>
+        {validMatch.expenses.map(expense => (
+          <p key={expense.id}>
+            {expense.name || 'Expense'}: {formatCurrency(expense.amount)} among {getExpensePlayerIds(validMatch, expense).length} players
+          </p>
+        ))}
+        <p>Cost per Player: {formatShareRange(calculateMatchShares(validMatch, roundingPolicy))}</p>
+        {calculateMatchShares(validMatch, roundingPolicy).kitty > 0 && (
+          <p>Rounding to Kitty: {formatCurrency(calculateMatchShares(validMatch, roundingPolicy).kitty)}</p>
+        )}
       </div>
 
       <div className="payments-list">
@@ -222,14 +268,28 @@ const MatchCard: React.FC<MatchCardProps> = ({
         {validMatch.payments.map(payment => (
           <div key={payment.id} className={`payment-row ${getStatusClass(payment.status)}`}>
             <span className="player-name">{getPlayerName(payment.playerId)}</span>
-            <span className="amount">₹{payment.amountDue}</span>
+            <span className="amount">
+              {formatCurrency(payment.amountDue)}
+              <small className="cost-breakdown">
+                {validMatch.expenses
+                  .filter(expense => expenseShares[expense.id].shares[payment.playerId])
+                  .map(expense => `${expense.name || 'Expense'} ${formatCurrency(expenseShares[expense.id].shares[payment.playerId])}`)
+                  .join(' · ')}
+              </small>
+              {payment.lateFee ? (
+                <small className="cost-breakdown">+ {formatCurrency(payment.lateFee)} late fee</small>
+              ) : null}
+              {payment.creditApplied ? (
+                <small className="cost-breakdown">{formatCurrency(payment.creditApplied)} from credit</small>
+              ) : null}
+            </span>
             
-            {payment.status === 'partial' && (
+            {payment.status === 'partial' && !locked && (
               <div className="partial-payment">
                 <input
                   type="number"
                   placeholder="Amount paid"
-                  value={partialPaymentAmount[payment.id] || payment.amountPaid}
+                  value={partialPaymentAmount[payment.id] || fromPaise(payment.amountPaid)}
                   onChange={(e) => setPartialPaymentAmount({
                     ...partialPaymentAmount,
                     [payment.id]: e.target.value
@@ -242,6 +302,7 @@ const MatchCard: React.FC<MatchCardProps> = ({
             <button 
               className={`btn btn-small status-btn ${payment.status}`}
               onClick={() => handlePaymentToggle(payment)}
+              disabled={locked}
             >
               {payment.status === 'paid' ? 'Paid' : 
                payment.status === 'partial' ? 'Partial' : 'Pending'}
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Match, MatchStatus } from '../types';
+import { MATCH_STATUSES } from '../utils/calculations';
+import { fromPaise, parseRupees } from '../utils/money';
+
+interface MatchStatusFieldsProps {
+  status: MatchStatus;
+  refund?: number;
+  onChange: (updates: Pick<Match, 'status' | 'refund'>) => void;
+}
+
+const MatchStatusFields: React.FC<MatchStatusFieldsProps> = ({ status, refund, onChange }) => {
+  const calledOff = status === 'abandoned' || status === 'cancelled';
+
+  return (
+    <div className="form-row match-status-fields">
+      <div className="cost-input-group">
+        <label>Status</label>
+        <select
+          value={status}
+          onChange={(e) => onChange({ status: e.target.value as MatchStatus, refund })}
+        >
+          {MATCH_STATUSES.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      {calledOff && (
+        <div className="cost-input-group">
+          <label>Refund from ground (₹)</label>
+          <input
+            type="number"
+            placeholder="0"
+            value={refund ? fromPaise(refund) : ''}
+            onChange={(e) => onChange({ status, refund: parseRupees(e.target.value) || undefined })}
+          />
+        </div>
+      )}
+      {calledOff && (
+        <p className="help-text">
+          Players are charged only what was not refunded. Anything they already paid beyond that becomes credit.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MatchStatusFields;
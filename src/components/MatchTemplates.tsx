@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { AppData, MatchTemplate } from '../types';
+import { getClubs } from '../utils/clubs';
+import { calculateMatchTotalCost } from '../utils/calculations';
+import { formatCurrency } from '../utils/money';
+import { createTemplate, deleteTemplate, getTemplates, saveTemplate } from '../utils/templates';
+import ExpenseLines from './ExpenseLines';
+
+interface MatchTemplatesProps {
+  appData: AppData;
+  onAppDataUpdate: (data: AppData) => void;
+}
+
+const DAYS = ['Saturday', 'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+const MatchTemplates: React.FC<MatchTemplatesProps> = ({ appData, onAppDataUpdate }) => {
+  const templates = getTemplates(appData);
+  const clubs = getClubs(appData);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+
+  const handleUpdate = (template: MatchTemplate, updates: Partial<Omit<MatchTemplate, 'id'>>) => {
+    onAppDataUpdate(saveTemplate(appData, { ...template, ...updates }));
+  };
+
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    const template = createTemplate(appData, name.trim());
+    onAppDataUpdate(saveTemplate(appData, template));
+    setEditingId(template.id);
+    setName('');
+  };
+
+  const handleDelete = (template: MatchTemplate) => {
+    if (window.confirm(`Delete the template "${template.name}"? Matches already created from it are kept.`)) {
+      onAppDataUpdate(deleteTemplate(appData, template.id));
+    }
+  };
+
+  const togglePlayer = (template: MatchTemplate, playerId: string) => {
+    const playerIds = template.playerIds.includes(playerId)
+      ? template.playerIds.filter(id => id !== playerId)
+      : [...template.playerIds, playerId];
+    handleUpdate(template, { playerIds });
+  };
+
+  const getPlayerName = (playerId: string) => {
+    const player = appData.players.find(p => p.id === playerId);
+    if (!player) return 'Unknown';
+    if (player.nickname && player.nickname.trim()) return player.nickname.trim();
+    return player.lastName ? `${player.firstName} ${player.lastName}` : player.firstName;
+  };
+
+  const editing = templates.find(template => template.id === editingId);
+
+  return (
+    <div className="data-section">
+      <h4>Match Templates</h4>
+      <table className="payment-table">
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Club</th>
+            <th>Day</th>
+            <th>Time</th>
+            <th>Cost</th>
+            <th>Players</th>
+            <th>Auto-create</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {templates.map(template => (
+            <tr key={template.id}>
+              <td>
+                <input
+                  type="text"
+                  value={template.name}
+                  onChange={(e) => handleUpdate(template, { name: e.target.value })}
+                />
+              </td>
+              <td>
+                <select value={template.clubId} onChange={(e) => handleUpdate(template, { clubId: e.target.value })}>
+                  {clubs.map(club => (
+                    <option key={club.id} value={club.id}>{club.name}</option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <select value={template.day} onChange={(e) => handleUpdate(template, { day: parseInt(e.target.value, 10) })}>
+                  {DAYS.map((day, index) => (
+                    <option key={day} value={index}>{day}</option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <input
+                  type="time"
+                  value={template.time || ''}
+                  onChange={(e) => handleUpdate(template, { time: e.target.value || undefined })}
+                />
+              </td>
+              <td className="amount">
+                {formatCurrency(calculateMatchTotalCost({ ...template, date: '', payments: [] }))}
+              </td>
+              <td>
+                {template.playerIds.length}
+                {template.playerShares && (
+                  <small className="cost-breakdown">{Object.keys(template.playerShares).length} share rule(s)</small>
+                )}
+              </td>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={template.autoCreate}
+                  onChange={(e) => handleUpdate(template, { autoCreate: e.target.checked })}
+                />
+              </td>
+              <td>
+                <button
+                  className="btn-small secondary"
+                  onClick={() => setEditingId(editingId === template.id ? null : template.id)}
+                >
+                  {editingId === template.id ? 'Done' : 'Costs & Players'}
+                </button>
+                <button className="btn-small danger" onClick={() => handleDelete(template)}>Delete</button>
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td colSpan={7}>
+              <input
+                type="text"
+                placeholder="Template name, e.g. MICC Saturday"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </td>
+            <td>
+              <button className="btn-small primary" onClick={handleAdd} disabled={!name.trim()}>
+                Add Template
+              </button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      {editing && (
+        <div className="player-selection-section">
+          <h5>{editing.name}: Default Costs</h5>
+          <ExpenseLines
+            expenses={editing.expenses}
+            playerIds={editing.playerIds}
+            players={appData.players}
+            onChange={(expenses) => handleUpdate(editing, { expenses })}
+          />
+          <h5>{editing.name}: Default Players</h5>
+          <div className="player-list">
+            {appData.players.map(player => (
+              <label key={player.id} className="player-item">
+                <input
+                  type="checkbox"
+                  checked={editing.playerIds.includes(player.id)}
+                  onChange={() => togglePlayer(editing, player.id)}
+                />
+                <span className="player-name">{getPlayerName(player.id)}</span>
+              </label>
+            ))}
+          </div>
+          {editing.playerShares && (
+            <p className="help-text">
+              Share rules: {Object.entries(editing.playerShares)
+                .map(([playerId, share]) => `${getPlayerName(playerId)} ${share.fixedAmount !== undefined ? formatCurrency(share.fixedAmount) : `×${share.weight ?? 1}`}`)
+                .join(', ')}
+              {' '}
+              <button className="btn-small secondary" onClick={() => handleUpdate(editing, { playerShares: undefined })}>
+                Clear
+              </button>
+            </p>
+          )}
+        </div>
+      )}
+
+      <p className="help-text">
+        Pick a template in the match form to fill it in, or use "Save as Template" there to keep a match's share rules.
+        Auto-create templates are added to each new weekend made with Next Weekend.
+      </p>
+    </div>
+  );
+};
+
+export default MatchTemplates;
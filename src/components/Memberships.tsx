@@ -0,0 +1,292 @@
+import React, { useState } from 'react';
+import { AppData, ExpenseCategory, PaymentMethod, Player } from '../types';
+import { EXPENSE_CATEGORIES, getCategoryLabel, getReceiptsTotal } from '../utils/calculations';
+import {
+  assignPlan,
+  createPlan,
+  deletePlan,
+  getMembershipBalance,
+  getPlan,
+  recordMembershipPayment,
+  removeMembership
+} from '../utils/memberships';
+import { formatCurrency, parseRupees } from '../utils/money';
+import { format, parse } from 'date-fns';
+import ReceiptFields from './ReceiptFields';
+
+interface MembershipsProps {
+  appData: AppData;
+  onAppDataUpdate: (data: AppData) => void;
+}
+
+const emptyPlanForm = () => {
+  const year = new Date().getFullYear();
+  return {
+    name: '',
+    fee: '',
+    startDate: `${year}-01-01`,
+    endDate: `${year}-12-31`,
+    category: 'ground' as ExpenseCategory,
+    amountPerMatch: ''
+  };
+};
+
+const formatDay = (date: string) => {
+  try {
+    return format(parse(date, 'yyyy-MM-dd', new Date()), 'MMM dd, yyyy');
+  } catch {
+    return date;
+  }
+};
+
+const Memberships: React.FC<MembershipsProps> = ({ appData, onAppDataUpdate }) => {
+  const plans = appData.membershipPlans || [];
+  const memberships = appData.memberships || [];
+
+  const [planForm, setPlanForm] = useState(emptyPlanForm);
+  const [assignForm, setAssignForm] = useState({ playerId: '', planId: '' });
+  const [paymentAmounts, setPaymentAmounts] = useState<{ [membershipId: string]: string }>({});
+  const [receiptDetails, setReceiptDetails] = useState({ method: 'cash' as PaymentMethod, collectedBy: '' });
+
+  const getPlayerDisplayName = (player?: Player): string => {
+    if (!player) return 'Unknown';
+    if (player.nickname && player.nickname.trim()) return player.nickname.trim();
+    return player.lastName ? `${player.firstName} ${player.lastName}` : player.firstName;
+  };
+
+  const handleAddPlan = () => {
+    if (!planForm.name.trim() || planForm.startDate > planForm.endDate) return;
+    const plan = createPlan({
+      name: planForm.name.trim(),
+      fee: parseRupees(planForm.fee),
+      startDate: planForm.startDate,
+      endDate: planForm.endDate,
+      coverage: { category: planForm.category, amountPerMatch: parseRupees(planForm.amountPerMatch) }
+    });
+    onAppDataUpdate({ ...appData, membershipPlans: [...plans, plan] });
+    setPlanForm(emptyPlanForm());
+  };
+
+  const handleDeletePlan = (planId: string) => {
+    if (memberships.some(membership => membership.planId === planId)) {
+      alert('Remove every member from this plan before deleting it.');
+      return;
+    }
+    onAppDataUpdate(deletePlan(appData, planId));
+  };
+
+  const handleAssign = () => {
+    if (!assignForm.playerId || !assignForm.planId) return;
+    onAppDataUpdate(assignPlan(appData, assignForm.playerId, assignForm.planId));
+    setAssignForm({ ...assignForm, playerId: '' });
+  };
+
+  const handleRemoveMembership = (membershipId: string) => {
+    if (window.confirm('Remove this membership? Its fee and any payments recorded against it will be dropped.')) {
+      onAppDataUpdate(removeMembership(appData, membershipId));
+    }
+  };
+
+  const handleRecordPayment = (membershipId: string) => {
+    const amount = parseRupees(paymentAmounts[membershipId] || '');
+    if (!amount) return;
+    onAppDataUpdate(recordMembershipPayment(appData, membershipId, amount, {
+      note: 'Membership fee',
+      method: receiptDetails.method,
+      collectedBy: receiptDetails.collectedBy || undefined
+    }));
+    setPaymentAmounts({ ...paymentAmounts, [membershipId]: '' });
+  };
+
+  return (
+    <div className="memberships">
+      <div className="data-section">
+        <h4>Plans</h4>
+        {plans.length === 0 ? (
+          <p className="help-text">No membership plans yet.</p>
+        ) : (
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Plan</th>
+                <th>Fee</th>
+                <th>Period</th>
+                <th>Covers per match</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {plans.map(plan => (
+                <tr key={plan.id}>
+                  <td>{plan.name}</td>
+                  <td className="amount">{formatCurrency(plan.fee)}</td>
+                  <td>{formatDay(plan.startDate)} - {formatDay(plan.endDate)}</td>
+                  <td>First {formatCurrency(plan.coverage.amountPerMatch)} of {getCategoryLabel(plan.coverage.category).toLowerCase()}</td>
+                  <td>
+                    <button className="btn-small danger" onClick={() => handleDeletePlan(plan.id)}>Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="form-row">
+          <input
+            type="text"
+            placeholder="Plan name"
+            value={planForm.name}
+            onChange={(e) => setPlanForm({ ...planForm, name: e.target.value })}
+          />
+          <input
+            type="number"
+            placeholder="Fee (₹)"
+            value={planForm.fee}
+            onChange={(e) => setPlanForm({ ...planForm, fee: e.target.value })}
+          />
+          <input
+            type="date"
+            value={planForm.startDate}
+            onChange={(e) => setPlanForm({ ...planForm, startDate: e.target.value })}
+          />
+          <input
+            type="date"
+            value={planForm.endDate}
+            onChange={(e) => setPlanForm({ ...planForm, endDate: e.target.value })}
+          />
+        </div>
+        <div className="form-row">
+          <label>Covers the first</label>
+          <input
+            type="number"
+            placeholder="Amount (₹)"
+            value={planForm.amountPerMatch}
+            onChange={(e) => setPlanForm({ ...planForm, amountPerMatch: e.target.value })}
+          />
+          <label>of each match's</label>
+          <select
+            value={planForm.category}
+            onChange={(e) => setPlanForm({ ...planForm, category: e.target.value as ExpenseCategory })}
+          >
+            {EXPENSE_CATEGORIES.map(category => (
+              <option key={category.value} value={category.value}>{category.label}</option>
+            ))}
+          </select>
+          <button
+            className="btn-small primary"
+            onClick={handleAddPlan}
+            disabled={!planForm.name.trim() || planForm.startDate > planForm.endDate}
+          >
+            Add Plan
+          </button>
+        </div>
+      </div>
+
+      <div className="data-section">
+        <h4>Members</h4>
+        {plans.length > 0 && (
+          <div className="form-row">
+            <select
+              value={assignForm.playerId}
+              onChange={(e) => setAssignForm({ ...assignForm, playerId: e.target.value })}
+            >
+              <option value="">Select player</option>
+              {appData.players.map(player => (
+                <option key={player.id} value={player.id}>{getPlayerDisplayName(player)}</option>
+              ))}
+            </select>
+            <select
+              value={assignForm.planId}
+              onChange={(e) => setAssignForm({ ...assignForm, planId: e.target.value })}
+            >
+              <option value="">Select plan</option>
+              {plans.map(plan => (
+                <option key={plan.id} value={plan.id}>{plan.name}</option>
+              ))}
+            </select>
+            <button
+              className="btn-small primary"
+              onClick={handleAssign}
+              disabled={!assignForm.playerId || !assignForm.planId}
+            >
+              Assign
+            </button>
+          </div>
+        )}
+
+        {memberships.length > 0 && (
+          <div className="form-row">
+            <label>Payments received by</label>
+            <ReceiptFields
+              appData={appData}
+              method={receiptDetails.method}
+              collectedBy={receiptDetails.collectedBy}
+              onChange={setReceiptDetails}
+            />
+          </div>
+        )}
+
+        {memberships.length === 0 ? (
+          <p className="help-text">No players are on a plan.</p>
+        ) : (
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Player</th>
+                <th>Plan</th>
+                <th>Fee</th>
+                <th>Paid</th>
+                <th>Owes</th>
+                <th>Record Payment</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {memberships.map(membership => {
+                const balance = getMembershipBalance(membership);
+                return (
+                  <tr key={membership.id}>
+                    <td>{getPlayerDisplayName(appData.players.find(p => p.id === membership.playerId))}</td>
+                    <td>{getPlan(appData, membership.planId)?.name || 'Deleted plan'}</td>
+                    <td className="amount">{formatCurrency(membership.fee)}</td>
+                    <td className="amount">{formatCurrency(getReceiptsTotal(membership.receipts))}</td>
+                    <td className={`amount ${balance > 0 ? 'due' : balance < 0 ? 'overpaid' : ''}`}>
+                      {formatCurrency(balance)}
+                    </td>
+                    <td>
+                      <div className="form-row">
+                        <input
+                          type="number"
+                          placeholder="Amount"
+                          value={paymentAmounts[membership.id] || ''}
+                          onChange={(e) => setPaymentAmounts({ ...paymentAmounts, [membership.id]: e.target.value })}
+                        />
+                        <button
+                          className="btn-small primary"
+                          onClick={() => handleRecordPayment(membership.id)}
+                          disabled={!parseRupees(paymentAmounts[membership.id] || '')}
+                        >
+                          Record
+                        </button>
+                      </div>
+                    </td>
+                    <td>
+                      <button className="btn-small danger" onClick={() => handleRemoveMembership(membership.id)}>
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+        <p className="help-text">
+          Members pay the plan fee once; it is added to their balance. Matches saved while a plan runs take the covered amount off the member's share, and the team kitty pays it from the fees.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default Memberships;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { AppData, Match, Player, PaymentMethod, Receipt } from '../types';
+import { recordReceipt } from '../utils/calculations';
+import { getClubName } from '../utils/clubs';
+import { getPaymentMethodLabel } from '../utils/collections';
+import { getPlayerCredit } from '../utils/credits';
+import { buildPlayerLedger, getAllMatches, updateMatch } from '../utils/ledger';
+import { formatCurrency, parseRupees } from '../utils/money';
+import { formatMatchDate } from '../utils/schedule';
+import { getPartyName } from '../utils/settlement';
+import ReceiptFields from './ReceiptFields';
+import { format, parseISO } from 'date-fns';
+
+interface PaymentHistoryProps {
+  appData: AppData;
+  player: Player;
+  onAppDataUpdate: (data: AppData) => void;
+}
+
+interface ReceiptRow {
+  receipt: Receipt;
+  match: Match;
+}
+
+const PaymentHistory: React.FC<PaymentHistoryProps> = ({ appData, player, onAppDataUpdate }) => {
+  const playerLedger = buildPlayerLedger(appData, player);
+  const credit = getPlayerCredit(appData, player);
+  // The ledger only covers open weekends, so payments in a closed period cannot be picked here
+  const openEntries = playerLedger.weekends
+    .flatMap(weekend => weekend.matches)
+    .filter(entry => entry.payment && entry.payment.status !== 'paid');
+
+  const [receiptForm, setReceiptForm] = useState({
+    matchId: openEntries.length > 0 ? openEntries[openEntries.length - 1].match.id : '',
+    amount: '',
+    method: 'cash' as PaymentMethod,
+    collectedBy: '',
+    note: ''
+  });
+
+  const receiptRows: ReceiptRow[] = getAllMatches(appData)
+    .flatMap(match => match.payments
+      .filter(payment => payment.playerId === player.id)
+      .flatMap(payment => payment.receipts.map(receipt => ({ receipt, match }))))
+    .sort((a, b) => b.receipt.date.localeCompare(a.receipt.date));
+
+  const formatMatchLabel = (match: Match) => {
+    return `${formatMatchDate(match)} - ${getClubName(appData, match.clubId)}`;
+  };
+
+  const formatReceiptDate = (date: string) => {
+    try {
+      return format(parseISO(date), 'MMM dd, yyyy HH:mm');
+    } catch {
+      return date;
+    }
+  };
+
+  const handleRecordReceipt = () => {
+    const amount = parseRupees(receiptForm.amount);
+    if (!receiptForm.matchId || amount === 0) return;
+
+    const updatedData = updateMatch(appData, receiptForm.matchId, match => ({
+      ...match,
+      payments: match.payments.map(payment =>
+        payment.playerId === player.id
+          ? recordReceipt(payment, amount, {
+            method: receiptForm.method,
+            note: receiptForm.note.trim() || undefined,
+            collectedBy: receiptForm.collectedBy || undefined
+          })
+          : payment
+      )
+    }));
+    onAppDataUpdate(updatedData);
+    setReceiptForm({ ...receiptForm, amount: '', note: '' });
+  };
+
+  return (
+    <div className="payment-history">
+      <div className="data-section">
+        <h4>Record Payment</h4>
+        {openEntries.length === 0 ? (
+          <p className="help-text">No outstanding match payments for this player.</p>
+        ) : (
+          <div className="form-row">
+            <select
+              value={receiptForm.matchId}
+              onChange={(e) => setReceiptForm({ ...receiptForm, matchId: e.target.value })}
+            >
+              {openEntries.map(entry => (
+                <option key={entry.match.id} value={entry.match.id}>
+                  {formatMatchLabel(entry.match)} (owes {formatCurrency(entry.balance - (entry.payment?.creditApplied || 0))})
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              placeholder="Amount"
+              value={receiptForm.amount}
+              onChange={(e) => setReceiptForm({ ...receiptForm, amount: e.target.value })}
+            />
+            <ReceiptFields
+              appData={appData}
+              method={receiptForm.method}
+              collectedBy={receiptForm.collectedBy}
+              onChange={(updates) => setReceiptForm({ ...receiptForm, ...updates })}
+            />
+            <input
+              type="text"
+              placeholder="Note"
+              value={receiptForm.note}
+              onChange={(e) => setReceiptForm({ ...receiptForm, note: e.target.value })}
+            />
+            <button
+              className="btn-small primary"
+              onClick={handleRecordReceipt}
+              disabled={!receiptForm.matchId || !parseRupees(receiptForm.amount)}
+            >
+              Record
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="data-section">
+        <h4>Receipts</h4>
+        {receiptRows.length === 0 ? (
+          <p className="help-text">No payments recorded yet.</p>
+        ) : (
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Received</th>
+                <th>Match</th>
+                <th>Amount</th>
+                <th>Method</th>
+                <th>Collected By</th>
+                <th>Note</th>
+              </tr>
+            </thead>
+            <tbody>
+              {receiptRows.map(({ receipt, match }) => (
+                <tr key={receipt.id}>
+                  <td>{formatReceiptDate(receipt.date)}</td>
+                  <td>{formatMatchLabel(match)}</td>
+                  <td className={`amount ${receipt.amount < 0 ? 'due' : 'overpaid'}`}>
+                    {formatCurrency(receipt.amount)}
+                  </td>
+                  <td>{getPaymentMethodLabel(receipt.method)}</td>
+                  <td>{receipt.collectedBy ? getPartyName(appData, receipt.collectedBy) : 'Treasurer'}</td>
+                  <td>{receipt.note || ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <p className="help-text">
+        Current balance: {formatCurrency(playerLedger.currentBalance)}
+        {credit.total > 0 && ` · Credit: ${formatCurrency(credit.applied)} applied to dues, ${formatCurrency(credit.remaining)} left`}
+      </p>
+    </div>
+  );
+};
+
+export default PaymentHistory;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { AppData, Period } from '../types';
+import { canReopenPeriod, closePeriod, getClosableWeekends, reopenPeriod } from '../utils/periods';
+import { format, parse, parseISO } from 'date-fns';
+
+interface PeriodsProps {
+  appData: AppData;
+  onAppDataUpdate: (data: AppData) => void;
+}
+
+const formatDay = (date: string, pattern: string) => {
+  try {
+    return format(parse(date, 'yyyy-MM-dd', new Date()), pattern);
+  } catch {
+    return date;
+  }
+};
+
+const formatTimestamp = (date: string) => {
+  try {
+    return format(parseISO(date), 'MMM dd, yyyy');
+  } catch {
+    return date;
+  }
+};
+
+const Periods: React.FC<PeriodsProps> = ({ appData, onAppDataUpdate }) => {
+  const closableWeekends = getClosableWeekends(appData);
+  const periods = [...(appData.periods || [])].reverse();
+
+  const [selectedEndDate, setEndDate] = useState('');
+  const [name, setName] = useState('');
+  const [reopening, setReopening] = useState<{ periodId: string; reason: string } | null>(null);
+
+  // Defaults to the latest closable weekend, and moves on once the chosen one has been closed
+  const endDate = closableWeekends.some(weekend => weekend.startDate === selectedEndDate)
+    ? selectedEndDate
+    : closableWeekends.length > 0 ? closableWeekends[closableWeekends.length - 1].startDate : '';
+
+  const getDefaultName = () => {
+    if (closableWeekends.length === 0 || !endDate) return '';
+    return `${formatDay(closableWeekends[0].startDate, 'MMM dd')} - ${formatDay(endDate, 'MMM dd, yyyy')}`;
+  };
+
+  const handleClose = () => {
+    const periodName = name.trim() || getDefaultName();
+    const count = closableWeekends.filter(weekend => weekend.startDate <= endDate).length;
+    if (window.confirm(`Close "${periodName}"? Balances for ${count} weekend(s) will be carried forward and those weekends become read-only.`)) {
+      onAppDataUpdate(closePeriod(appData, endDate, periodName));
+      setName('');
+    }
+  };
+
+  const handleReopen = (period: Period) => {
+    if (!reopening) return;
+    try {
+      onAppDataUpdate(reopenPeriod(appData, period.id, reopening.reason));
+      setReopening(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not reopen the period.');
+    }
+  };
+
+  return (
+    <div className="periods">
+      <div className="data-section">
+        <h4>Close a Period</h4>
+        {closableWeekends.length === 0 ? (
+          <p className="help-text">Every weekend before the current one is already closed.</p>
+        ) : (
+          <>
+            <div className="form-row">
+              <div className="cost-input-group">
+                <label>Up to the weekend of</label>
+                <select value={endDate} onChange={(e) => setEndDate(e.target.value)}>
+                  {closableWeekends.map(weekend => (
+                    <option key={weekend.id} value={weekend.startDate}>
+                      {formatDay(weekend.startDate, 'MMM dd, yyyy')}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="cost-input-group">
+                <label>Name</label>
+                <input
+                  type="text"
+                  placeholder={getDefaultName()}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+            </div>
+            <button className="btn primary" onClick={handleClose} disabled={!endDate}>
+              Close Period
+            </button>
+          </>
+        )}
+        <p className="help-text">
+          Each player's balance becomes their opening balance for later weekends. The current weekend always stays open.
+        </p>
+      </div>
+
+      <div className="data-section">
+        <h4>Closed Periods</h4>
+        {periods.length === 0 ? (
+          <p className="help-text">No periods closed yet.</p>
+        ) : (
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Period</th>
+                <th>Weekends</th>
+                <th>Closed</th>
+                <th>Status</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {periods.map(period => (
+                <tr key={period.id}>
+                  <td>{period.name}</td>
+                  <td>{formatDay(period.startDate, 'MMM dd')} - {formatDay(period.endDate, 'MMM dd, yyyy')}</td>
+                  <td>{formatTimestamp(period.closedAt)}</td>
+                  <td>
+                    {period.status === 'closed' ? 'Closed' : (
+                      <>
+                        Reopened {period.reopenedAt && formatTimestamp(period.reopenedAt)}
+                        <small className="cost-breakdown">{period.reopenReason}</small>
+                      </>
+                    )}
+                  </td>
+                  <td>
+                    {canReopenPeriod(appData, period) && (
+                      reopening?.periodId === period.id ? (
+                        <div className="form-row">
+                          <input
+                            type="text"
+                            placeholder="Reason for reopening"
+                            value={reopening.reason}
+                            onChange={(e) => setReopening({ ...reopening, reason: e.target.value })}
+                            autoFocus
+                          />
+                          <button
+                            className="btn-small danger"
+                            onClick={() => handleReopen(period)}
+                            disabled={!reopening.reason.trim()}
+                          >
+                            Reopen
+                          </button>
+                          <button className="btn-small secondary" onClick={() => setReopening(null)}>
+                            Cancel
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          className="btn-small secondary"
+                          onClick={() => setReopening({ periodId: period.id, reason: '' })}
+                        >
+                          Reopen…
+                        </button>
+                      )
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Periods;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Player } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { formatCurrency } from '../utils/money';
 
 interface PlayerManagementProps {
   players: Player[];
@@ -64,8 +65,8 @@ const PlayerManagement: React.FC<PlayerManagementProps> = ({ players, onPlayersU
   };
 
   const formatBalance = (balance: number) => {
-    if (balance > 0) return `Owes ₹${balance}`;
-    if (balance < 0) return `Overpaid ₹${Math.abs(balance)}`;
+    if (balance > 0) return `Owes ${formatCurrency(balance)}`;
+    if (balance < 0) return `Overpaid ${formatCurrency(Math.abs(balance))}`;
     return 'Even';
   };
 
@@ -0,0 +1,42 @@
+import React from 'react';
+import { AppData, PaymentMethod } from '../types';
+import { PAYMENT_METHODS, getCollectorIds } from '../utils/collections';
+import { getPartyName } from '../utils/settlement';
+import { getSettings } from '../utils/settings';
+
+interface ReceiptFieldsProps {
+  appData: AppData;
+  method: PaymentMethod;
+  collectedBy: string; // empty when the treasurer took it
+  onChange: (updates: { method: PaymentMethod; collectedBy: string }) => void;
+}
+
+// How a payment came in and who took it, for the forms that record receipts
+const ReceiptFields: React.FC<ReceiptFieldsProps> = ({ appData, method, collectedBy, onChange }) => {
+  const { treasurerId } = getSettings(appData);
+
+  return (
+    <>
+      <select
+        value={method}
+        onChange={(e) => onChange({ method: e.target.value as PaymentMethod, collectedBy })}
+      >
+        {PAYMENT_METHODS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <select
+        value={collectedBy}
+        onChange={(e) => onChange({ method, collectedBy: e.target.value })}
+        title="Who took the money"
+      >
+        <option value="">{treasurerId ? `Treasurer (${getPartyName(appData, treasurerId)})` : 'Treasurer'}</option>
+        {getCollectorIds(appData).map(collectorId => (
+          <option key={collectorId} value={collectorId}>{getPartyName(appData, collectorId)}</option>
+        ))}
+      </select>
+    </>
+  );
+};
+
+export default ReceiptFields;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { AppData } from '../types';
+import { calculateMatchTotalCost } from '../utils/calculations';
+import { getClubTotals, getClubs } from '../utils/clubs';
+import { formatCurrency } from '../utils/money';
+import { getPeriodBalances } from '../utils/periods';
+import { getCategoryTotals, getSeasonMatches, getSeasons } from '../utils/reports';
+
+interface ReportsProps {
+  appData: AppData;
+}
+
+const Reports: React.FC<ReportsProps> = ({ appData }) => {
+  const seasons = getSeasons(appData);
+  const [season, setSeason] = useState<string>(seasons[0] || '');
+
+  const [clubId, setClubId] = useState<string>('');
+
+  const seasonMatches = getSeasonMatches(appData, season || undefined);
+  const matches = clubId ? seasonMatches.filter(match => match.clubId === clubId) : seasonMatches;
+  const clubTotals = getClubTotals(appData, seasonMatches);
+  const seasonSpend = clubTotals.reduce((sum, total) => sum + total.spent, 0);
+  const categoryTotals = getCategoryTotals(matches);
+  const totalSpend = matches.reduce((sum, match) => sum + calculateMatchTotalCost(match), 0);
+
+  const periods = [...(appData.periods || [])].reverse();
+  const [periodId, setPeriodId] = useState<string>(periods[0]?.id || '');
+  const period = periods.find(p => p.id === periodId);
+
+  const getPlayerName = (playerId: string) => {
+    const player = appData.players.find(p => p.id === playerId);
+    if (!player) return 'Former player';
+    if (player.nickname && player.nickname.trim()) return player.nickname.trim();
+    return player.lastName ? `${player.firstName} ${player.lastName}` : player.firstName;
+  };
+
+  return (
+    <div className="reports">
+      <div className="data-section">
+        <div className="form-row">
+          <label>Season</label>
+          <select value={season} onChange={(e) => setSeason(e.target.value)}>
+            {seasons.map(s => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+            <option value="">All seasons</option>
+          </select>
+          <label>Club</label>
+          <select value={clubId} onChange={(e) => setClubId(e.target.value)}>
+            <option value="">All clubs</option>
+            {getClubs(appData).map(club => (
+              <option key={club.id} value={club.id}>{club.name}</option>
+            ))}
+          </select>
+        </div>
+        <p className="help-text">
+          {matches.length} matches, {formatCurrency(totalSpend)} spent
+        </p>
+      </div>
+
+      <div className="data-section">
+        <h4>Spend by Club</h4>
+        {clubTotals.length === 0 ? (
+          <p className="help-text">No matches recorded for this season.</p>
+        ) : (
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Club</th>
+                <th>Matches</th>
+                <th>Spent</th>
+                <th>Outstanding</th>
+                <th>Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {clubTotals.map(total => (
+                <tr key={total.clubId}>
+                  <td>
+                    <span className="club-badge" style={{ background: total.colour }}>{total.name}</span>
+                  </td>
+                  <td>{total.matchCount}</td>
+                  <td className="amount">{formatCurrency(total.spent)}</td>
+                  <td className={`amount ${total.outstanding > 0 ? 'due' : ''}`}>{formatCurrency(total.outstanding)}</td>
+                  <td>{seasonSpend > 0 ? `${Math.round((total.spent / seasonSpend) * 100)}%` : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="data-section">
+        <h4>Spend by Category</h4>
+        {categoryTotals.length === 0 ? (
+          <p className="help-text">No expenses recorded for this season.</p>
+        ) : (
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Category</th>
+                <th>Matches</th>
+                <th>Spent</th>
+                <th>Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {categoryTotals.map(total => (
+                <tr key={total.category}>
+                  <td>{total.label}</td>
+                  <td>{total.matchCount}</td>
+                  <td className="amount">{formatCurrency(total.amount)}</td>
+                  <td>{totalSpend > 0 ? `${Math.round((total.amount / totalSpend) * 100)}%` : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="data-section">
+        <h4>Balances by Period</h4>
+        {!period ? (
+          <p className="help-text">No periods closed yet.</p>
+        ) : (
+          <>
+            <div className="form-row">
+              <select value={period.id} onChange={(e) => setPeriodId(e.target.value)}>
+                {periods.map(p => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}{p.status === 'reopened' ? ' (reopened)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <table className="payment-table">
+              <thead>
+                <tr>
+                  <th>Player</th>
+                  <th>Opening</th>
+                  <th>Due</th>
+                  <th>Late Fees</th>
+                  <th>Paid</th>
+                  <th>Fronted</th>
+                  <th>Closing</th>
+                </tr>
+              </thead>
+              <tbody>
+                {getPeriodBalances(appData, period).map(balance => (
+                  <tr key={balance.playerId}>
+                    <td>{getPlayerName(balance.playerId)}</td>
+                    <td className="amount">{formatCurrency(balance.opening)}</td>
+                    <td className="amount">{formatCurrency(balance.due)}</td>
+                    <td className="amount">{balance.lateFee ? formatCurrency(balance.lateFee) : '-'}</td>
+                    <td className="amount">{formatCurrency(balance.paid)}</td>
+                    <td className="amount">{formatCurrency(balance.fronted)}</td>
+                    <td className={`amount ${balance.closing > 0 ? 'due' : balance.closing < 0 ? 'overpaid' : ''}`}>
+                      {formatCurrency(balance.closing)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {period.status === 'reopened' && (
+              <p className="help-text">Reopened: {period.reopenReason}. Closing balances are as they were when the period was closed.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Reports;
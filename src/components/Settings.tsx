@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { AppData, AppSettings, LateFeeRule, Player, RoundingPolicy } from '../types';
+import { resetUnpaidLateFees } from '../utils/lateFees';
+import { fromPaise, parseRupees } from '../utils/money';
+import { getSettings } from '../utils/settings';
+import Clubs from './Clubs';
+import MatchTemplates from './MatchTemplates';
+
+interface SettingsProps {
+  appData: AppData;
+  onAppDataUpdate: (data: AppData) => void;
+}
+
+const ROUNDING_UNITS: { value: number; label: string }[] = [
+  { value: 100, label: 'Nearest ₹1' },
+  { value: 1000, label: 'Nearest ₹10' }
+];
+
+// The fee and cap as typed, saved once the field is left
+const toLateFeeForm = (rule?: LateFeeRule) => ({
+  amount: !rule || !rule.amount ? '' : (rule.type === 'flat' ? fromPaise(rule.amount) : rule.amount).toString(),
+  cap: rule?.cap !== undefined ? fromPaise(rule.cap).toString() : ''
+});
+
+const Settings: React.FC<SettingsProps> = ({ appData, onAppDataUpdate }) => {
+  const settings = getSettings(appData);
+  const { rounding } = settings;
+  const [lateFeeForm, setLateFeeForm] = useState(() => toLateFeeForm(settings.lateFee));
+
+  const updateSettings = (updates: Partial<AppSettings>) => {
+    onAppDataUpdate({ ...appData, settings: { ...settings, ...updates } });
+  };
+
+  const updateRounding = (updates: Partial<RoundingPolicy>) => {
+    updateSettings({ rounding: { ...rounding, ...updates } });
+  };
+
+  // Fees still unpaid are charged again under the new rule
+  const saveLateFee = (lateFee: LateFeeRule | undefined) => {
+    onAppDataUpdate(resetUnpaidLateFees({ ...appData, settings: { ...settings, lateFee } }));
+    setLateFeeForm(toLateFeeForm(lateFee));
+  };
+
+  const handleLateFeeTypeChange = (value: string) => {
+    saveLateFee(value === 'none' ? undefined : { type: value as LateFeeRule['type'], amount: 0 });
+  };
+
+  const handleLateFeeBlur = () => {
+    const current = settings.lateFee;
+    if (!current) return;
+    const lateFee: LateFeeRule = {
+      type: current.type,
+      amount: current.type === 'flat' ? parseRupees(lateFeeForm.amount) : Math.max(0, parseFloat(lateFeeForm.amount) || 0),
+      cap: lateFeeForm.cap === '' ? undefined : parseRupees(lateFeeForm.cap)
+    };
+    if (lateFee.amount === current.amount && lateFee.cap === current.cap) return;
+    saveLateFee(lateFee);
+  };
+
+  const toggleRemainderPlayer = (playerId: string) => {
+    const current = rounding.remainderPlayerIds || [];
+    const remainderPlayerIds = current.includes(playerId)
+      ? current.filter(id => id !== playerId)
+      : [...current, playerId];
+    updateRounding({ remainderPlayerIds });
+  };
+
+  const toggleCollector = (playerId: string) => {
+    const current = settings.collectorIds || [];
+    const collectorIds = current.includes(playerId)
+      ? current.filter(id => id !== playerId)
+      : [...current, playerId];
+    updateSettings({ collectorIds });
+  };
+
+  const getPlayerDisplayName = (player: Player): string => {
+    if (player.nickname && player.nickname.trim()) {
+      return player.nickname.trim();
+    }
+    return player.lastName ? `${player.firstName} ${player.lastName}` : player.firstName;
+  };
+
+  return (
+    <div className="settings">
+      <Clubs appData={appData} onAppDataUpdate={onAppDataUpdate} />
+
+      <MatchTemplates appData={appData} onAppDataUpdate={onAppDataUpdate} />
+
+      <div className="data-section">
+        <h4>Cost Splitting</h4>
+        <div className="form-row">
+          <div className="cost-input-group">
+            <label>Round each share to</label>
+            <select
+              value={rounding.unit}
+              onChange={(e) => updateRounding({ unit: parseInt(e.target.value, 10) })}
+            >
+              {ROUNDING_UNITS.map(unit => (
+                <option key={unit.value} value={unit.value}>{unit.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="cost-input-group">
+            <label>Leftover goes to</label>
+            <select
+              value={rounding.remainder}
+              onChange={(e) => updateRounding({ remainder: e.target.value as RoundingPolicy['remainder'] })}
+            >
+              <option value="players">Players (shares rounded down)</option>
+              <option value="kitty">Team kitty (shares rounded up)</option>
+            </select>
+          </div>
+        </div>
+        <p className="help-text">
+          Shares always add up to the match cost exactly. Changes apply to matches created or edited from now on.
+        </p>
+
+        {rounding.remainder === 'players' && (
+          <div className="player-selection-section">
+            <h5>Players who pick up leftovers first</h5>
+            <div className="player-list">
+              {appData.players.map(player => (
+                <label key={player.id} className="player-item">
+                  <input
+                    type="checkbox"
+                    checked={(rounding.remainderPlayerIds || []).includes(player.id)}
+                    onChange={() => toggleRemainderPlayer(player.id)}
+                  />
+                  <span className="player-name">{getPlayerDisplayName(player)}</span>
+                </label>
+              ))}
+            </div>
+            <p className="help-text">If none of these played, leftovers go to players in selection order.</p>
+          </div>
+        )}
+      </div>
+
+      <div className="data-section">
+        <h4>Due Dates and Late Fees</h4>
+        <div className="form-row">
+          <div className="cost-input-group">
+            <label>Days to pay after a match</label>
+            <input
+              type="number"
+              min="0"
+              value={settings.graceDays}
+              onChange={(e) => updateSettings({ graceDays: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            />
+          </div>
+          <div className="cost-input-group">
+            <label>Late fee</label>
+            <select
+              value={settings.lateFee ? settings.lateFee.type : 'none'}
+              onChange={(e) => handleLateFeeTypeChange(e.target.value)}
+            >
+              <option value="none">No late fee</option>
+              <option value="flat">Flat amount</option>
+              <option value="percent">Percentage of what is overdue</option>
+            </select>
+          </div>
+          {settings.lateFee && (
+            <div className="cost-input-group">
+              <label>{settings.lateFee.type === 'flat' ? 'Fee (₹)' : 'Fee (%)'}</label>
+              <input
+                type="number"
+                min="0"
+                value={lateFeeForm.amount}
+                onChange={(e) => setLateFeeForm({ ...lateFeeForm, amount: e.target.value })}
+                onBlur={handleLateFeeBlur}
+              />
+            </div>
+          )}
+          {settings.lateFee && (
+            <div className="cost-input-group">
+              <label>Capped at (₹)</label>
+              <input
+                type="number"
+                min="0"
+                placeholder="No cap"
+                value={lateFeeForm.cap}
+                onChange={(e) => setLateFeeForm({ ...lateFeeForm, cap: e.target.value })}
+                onBlur={handleLateFeeBlur}
+              />
+            </div>
+          )}
+        </div>
+        <p className="help-text">
+          The grace period applies to payments created from now on. A late fee is charged once per overdue match, on top of the player's share; changing the fee charges any still unpaid again under the new one.
+        </p>
+      </div>
+
+      <div className="data-section">
+        <h4>Treasurer and Collectors</h4>
+        <div className="form-row">
+          <div className="cost-input-group">
+            <label>Treasurer</label>
+            <select
+              value={settings.treasurerId || ''}
+              onChange={(e) => updateSettings({ treasurerId: e.target.value || undefined })}
+            >
+              <option value="">Not set</option>
+              {appData.players.map(player => (
+                <option key={player.id} value={player.id}>{getPlayerDisplayName(player)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="player-selection-section">
+          <h5>Players who collect payments for the team</h5>
+          <div className="player-list">
+            {appData.players.filter(player => player.id !== settings.treasurerId).map(player => (
+              <label key={player.id} className="player-item">
+                <input
+                  type="checkbox"
+                  checked={(settings.collectorIds || []).includes(player.id)}
+                  onChange={() => toggleCollector(player.id)}
+                />
+                <span className="player-name">{getPlayerDisplayName(player)}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <p className="help-text">
+          Payments recorded with a collector stay with them until they hand them over to the treasurer. Payments marked as paid from the dashboard go to the treasurer.
+        </p>
+      </div>
+
+      <div className="data-section">
+        <h4>Weekends</h4>
+        <div className="form-row">
+          <div className="cost-input-group">
+            <label>Weekends missed while the app was closed</label>
+            <select
+              value={settings.missingWeekends}
+              onChange={(e) => updateSettings({ missingWeekends: e.target.value as AppSettings['missingWeekends'] })}
+            >
+              <option value="create">Add them as weekends with no match</option>
+              <option value="skip">Skip them</option>
+            </select>
+          </div>
+        </div>
+        <p className="help-text">
+          On opening, the app moves to the weekend today falls in and adds it if needed.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
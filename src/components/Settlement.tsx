@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { AppData, PaymentMethod } from '../types';
+import { formatCurrency } from '../utils/money';
+import {
+  Transfer,
+  formatSettlementText,
+  getNetPositions,
+  getPartyName,
+  getSettlementTransfers,
+  recordTransfer
+} from '../utils/settlement';
+import { shareWhatsAppText } from '../utils/whatsapp';
+import ReceiptFields from './ReceiptFields';
+
+interface SettlementProps {
+  appData: AppData;
+  onAppDataUpdate: (data: AppData) => void;
+}
+
+const Settlement: React.FC<SettlementProps> = ({ appData, onAppDataUpdate }) => {
+  const transfers = getSettlementTransfers(getNetPositions(appData));
+  const [receiptDetails, setReceiptDetails] = useState({ method: 'cash' as PaymentMethod, collectedBy: '' });
+
+  const handleRecordTransfer = (transfer: Transfer) => {
+    const from = getPartyName(appData, transfer.from);
+    const to = getPartyName(appData, transfer.to);
+    if (window.confirm(`Record that ${from} paid ${to} ${formatCurrency(transfer.amount)}?`)) {
+      onAppDataUpdate(recordTransfer(appData, transfer, {
+        method: receiptDetails.method,
+        collectedBy: receiptDetails.collectedBy || undefined
+      }));
+    }
+  };
+
+  return (
+    <div className="settlement-section">
+      <div className="settlement-header">
+        <h3>Settle Up</h3>
+        {transfers.length > 0 && (
+          <button
+            className="action-btn secondary"
+            onClick={() => shareWhatsAppText(formatSettlementText(appData, transfers))}
+          >
+            WhatsApp Settlement
+          </button>
+        )}
+      </div>
+      {transfers.length > 0 && (
+        <div className="form-row">
+          <label>Payments received by</label>
+          <ReceiptFields
+            appData={appData}
+            method={receiptDetails.method}
+            collectedBy={receiptDetails.collectedBy}
+            onChange={setReceiptDetails}
+          />
+        </div>
+      )}
+      {transfers.length === 0 ? (
+        <p className="help-text">Everyone is square.</p>
+      ) : (
+        <table className="payment-table">
+          <thead>
+            <tr>
+              <th>From</th>
+              <th>To</th>
+              <th>Amount</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {transfers.map(transfer => (
+              <tr key={`${transfer.from}-${transfer.to}`}>
+                <td>{getPartyName(appData, transfer.from)}</td>
+                <td>{getPartyName(appData, transfer.to)}</td>
+                <td className="amount">{formatCurrency(transfer.amount)}</td>
+                <td>
+                  <button className="btn-small primary" onClick={() => handleRecordTransfer(transfer)}>
+                    Mark Paid
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="help-text">
+        Positions include what players paid out of pocket for match expenses. Paying the Team Kitty works like a normal payment.
+      </p>
+    </div>
+  );
+};
+
+export default Settlement;
@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { AppData, ExpenseCategory, VendorEntryType } from '../types';
+import { EXPENSE_CATEGORIES, getCategoryLabel } from '../utils/calculations';
+import { getClubName, getClubs, getDefaultClubId } from '../utils/clubs';
+import { getAllMatches } from '../utils/ledger';
+import { formatCurrency, fromPaise, parseRupees } from '../utils/money';
+import { formatMatchDate } from '../utils/schedule';
+import {
+  VENDOR_ENTRY_TYPES,
+  addVendorEntry,
+  createVendorEntry,
+  deleteVendorEntry,
+  getMatchReconciliation,
+  getVendorBalance,
+  getVendorEntryLabel,
+  getVendorLedger
+} from '../utils/vendors';
+import { format } from 'date-fns';
+
+interface VendorLedgerProps {
+  appData: AppData;
+  onAppDataUpdate: (data: AppData) => void;
+}
+
+const emptyEntryForm = (clubId: string) => ({
+  clubId,
+  type: 'payment' as VendorEntryType,
+  amount: '',
+  date: format(new Date(), 'yyyy-MM-dd'),
+  category: 'ground' as ExpenseCategory | '',
+  matchId: '',
+  note: ''
+});
+
+const formatBalance = (balance: number) => {
+  if (balance > 0) return `We owe ${formatCurrency(balance)}`;
+  if (balance < 0) return `In credit ${formatCurrency(-balance)}`;
+  return 'Settled';
+};
+
+const VendorLedger: React.FC<VendorLedgerProps> = ({ appData, onAppDataUpdate }) => {
+  const clubs = getClubs(appData);
+  const [clubId, setClubId] = useState(getDefaultClubId(appData));
+  const [entryForm, setEntryForm] = useState(() => emptyEntryForm(getDefaultClubId(appData)));
+
+  const ledger = getVendorLedger(appData, clubId);
+  const clubMatches = getAllMatches(appData).filter(match => match.clubId === clubId).reverse();
+  const formMatches = getAllMatches(appData).filter(match => match.clubId === entryForm.clubId).reverse();
+  const reconciliations = clubMatches.map(match => getMatchReconciliation(appData, match));
+
+  const handleAdd = () => {
+    const amount = parseRupees(entryForm.amount);
+    if (amount <= 0 || !entryForm.clubId) return;
+    const entry = createVendorEntry({
+      clubId: entryForm.clubId,
+      type: entryForm.type,
+      amount,
+      date: entryForm.date,
+      category: entryForm.category || undefined,
+      matchId: entryForm.matchId || undefined,
+      note: entryForm.note.trim() || undefined
+    });
+    onAppDataUpdate(addVendorEntry(appData, entry));
+    setEntryForm(emptyEntryForm(entryForm.clubId));
+  };
+
+  // Pre-fills a payment for what the match cost and has not been paid to the club yet
+  const handlePayMatch = (matchId: string) => {
+    const reconciliation = reconciliations.find(r => r.match.id === matchId);
+    if (!reconciliation) return;
+    const outstanding = Math.max(0, reconciliation.cost - reconciliation.paidToVendor);
+    setEntryForm({
+      ...emptyEntryForm(clubId),
+      matchId,
+      date: reconciliation.match.date,
+      amount: outstanding > 0 ? fromPaise(outstanding).toString() : ''
+    });
+  };
+
+  const getMatchName = (matchId?: string) => {
+    if (!matchId) return '';
+    const match = getAllMatches(appData).find(m => m.id === matchId);
+    return match ? formatMatchDate(match, 'MMM dd, yyyy') : 'Removed match';
+  };
+
+  return (
+    <div className="vendor-ledger">
+      <div className="data-section">
+        <h4>Club Balances</h4>
+        <table className="payment-table">
+          <thead>
+            <tr>
+              <th>Club</th>
+              <th>Booked</th>
+              <th>Deposits</th>
+              <th>Payments</th>
+              <th>Refunds</th>
+              <th>Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {clubs.map(club => {
+              const balance = getVendorBalance(appData, club.id);
+              return (
+                <tr key={club.id}>
+                  <td>
+                    <button className="btn-small secondary" onClick={() => setClubId(club.id)} disabled={club.id === clubId}>
+                      {club.name}
+                    </button>
+                  </td>
+                  <td className="amount">{formatCurrency(balance.booked)}</td>
+                  <td className="amount">{formatCurrency(balance.deposits)}</td>
+                  <td className="amount">{formatCurrency(balance.payments)}</td>
+                  <td className="amount">{formatCurrency(balance.refunds)}</td>
+                  <td className={`amount ${balance.balance > 0 ? 'due' : balance.balance < 0 ? 'overpaid' : ''}`}>
+                    {formatBalance(balance.balance)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="data-section">
+        <h4>Record an Entry</h4>
+        <div className="form-row">
+          <select
+            value={entryForm.clubId}
+            onChange={(e) => setEntryForm({ ...entryForm, clubId: e.target.value, matchId: '' })}
+          >
+            {clubs.map(club => (
+              <option key={club.id} value={club.id}>{club.name}</option>
+            ))}
+          </select>
+          <select
+            value={entryForm.type}
+            onChange={(e) => setEntryForm({ ...entryForm, type: e.target.value as VendorEntryType })}
+          >
+            {VENDOR_ENTRY_TYPES.map(type => (
+              <option key={type.value} value={type.value}>{type.label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            placeholder="Amount (₹)"
+            value={entryForm.amount}
+            onChange={(e) => setEntryForm({ ...entryForm, amount: e.target.value })}
+          />
+          <input
+            type="date"
+            value={entryForm.date}
+            onChange={(e) => setEntryForm({ ...entryForm, date: e.target.value })}
+          />
+        </div>
+        <div className="form-row">
+          <select
+            value={entryForm.category}
+            onChange={(e) => setEntryForm({ ...entryForm, category: e.target.value as ExpenseCategory | '' })}
+          >
+            <option value="">Any expense</option>
+            {EXPENSE_CATEGORIES.map(category => (
+              <option key={category.value} value={category.value}>{category.label}</option>
+            ))}
+          </select>
+          <select
+            value={entryForm.matchId}
+            onChange={(e) => setEntryForm({ ...entryForm, matchId: e.target.value })}
+          >
+            <option value="">No particular match</option>
+            {formMatches.map(match => (
+              <option key={match.id} value={match.id}>{formatMatchDate(match, 'MMM dd, yyyy')}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Note"
+            value={entryForm.note}
+            onChange={(e) => setEntryForm({ ...entryForm, note: e.target.value })}
+          />
+          <button
+            className="btn-small primary"
+            onClick={handleAdd}
+            disabled={parseRupees(entryForm.amount) <= 0 || !entryForm.clubId}
+          >
+            Add Entry
+          </button>
+        </div>
+        <p className="help-text">
+          Bookings are what the team owes the club. Deposits and payments are paid out of the kitty; refunds come back into it.
+        </p>
+      </div>
+
+      <div className="data-section">
+        <h4>{getClubName(appData, clubId)} Ledger</h4>
+        {ledger.length === 0 ? (
+          <p className="help-text">Nothing recorded for this club yet.</p>
+        ) : (
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Entry</th>
+                <th>For</th>
+                <th>Amount</th>
+                <th>Balance</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...ledger].reverse().map(({ entry, balance }) => (
+                <tr key={entry.id}>
+                  <td>{entry.date}</td>
+                  <td>
+                    {getVendorEntryLabel(entry.type)}
+                    {entry.note && <small className="cost-breakdown">{entry.note}</small>}
+                  </td>
+                  <td>
+                    {[entry.category ? getCategoryLabel(entry.category) : '', getMatchName(entry.matchId)].filter(Boolean).join(', ')}
+                  </td>
+                  <td className="amount">{formatCurrency(entry.amount)}</td>
+                  <td className="amount">{formatBalance(balance)}</td>
+                  <td>
+                    <button
+                      className="btn-small danger"
+                      onClick={() => onAppDataUpdate(deleteVendorEntry(appData, entry.id))}
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="data-section">
+        <h4>{getClubName(appData, clubId)} Matches: Collected vs Paid</h4>
+        {reconciliations.length === 0 ? (
+          <p className="help-text">No matches at this club yet.</p>
+        ) : (
+          <table className="payment-table">
+            <thead>
+              <tr>
+                <th>Match</th>
+                <th>Cost</th>
+                <th>Collected</th>
+                <th>Paid to Club</th>
+                <th>Paid Back to Players</th>
+                <th>Surplus / Deficit</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {reconciliations.map(reconciliation => (
+                <tr key={reconciliation.match.id}>
+                  <td>{formatMatchDate(reconciliation.match, 'MMM dd, yyyy')}</td>
+                  <td className="amount">{formatCurrency(reconciliation.cost)}</td>
+                  <td className="amount">{formatCurrency(reconciliation.collected)}</td>
+                  <td className="amount">{formatCurrency(reconciliation.paidToVendor)}</td>
+                  <td className="amount">{formatCurrency(reconciliation.reimbursed)}</td>
+                  <td className={`amount ${reconciliation.difference < 0 ? 'due' : reconciliation.difference > 0 ? 'overpaid' : ''}`}>
+                    {reconciliation.difference < 0 ? '-' : ''}{formatCurrency(Math.abs(reconciliation.difference))}
+                  </td>
+                  <td>
+                    {reconciliation.paidToVendor < reconciliation.cost && (
+                      <button className="btn-small secondary" onClick={() => handlePayMatch(reconciliation.match.id)}>
+                        Record Payment
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="help-text">
+          Expenses a player fronted are paid back from the kitty, so they count against the match rather than the club.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default VendorLedger;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { AppData } from '../types';
+import { isWeekendLocked } from '../utils/ledger';
+import { formatCurrency } from '../utils/money';
+import { getWeekendTotals } from '../utils/weekends';
+import { addDays, format, parse } from 'date-fns';
+
+interface WeekendTimelineProps {
+  appData: AppData;
+  onSelectWeekend: (weekendId: string) => void;
+  onGoToDate: (date: string) => void;
+}
+
+const formatWeekend = (startDate: string) => {
+  try {
+    const saturday = parse(startDate, 'yyyy-MM-dd', new Date());
+    return `${format(saturday, 'MMM dd')} - ${format(addDays(saturday, 1), 'MMM dd, yyyy')}`;
+  } catch {
+    return startDate;
+  }
+};
+
+const WeekendTimeline: React.FC<WeekendTimelineProps> = ({ appData, onSelectWeekend, onGoToDate }) => {
+  const [date, setDate] = useState('');
+  const totals = getWeekendTotals(appData).reverse();
+  const collected = totals.reduce((sum, total) => sum + total.collected, 0);
+  const outstanding = totals.reduce((sum, total) => sum + total.outstanding, 0);
+
+  return (
+    <div className="weekend-timeline">
+      <div className="data-section">
+        <div className="form-row">
+          <label>Go to the weekend of</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          <button className="btn-small primary" onClick={() => date && onGoToDate(date)} disabled={!date}>
+            Go
+          </button>
+        </div>
+        <p className="help-text">Dates are moved to the Saturday they fall after. A weekend not yet recorded is added.</p>
+      </div>
+
+      <table className="payment-table">
+        <thead>
+          <tr>
+            <th>Weekend</th>
+            <th>Matches</th>
+            <th>Due</th>
+            <th>Collected</th>
+            <th>Outstanding</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {totals.map(total => (
+            <tr key={total.weekend.id}>
+              <td>
+                {formatWeekend(total.weekend.startDate)}
+                {isWeekendLocked(appData, total.weekend) && <span className="locked-badge" title="In a closed period"> 🔒</span>}
+              </td>
+              <td>{total.matchCount > 0 ? total.matchCount : 'No match'}</td>
+              <td className="amount">{formatCurrency(total.due)}</td>
+              <td className="amount overpaid">{formatCurrency(total.collected)}</td>
+              <td className={`amount ${total.outstanding > 0 ? 'due' : ''}`}>{formatCurrency(total.outstanding)}</td>
+              <td>
+                {total.weekend.id === appData.currentWeekendId ? (
+                  <strong>Viewing</strong>
+                ) : (
+                  <button className="btn-small secondary" onClick={() => onSelectWeekend(total.weekend.id)}>
+                    View
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={3}><strong>All weekends</strong></td>
+            <td className="amount overpaid"><strong>{formatCurrency(collected)}</strong></td>
+            <td className="amount due"><strong>{formatCurrency(outstanding)}</strong></td>
+            <td></td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default WeekendTimeline;
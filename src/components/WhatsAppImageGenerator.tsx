@@ -1,7 +1,9 @@
 import React, { useRef } from 'react';
-import { AppData, Player, Match, Weekend } from '../types';
-import { getPlayerPayment } from '../utils/calculations';
-import { format, parse, addDays } from 'date-fns';
+import { AppData, Player } from '../types';
+import { getClub, getClubTotals } from '../utils/clubs';
+import { buildLedger, getCurrentMatchEntry, getCurrentWeekend, getWeekendMatches } from '../utils/ledger';
+import { formatCurrency } from '../utils/money';
+import { formatMatchDate } from '../utils/schedule';
 import html2canvas from 'html2canvas';
 
 interface WhatsAppImageGeneratorProps {
@@ -11,91 +13,29 @@ interface WhatsAppImageGeneratorProps {
 const WhatsAppImageGenerator: React.FC<WhatsAppImageGeneratorProps> = ({ appData }) => {
   const canvasRef = useRef<HTMLDivElement>(null);
 
-  const getCurrentWeekend = (): Weekend | undefined => {
-    return appData.weekends.find(w => w.id === appData.currentWeekendId);
-  };
-
-  const getAllMatches = (): Match[] => {
-    return appData.weekends.flatMap(weekend => [
-      weekend.saturdayMatch,
-      weekend.sundayMatch,
-      ...weekend.weekdayMatches
-    ].filter(Boolean) as Match[]);
-  };
-
-  const getWeekendMatches = (weekend: Weekend): Match[] => {
-    return [
-      weekend.saturdayMatch,
-      weekend.sundayMatch,
-      ...weekend.weekdayMatches
-    ].filter(Boolean) as Match[];
-  };
-
-  const getPlayersWithPendingPayments = (matches: Match[]): { player: Player; prevBalance: number; satAmount: number; sunAmount: number; totalDue: number; status: string }[] => {
-    const currentWeekend = getCurrentWeekend();
-    if (!currentWeekend) return [];
-
-    const playerDataMap: {[playerId: string]: any} = {};
-
-    // Get all players who have any payments or previous balances
-    appData.players.forEach(player => {
-      // Calculate previous balance
-      const previousWeekends = appData.weekends.filter(w => w.id !== currentWeekend.id);
-      const previousMatches = previousWeekends.flatMap(w => getWeekendMatches(w));
-      
-      let prevBalance = player.balance;
-      previousMatches.forEach(match => {
-        const payment = getPlayerPayment(match, player.id);
-        if (payment) {
-          prevBalance += (payment.amountPaid - payment.amountDue);
-        } else if (match.playerIds.includes(player.id)) {
-          const costPerPlayer = (match.groundCost + match.cafeteriaCost) / match.playerIds.length;
-          prevBalance += costPerPlayer;
-        }
-      });
-
-      // Get current weekend payments
-      const satPayment = currentWeekend.saturdayMatch ? getPlayerPayment(currentWeekend.saturdayMatch, player.id) : undefined;
-      const sunPayment = currentWeekend.sundayMatch ? getPlayerPayment(currentWeekend.sundayMatch, player.id) : undefined;
-      
-      const satAmount = satPayment ? (satPayment.amountDue - satPayment.amountPaid) : 0;
-      const sunAmount = sunPayment ? (sunPayment.amountDue - sunPayment.amountPaid) : 0;
-      const totalDue = prevBalance + satAmount + sunAmount;
-
-      // Determine status
-      let status = 'Paid';
-      const currentPayments = [satPayment, sunPayment].filter(Boolean);
-      if (currentPayments.length > 0) {
-        if (currentPayments.some(p => p!.status === 'pending')) {
-          status = 'Pending';
-        } else if (currentPayments.some(p => p!.status === 'partial')) {
-          status = 'Partial';
-        }
-      } else if (totalDue > 0) {
-        status = 'Pending';
-      }
-
-      // Only include if there are any amounts due or previous balance
-      if (totalDue > 0 || prevBalance !== 0 || satAmount > 0 || sunAmount > 0) {
-        playerDataMap[player.id] = {
-          player,
-          prevBalance,
-          satAmount,
-          sunAmount,
-          totalDue,
-          status
-        };
-      }
-    });
-
-    return Object.values(playerDataMap).filter((data: any) => data.totalDue > 0);
+  const getPlayersWithPendingPayments = (): { player: Player; prevBalance: number; matchAmounts: { [matchId: string]: number }; totalDue: number; status: string }[] => {
+    const ledger = buildLedger(appData);
+    if (!ledger.currentWeekend) return [];
+    const matches = getWeekendMatches(ledger.currentWeekend);
+
+    return ledger.players
+      .filter(playerLedger => playerLedger.currentBalance > 0)
+      .map(playerLedger => ({
+        player: playerLedger.player,
+        prevBalance: playerLedger.prevBalance,
+        matchAmounts: Object.fromEntries(
+          matches.map(match => [match.id, getCurrentMatchEntry(playerLedger, match.id)?.balance || 0])
+        ),
+        totalDue: playerLedger.currentBalance,
+        status: playerLedger.status.charAt(0).toUpperCase() + playerLedger.status.slice(1)
+      }));
   };
 
 
   const generateImage = async () => {
     if (!canvasRef.current) return;
 
-    const pendingPlayers = getPlayersWithPendingPayments(getAllMatches());
+    const pendingPlayers = getPlayersWithPendingPayments();
 
     if (pendingPlayers.length === 0) {
       alert('No players with pending payments found!');
@@ -130,23 +70,23 @@ const WhatsAppImageGenerator: React.FC<WhatsAppImageGeneratorProps> = ({ appData
     }
   };
 
-  const currentWeekend = getCurrentWeekend();
-  const pendingPlayers = getPlayersWithPendingPayments(getAllMatches());
+  const currentWeekend = getCurrentWeekend(appData);
+  const currentMatches = currentWeekend ? getWeekendMatches(currentWeekend) : [];
+  const pendingPlayers = getPlayersWithPendingPayments();
 
   const getPlayerName = (player: Player) => {
     return player.lastName ? `${player.firstName} ${player.lastName}` : player.firstName;
   };
 
-  const formatMatchDate = (weekend: Weekend, type: 'saturday' | 'sunday') => {
-    try {
-      const startDate = parse(weekend.startDate, 'yyyy-MM-dd', new Date());
-      const targetDate = type === 'saturday' ? startDate : addDays(startDate, 1);
-      return format(targetDate, 'MMM dd');
-    } catch {
-      return type === 'saturday' ? 'Aug 30' : 'Aug 31';
-    }
+  const renderClub = (clubId?: string) => {
+    const club = clubId ? getClub(appData, clubId) : undefined;
+    if (!club) return null;
+    return <span className="club-badge" style={{ background: club.colour }}>{club.name}</span>;
   };
 
+  // What each club's matches this weekend are still owed
+  const clubTotals = getClubTotals(appData, currentMatches);
+
   const getStatusCounts = () => {
     let pending = 0, partial = 0, paid = 0;
     pendingPlayers.forEach(player => {
@@ -179,9 +119,15 @@ const WhatsAppImageGenerator: React.FC<WhatsAppImageGeneratorProps> = ({ appData
 
           {/* Match Dates */}
           <div className="match-dates">
-            {currentWeekend && (
+            {currentMatches.length > 0 && (
               <span>
-                Match Dates: Sat, {formatMatchDate(currentWeekend, 'saturday')} & Sun, {formatMatchDate(currentWeekend, 'sunday')}
+                Match Dates:{' '}
+                {currentMatches.map((match, index) => (
+                  <React.Fragment key={match.id}>
+                    {index > 0 && ' & '}
+                    {formatMatchDate(match)} {renderClub(match.clubId)}
+                  </React.Fragment>
+                ))}
               </span>
             )}
           </div>
@@ -191,8 +137,12 @@ const WhatsAppImageGenerator: React.FC<WhatsAppImageGeneratorProps> = ({ appData
             <div className="table-header-row">
               <div className="cell player-col">Player</div>
               <div className="cell prev-col">Prev</div>
-              <div className="cell match-col">{currentWeekend && formatMatchDate(currentWeekend, 'saturday')}</div>
-              <div className="cell match-col">{currentWeekend && formatMatchDate(currentWeekend, 'sunday')}</div>
+              {currentMatches.map(match => (
+                <div key={match.id} className="cell match-col">
+                  {formatMatchDate(match, 'MMM dd')}
+                  {renderClub(match.clubId)}
+                </div>
+              ))}
               <div className="cell paid-col">Paid</div>
               <div className="cell total-col">Total</div>
               <div className="cell status-col">Status</div>
@@ -202,17 +152,16 @@ const WhatsAppImageGenerator: React.FC<WhatsAppImageGeneratorProps> = ({ appData
               <div key={player.player.id} className="table-row">
                 <div className="cell player-col">{getPlayerName(player.player)}</div>
                 <div className="cell prev-col">
-                  {player.prevBalance > 0 ? `₹${player.prevBalance}` : ''}
-                </div>
-                <div className="cell match-col">
-                  {player.satAmount > 0 ? `₹${player.satAmount}` : ''}
-                </div>
-                <div className="cell match-col">
-                  {player.sunAmount > 0 ? `₹${player.sunAmount}` : ''}
+                  {player.prevBalance > 0 ? formatCurrency(player.prevBalance) : ''}
                 </div>
+                {currentMatches.map(match => (
+                  <div key={match.id} className="cell match-col">
+                    {player.matchAmounts[match.id] > 0 ? formatCurrency(player.matchAmounts[match.id]) : ''}
+                  </div>
+                ))}
                 <div className="cell paid-col"></div>
                 <div className={`cell total-col ${player.totalDue > 0 ? 'amount-due' : ''}`}>
-                  {player.totalDue > 0 ? `₹${player.totalDue}` : ''}
+                  {player.totalDue > 0 ? formatCurrency(player.totalDue) : ''}
                 </div>
                 <div className={`cell status-col status-${player.status.toLowerCase()}`}>
                   {player.status}
@@ -221,6 +170,17 @@ const WhatsAppImageGenerator: React.FC<WhatsAppImageGeneratorProps> = ({ appData
             ))}
           </div>
 
+          {/* Outstanding by club */}
+          {clubTotals.length > 0 && (
+            <div className="update-summary">
+              {clubTotals.map(total => (
+                <span key={total.clubId} className="summary-item" style={{ color: total.colour }}>
+                  {total.name}: {formatCurrency(total.outstanding)} pending
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* Summary */}
           <div className="update-summary">
             <span className="summary-item pending">Pending: {statusCounts.pending}</span>
@@ -1,3 +1,5 @@
+// All money fields are integer paise (₹1 = 100)
+
 export interface Player {
   id: string;
   firstName: string;
@@ -8,17 +10,105 @@ export interface Player {
   arrears?: number; // outstanding dues from previous periods
   advancePayment?: number; // advance payments made
   regular?: boolean; // true if regular player, false/undefined for additional players
+  hostId?: string; // set for a guest: the player who brought them
+  collectDirectly?: boolean; // a guest who pays their own share rather than their host
 }
 
 export interface Match {
   id: string;
   date: string;
-  club: 'MICC' | 'Sadhooz';
-  type: 'Saturday' | 'Sunday' | 'Weekday';
-  groundCost: number;
-  cafeteriaCost: number;
+  time?: string; // HH:mm start time, when known
+  clubId: string;
+  expenses: Expense[];
   playerIds: string[];
+  playerShares?: { [playerId: string]: PlayerShare }; // players without an entry pay a full share
   payments: Payment[];
+  status?: MatchStatus; // matches from before statuses existed count as played
+  refund?: number; // handed back by the ground for an abandoned or cancelled match
+  membershipCover?: { [playerId: string]: MembershipCoverage }; // from members' plans when the match was saved
+  templateId?: string; // the template the match was pre-created from
+  attendance?: { [playerId: string]: AttendanceStatus }; // players without an entry played
+  billedTo?: { [guestId: string]: string }; // guests whose share their host pays, from when the match was saved
+}
+
+// A match played most weeks, used to fill in the match form or pre-create matches for a new weekend
+export interface MatchTemplate {
+  id: string;
+  name: string;
+  clubId: string;
+  day: number; // days after the weekend's Saturday: 0 Saturday, 1 Sunday ... 6 Friday
+  time?: string; // HH:mm
+  expenses: Expense[]; // default costs
+  playerIds: string[]; // default lineup
+  playerShares?: { [playerId: string]: PlayerShare };
+  autoCreate: boolean; // pre-create on Next Weekend
+}
+
+export type VendorEntryType = 'booking' | 'deposit' | 'payment' | 'refund';
+
+// Money between the team and a club's ground or cafeteria. Bookings are what the team owes;
+// deposits and payments are paid out of the kitty, and refunds come back into it.
+export interface VendorEntry {
+  id: string;
+  clubId: string;
+  type: VendorEntryType;
+  amount: number; // always positive; the type says which way it went
+  date: string;
+  category?: ExpenseCategory; // e.g. the ground or the cafeteria tab
+  matchId?: string; // the match it was for, if any
+  note?: string;
+}
+
+export interface Club {
+  id: string;
+  name: string;
+  homeGround?: string;
+  defaultGroundCost: number; // pre-filled as the ground expense of new matches
+  colour: string; // hex colour used to tell clubs apart in lists and images
+}
+
+export type MatchStatus = 'scheduled' | 'played' | 'abandoned' | 'cancelled';
+
+// Whether a player in the match turned up. Charged no-shows pay a full share, late withdrawals
+// their share of the ground they were booked on, and excused no-shows nothing.
+export type AttendanceStatus = 'played' | 'no-show-charged' | 'no-show-excused' | 'late-withdrawal';
+
+export type ExpenseCategory = 'ground' | 'cafeteria' | 'balls' | 'umpire' | 'scorer' | 'water' | 'parking' | 'other';
+
+export interface Expense {
+  id: string;
+  name: string;
+  amount: number;
+  category: ExpenseCategory;
+  playerIds?: string[]; // who shares it; everyone in the match when unset
+  paidBy?: string; // player who fronted the money; the team kitty when unset
+  reimbursements?: Receipt[]; // paid back to the player who fronted it
+}
+
+export interface PlayerShare {
+  weight?: number; // relative to a full share of 1, e.g. 0.5 for half fees, 0 for a waiver
+  fixedAmount?: number; // pays exactly this amount instead of a weighted share
+}
+
+export type PaymentMethod = 'cash' | 'upi' | 'bank-transfer' | 'other';
+
+export interface Receipt {
+  id: string;
+  amount: number; // negative for reversals and corrections
+  date: string;
+  method: PaymentMethod;
+  note?: string;
+  collectedBy?: string; // player id of the organiser who took the money; unset when it went to the treasurer
+}
+
+// Money a collector passed on to the treasurer out of what they had collected
+export interface Handover {
+  id: string;
+  collectorId: string;
+  amount: number;
+  date: string;
+  method: PaymentMethod;
+  note?: string;
 }
 
 export interface Payment {
@@ -26,23 +116,164 @@ export interface Payment {
   playerId: string;
   matchId: string;
   amountDue: number;
-  amountPaid: number;
-  status: 'paid' | 'pending' | 'partial';
-  date: string;
+  amountPaid: number; // derived from receipts
+  creditApplied?: number; // the player's advance or overpayments elsewhere put towards this due
+  status: 'paid' | 'pending' | 'partial'; // derived from receipts and applied credit
+  date: string; // when the payment record was created
+  receipts: Receipt[];
+  dueDate?: string; // match date plus the grace period, as yyyy-MM-dd
+  lateFee?: number; // charged once when the payment went overdue, owed on top of amountDue
 }
 
 export interface Weekend {
   id: string;
   startDate: string; // Saturday date
-  saturdayMatch?: Match;
-  sundayMatch?: Match;
-  weekdayMatches: Match[];
+  matches: Match[]; // any number, on any date; see getWeekendMatches for display order
+  polls?: AvailabilityPoll[]; // who can play the weekend's upcoming matches
+}
+
+export type AvailabilityStatus = 'in' | 'out' | 'maybe';
+
+export interface AvailabilityResponse {
+  playerId: string;
+  status: AvailabilityStatus;
+  respondedAt: string; // when the player last changed their answer; players who are in are confirmed in this order
+}
+
+// Availability for one upcoming match. Players who are in beyond the capacity wait for a place.
+export interface AvailabilityPoll {
+  id: string;
+  date: string;
+  time?: string; // HH:mm
+  clubId: string;
+  capacity?: number; // no limit when unset
+  responses: AvailabilityResponse[];
+  matchId?: string; // the match created from the confirmed players, or the one polled for
+}
+
+// A closed stretch of weekends. Closing carries every player's balance into their opening
+// balance, and the weekends it covers can no longer be edited until it is reopened.
+export interface Period {
+  id: string;
+  name: string;
+  startDate: string; // first weekend covered, or the first recorded weekend
+  endDate: string; // last weekend covered (its Saturday date)
+  status: 'closed' | 'reopened';
+  closedAt: string;
+  openingBalances: { [playerId: string]: number }; // each player's opening balance before closing
+  closingBalances: { [playerId: string]: number }; // what became their opening balance
+  reopenedAt?: string;
+  reopenReason?: string;
+}
+
+// What a membership pays towards each match, e.g. the first ₹200 of the member's ground share
+export interface MembershipCoverage {
+  category: ExpenseCategory;
+  amountPerMatch: number;
+}
+
+export interface MembershipPlan {
+  id: string;
+  name: string;
+  fee: number;
+  startDate: string; // first day of the period the plan covers
+  endDate: string; // last day of the period, inclusive
+  coverage: MembershipCoverage;
+}
+
+// A plan assigned to a player. The fee is charged in the ledger on top of match dues.
+export interface Membership {
+  id: string;
+  planId: string;
+  playerId: string;
+  fee: number; // the plan's fee when it was assigned
+  date: string; // when the plan was assigned
+  receipts: Receipt[];
+}
+
+export type KittyEntryType = 'fine' | 'contribution' | 'purchase' | 'income';
+
+// Money in and out of the team kitty outside of matches. Fines and contributions (such as an
+// overpayment a player leaves with the team) are charged to a player and land in the kitty;
+// purchases like kit or balls are paid out of it, and income comes in from outside the team.
+export interface KittyEntry {
+  id: string;
+  type: KittyEntryType;
+  amount: number; // always positive; the type says which way it went
+  date: string;
+  playerId?: string; // who a fine or contribution is charged to
+  note?: string;
+  receipts: Receipt[]; // what the player has paid towards a fine or contribution
+}
+
+export interface RoundingPolicy {
+  unit: number; // share granularity in paise, e.g. 100 = ₹1, 1000 = ₹10
+  remainder: 'players' | 'kitty'; // who absorbs what does not divide evenly
+  remainderPlayerIds?: string[]; // players who take leftovers first
+}
+
+export interface LateFeeRule {
+  type: 'flat' | 'percent';
+  amount: number; // paise for a flat fee, or a percentage of what was overdue
+  cap?: number; // most a single fee can be, in paise
+}
+
+export interface AppSettings {
+  rounding: RoundingPolicy;
+  graceDays: number; // days after a match before its dues are overdue
+  lateFee?: LateFeeRule; // no late fees when unset
+  missingWeekends: 'create' | 'skip'; // weekends passed while the app was closed: added empty, or left out
+  treasurerId?: string; // the player who holds the team's money
+  collectorIds?: string[]; // players who take payments on the team's behalf
 }
 
 export interface AppData {
+  schemaVersion?: number;
   players: Player[];
+  clubs?: Club[];
+  matchTemplates?: MatchTemplate[];
   weekends: Weekend[];
   currentWeekendId: string;
+  settings?: AppSettings;
+  periods?: Period[]; // in the order they were closed
+  membershipPlans?: MembershipPlan[];
+  memberships?: Membership[];
+  vendorEntries?: VendorEntry[];
+  kittyEntries?: KittyEntry[];
+  handovers?: Handover[];
+}
+
+export type PaymentStatus = 'paid' | 'pending' | 'partial';
+
+export type AuditActionType = 'player' | 'match' | 'payment' | 'weekend' | 'period' | 'membership' | 'vendor' | 'kitty' | 'settings' | 'data';
+
+// One value that changed. Paths name array items by id ('#<id>') so they can be found again.
+export interface AuditChange {
+  path: string[];
+  before?: unknown; // unset when the value was added
+  after?: unknown; // unset when the value was removed
+  index?: number; // where an added or removed array item sat
+  playerId?: string;
+  matchId?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  user: string;
+  type: AuditActionType;
+  description: string;
+  playerIds: string[];
+  matchIds: string[];
+  changes: AuditChange[];
+  undoneAt?: string;
+  undoneBy?: string;
+  discarded?: boolean; // undone and then replaced by a new action, so it can no longer be redone
+  compacted?: boolean; // too old to undo, so the values it changed were not kept
 }
 
-export type PaymentStatus = 'paid' | 'pending' | 'partial';
\ No newline at end of file
+// What the caller knows about a change; anything left out is worked out from the changes
+export interface AuditAction {
+  type?: AuditActionType;
+  description?: string;
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { AppData, Match } from '../types';
+import { syncMatchPayments } from './calculations';
+import { getNoShowCharges, getPlayerReliability } from './attendance';
+
+const match = (id: string, date: string, overrides: Partial<Match> = {}): Match => syncMatchPayments({
+  id,
+  date,
+  clubId: 'club-micc',
+  expenses: [{ id: 'ground', name: 'Ground', amount: 90000, category: 'ground' }],
+  playerIds: ['sai', 'rahul', 'arjun'],
+  payments: [],
+  ...overrides
+});
+
+const appData: AppData = {
+  players: [],
+  weekends: [
+    { id: 'w1', startDate: '2025-01-04', matches: [match('m1', '2025-01-04', { attendance: { sai: 'no-show-charged' } })] },
+    { id: 'w2', startDate: '2025-01-11', matches: [match('m2', '2025-01-11', { attendance: { sai: 'late-withdrawal' } })] },
+    { id: 'w3', startDate: '2025-01-18', matches: [match('m3', '2025-01-18')] },
+    { id: 'w4', startDate: '2025-01-25', matches: [match('m4', '2025-01-25', { status: 'scheduled', attendance: { sai: 'late-withdrawal' } })] }
+  ],
+  currentWeekendId: 'w1'
+};
+
+const beforeM4 = new Date(2025, 0, 20);
+
+describe('getPlayerReliability', () => {
+  it('counts how often the player turned up, newest first', () => {
+    const reliability = getPlayerReliability(appData, 'sai', beforeM4);
+    expect(reliability.counts).toEqual({ 'played': 1, 'no-show-charged': 1, 'no-show-excused': 0, 'late-withdrawal': 1 });
+    expect(reliability.total).toBe(3);
+    expect(reliability.rate).toBeCloseTo(1 / 3);
+    expect(reliability.history.map(record => record.match.id)).toEqual(['m3', 'm2', 'm1']);
+  });
+
+  it('counts a scheduled match once its date has passed', () => {
+    expect(getPlayerReliability(appData, 'sai', new Date(2025, 0, 25)).total).toBe(3);
+    const reliability = getPlayerReliability(appData, 'sai', new Date(2025, 0, 26));
+    expect(reliability.total).toBe(4);
+    expect(reliability.counts['late-withdrawal']).toBe(2);
+    expect(reliability.history[0].match.id).toBe('m4');
+  });
+
+  it('has no rate for a player with no matches', () => {
+    expect(getPlayerReliability(appData, 'dev', beforeM4)).toMatchObject({ total: 0, rate: undefined });
+  });
+});
+
+describe('getNoShowCharges', () => {
+  it('lists what players who did not play were charged', () => {
+    expect(getNoShowCharges(appData.weekends[0].matches[0])).toEqual([
+      { playerId: 'sai', status: 'no-show-charged', amountDue: 30000 }
+    ]);
+  });
+
+  it('leaves out excused no-shows', () => {
+    expect(getNoShowCharges(match('m5', '2025-02-01', { attendance: { sai: 'no-show-excused' } }))).toEqual([]);
+  });
+});
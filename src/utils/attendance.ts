@@ -0,0 +1,49 @@
+import { AppData, AttendanceStatus, Match } from '../types';
+import { getAttendance, getMatchStatus } from './calculations';
+import { getAllMatches } from './ledger';
+import { compareMatches } from './schedule';
+import { format } from 'date-fns';
+
+// A player's record of turning up. Only matches that went ahead count: nobody attends a
+// cancelled one, and a scheduled match counts once its date has passed, as matches are
+// rarely marked played by hand.
+
+export interface AttendanceRecord {
+  match: Match;
+  status: AttendanceStatus;
+}
+
+export interface Reliability {
+  counts: { [status in AttendanceStatus]: number };
+  total: number;
+  rate?: number; // share of matches played, 0 to 1; unset with no matches
+  history: AttendanceRecord[]; // newest first
+}
+
+const countsMatch = (match: Match, today: Date): boolean => {
+  const status = getMatchStatus(match);
+  if (status === 'scheduled') return match.date < format(today, 'yyyy-MM-dd');
+  return status === 'played' || status === 'abandoned';
+};
+
+export const getPlayerReliability = (appData: AppData, playerId: string, today: Date = new Date()): Reliability => {
+  const history = getAllMatches(appData)
+    .filter(match => match.playerIds.includes(playerId) && countsMatch(match, today))
+    .sort((a, b) => compareMatches(b, a))
+    .map(match => ({ match, status: getAttendance(match, playerId) }));
+  const counts = { 'played': 0, 'no-show-charged': 0, 'no-show-excused': 0, 'late-withdrawal': 0 };
+  history.forEach(record => { counts[record.status] += 1; });
+  return {
+    counts,
+    total: history.length,
+    rate: history.length > 0 ? counts.played / history.length : undefined,
+    history
+  };
+};
+
+// What each player was charged for a match they did not play, for reminders
+export const getNoShowCharges = (match: Match): { playerId: string; status: AttendanceStatus; amountDue: number }[] => {
+  return match.payments
+    .map(payment => ({ playerId: payment.playerId, status: getAttendance(match, payment.playerId), amountDue: payment.amountDue }))
+    .filter(charge => (charge.status === 'no-show-charged' || charge.status === 'late-withdrawal') && charge.amountDue > 0);
+};
@@ -0,0 +1,185 @@
+import { AppData, AuditEntry, Match } from '../types';
+import { markAsPaid, syncMatchPayments } from './calculations';
+import { allocateCredits } from './credits';
+import { assessLateFees } from './lateFees';
+import { DEFAULT_SETTINGS } from './settings';
+import {
+  MAX_AUDIT_LOG_SIZE,
+  MAX_UNDO,
+  appendAuditEntry,
+  applyAuditChanges,
+  createAuditEntry,
+  diffAppData,
+  filterAuditLog,
+  getRedoEntry,
+  redoLastAction,
+  undoLastAction
+} from './audit';
+import { player } from './testHelpers';
+
+const match: Match = syncMatchPayments({
+  id: 'm1',
+  date: '2025-01-04',
+  clubId: 'club-micc',
+  expenses: [{ id: 'ground', name: 'Ground', amount: 100000, category: 'ground' }],
+  playerIds: ['sai', 'rahul'],
+  payments: []
+});
+
+const appData: AppData = {
+  players: [player('sai'), player('rahul')],
+  weekends: [{ id: 'w1', startDate: '2025-01-04', matches: [match] }],
+  currentWeekendId: 'w1'
+};
+
+const payAll = (data: AppData): AppData => ({
+  ...data,
+  weekends: data.weekends.map(w => ({
+    ...w,
+    matches: w.matches.map(m => ({ ...m, payments: m.payments.map(p => markAsPaid(p)) }))
+  }))
+});
+
+const record = (log: AuditEntry[], before: AppData, after: AppData) => {
+  return appendAuditEntry(log, createAuditEntry(before, after, 'Sai')!);
+};
+
+describe('createAuditEntry', () => {
+  it('records who changed what, before and after', () => {
+    const renamed = { ...appData, players: [{ ...appData.players[0], firstName: 'Saira' }, appData.players[1]] };
+    const entry = createAuditEntry(appData, renamed, 'Rahul')!;
+    expect(entry).toMatchObject({ user: 'Rahul', type: 'player', playerIds: ['sai'], description: 'Updated players: Saira' });
+    expect(entry.changes).toEqual([{ path: ['players', '#sai', 'firstName'], before: 'sai', after: 'Saira', playerId: 'sai' }]);
+  });
+
+  it('ties payment changes to their player and match', () => {
+    const entry = createAuditEntry(appData, payAll(appData), 'Sai')!;
+    expect(entry.type).toBe('payment');
+    expect(entry.playerIds).toEqual(['sai', 'rahul']);
+    expect(entry.matchIds).toEqual(['m1']);
+  });
+
+  it('skips updates that change nothing or only move the view', () => {
+    expect(createAuditEntry(appData, { ...appData }, 'Sai')).toBeUndefined();
+    expect(createAuditEntry(appData, { ...appData, currentWeekendId: 'w2' }, 'Sai')).toBeUndefined();
+  });
+
+  it('keeps a description given by the caller', () => {
+    const cleared = { ...appData, players: [] };
+    expect(createAuditEntry(appData, cleared, 'Sai', { type: 'data', description: 'Cleared all data' }))
+      .toMatchObject({ type: 'data', description: 'Cleared all data' });
+  });
+});
+
+describe('applyAuditChanges', () => {
+  it('puts removed items back where they were', () => {
+    const removed = { ...appData, players: [appData.players[1]] };
+    const changes = diffAppData(appData, removed);
+    expect(applyAuditChanges(removed, changes, 'before')).toEqual(appData);
+    expect(applyAuditChanges(appData, changes, 'after')).toEqual(removed);
+  });
+
+  it('removes added values again', () => {
+    const withoutMatch = { ...appData, weekends: [{ ...appData.weekends[0], matches: [] }] };
+    const changes = diffAppData(withoutMatch, appData);
+    expect(applyAuditChanges(appData, changes, 'before')).toEqual(withoutMatch);
+  });
+});
+
+describe('appendAuditEntry', () => {
+  const entry = (id: string, value: string): AuditEntry => ({
+    id,
+    timestamp: '2025-01-04T10:00:00.000Z',
+    user: 'Sai',
+    type: 'data',
+    description: 'Imported data',
+    playerIds: [],
+    matchIds: [],
+    changes: [{ path: ['players'], before: [], after: value }]
+  });
+
+  it('keeps the values only for the actions that can still be undone', () => {
+    let log: AuditEntry[] = [];
+    for (let i = 0; i <= MAX_UNDO; i++) log = appendAuditEntry(log, entry(`e${i}`, 'x'));
+    expect(log[0]).toMatchObject({ compacted: true, changes: [{ path: ['players'] }] });
+    expect(log[0].changes[0]).not.toHaveProperty('after');
+    expect(log[1].compacted).toBeUndefined();
+    expect(log[1].changes[0].after).toBe('x');
+  });
+
+  it('drops the oldest entries once the log outgrows its share of storage', () => {
+    const large = 'x'.repeat(MAX_AUDIT_LOG_SIZE / 3);
+    const log = ['e1', 'e2', 'e3'].reduce((entries, id) => appendAuditEntry(entries, entry(id, large)), [] as AuditEntry[]);
+    expect(log.map(e => e.id)).toEqual(['e2', 'e3']);
+  });
+});
+
+describe('undo and redo', () => {
+  it('undoes and redoes the latest action', () => {
+    const paid = payAll(appData);
+    const log = record([], appData, paid);
+
+    const undone = undoLastAction(paid, log, 'Rahul')!;
+    expect(undone.appData).toEqual(appData);
+    expect(undone.log[0]).toMatchObject({ undoneBy: 'Rahul' });
+
+    const redone = redoLastAction(undone.appData, undone.log)!;
+    expect(redone.appData).toEqual(paid);
+    expect(redone.log[0].undoneAt).toBeUndefined();
+  });
+
+  it('puts back credit, statuses and late fees as they were when the action was recorded', () => {
+    const rules = (data: AppData, today: Date) => allocateCredits(assessLateFees(allocateCredits(data), today));
+    const withRule = { ...appData, settings: { ...DEFAULT_SETTINGS, lateFee: { type: 'flat' as const, amount: 5000 } } };
+    const before = rules({ ...withRule, players: [player('sai', { advancePayment: 20000 }), player('rahul')] }, new Date(2025, 0, 5));
+    const paid = rules(payAll(before), new Date(2025, 0, 5));
+    const undone = undoLastAction(paid, record([], before, paid), 'Sai')!;
+    expect(undone.appData).toEqual(before);
+    // Running the rules again weeks later would charge fees the payment had avoided
+    expect(rules(undone.appData, new Date(2025, 1, 1))).not.toEqual(before);
+  });
+
+  it('steps back through actions in turn', () => {
+    const renamed = { ...appData, players: [{ ...appData.players[0], firstName: 'Saira' }, appData.players[1]] };
+    const paid = payAll(renamed);
+    const log = record(record([], appData, renamed), renamed, paid);
+
+    const first = undoLastAction(paid, log, 'Sai')!;
+    const second = undoLastAction(first.appData, first.log, 'Sai')!;
+    expect(second.appData).toEqual(appData);
+    expect(undoLastAction(second.appData, second.log, 'Sai')).toBeUndefined();
+  });
+
+  it('drops the redo once a new action is recorded', () => {
+    const paid = payAll(appData);
+    const undone = undoLastAction(paid, record([], appData, paid), 'Sai')!;
+    const renamed = { ...appData, players: [{ ...appData.players[0], firstName: 'Saira' }, appData.players[1]] };
+    expect(getRedoEntry(record(undone.log, appData, renamed))).toBeUndefined();
+  });
+
+  it('never redoes an action replaced by a later one, even once that is undone too', () => {
+    const paid = payAll(appData);
+    const undone = undoLastAction(paid, record([], appData, paid), 'Sai')!;
+    const renamed = { ...appData, players: [{ ...appData.players[0], firstName: 'Saira' }, appData.players[1]] };
+    const log = record(undone.log, appData, renamed);
+    expect(log[0].discarded).toBe(true);
+
+    const undoneAgain = undoLastAction(renamed, log, 'Sai')!;
+    expect(undoneAgain.appData).toEqual(appData);
+    expect(getRedoEntry(undoneAgain.log)).toBe(undoneAgain.log[1]);
+
+    const redone = redoLastAction(undoneAgain.appData, undoneAgain.log)!;
+    expect(redone.appData).toEqual(renamed);
+    expect(getRedoEntry(redone.log)).toBeUndefined();
+  });
+});
+
+describe('filterAuditLog', () => {
+  it('filters by player, match and action type', () => {
+    const renamed = { ...appData, players: [appData.players[0], { ...appData.players[1], firstName: 'Rahul' }] };
+    const log = record(record([], appData, renamed), renamed, payAll(renamed));
+    expect(filterAuditLog(log, { playerId: 'rahul' })).toHaveLength(2);
+    expect(filterAuditLog(log, { matchId: 'm1' })).toHaveLength(1);
+    expect(filterAuditLog(log, { type: 'player' })).toHaveLength(1);
+  });
+});
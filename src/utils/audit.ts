@@ -0,0 +1,325 @@
+import { AppData, AuditAction, AuditActionType, AuditChange, AuditEntry, Match } from '../types';
+import { generateUUID } from './calculations';
+import { getClubName } from './clubs';
+import { getAllMatches } from './ledger';
+import { getMatchDay } from './schedule';
+
+// Every change to the app data is recorded as the values it changed, before and after.
+// Undo writes the before values back and redo the after values, so both work from the
+// persisted log alone and survive a reload. Only the most recent actions can be undone,
+// so older entries keep what was changed but not the values, which can be the whole data.
+
+export const MAX_UNDO = 20;
+export const MAX_AUDIT_ENTRIES = 500;
+// Characters of JSON; the log shares the browser's storage quota with the app data
+export const MAX_AUDIT_LOG_SIZE = 1000000;
+
+export const AUDIT_ACTION_TYPES: { value: AuditActionType; label: string }[] = [
+  { value: 'player', label: 'Players' },
+  { value: 'match', label: 'Matches' },
+  { value: 'payment', label: 'Payments' },
+  { value: 'weekend', label: 'Weekends' },
+  { value: 'period', label: 'Periods' },
+  { value: 'membership', label: 'Memberships' },
+  { value: 'vendor', label: 'Vendors' },
+  { value: 'kitty', label: 'Kitty' },
+  { value: 'settings', label: 'Settings' },
+  { value: 'data', label: 'Data' }
+];
+
+type UnknownRecord = { [key: string]: unknown };
+
+const isRecord = (value: unknown): value is UnknownRecord => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const hasIds = (items: unknown[]): items is (UnknownRecord & { id: string })[] => {
+  return items.every(item => isRecord(item) && typeof item.id === 'string');
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every(key => isEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+const isMatch = (value: UnknownRecord): boolean => Array.isArray(value.playerIds) && Array.isArray(value.payments);
+
+interface DiffContext {
+  playerId?: string;
+  matchId?: string;
+}
+
+// The player and match a value belongs to, taken from the objects on its path
+const withContext = (context: DiffContext, path: string[], item: UnknownRecord): DiffContext => {
+  const next = { ...context };
+  if (typeof item.playerId === 'string') next.playerId = item.playerId;
+  if (path.length === 1 && path[0] === 'players' && typeof item.id === 'string') next.playerId = item.id;
+  if (isMatch(item) && typeof item.id === 'string') next.matchId = item.id;
+  return next;
+};
+
+const diffValues = (
+  before: unknown,
+  after: unknown,
+  path: string[],
+  context: DiffContext,
+  changes: AuditChange[],
+  index?: number
+): void => {
+  if (isEqual(before, after)) return;
+
+  if (isRecord(before) && isRecord(after)) {
+    const parent = path.slice(0, -1);
+    const itemContext = withContext(withContext(context, parent, before), parent, after);
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach(key => diffValues(before[key], after[key], [...path, key], itemContext, changes));
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after) && hasIds(before) && hasIds(after)) {
+    before.forEach((item, position) => {
+      const match = after.find(candidate => candidate.id === item.id);
+      diffValues(item, match, [...path, `#${item.id}`], context, changes, match ? undefined : position);
+    });
+    after.forEach((item, position) => {
+      if (!before.some(candidate => candidate.id === item.id)) {
+        diffValues(undefined, item, [...path, `#${item.id}`], context, changes, position);
+      }
+    });
+    return;
+  }
+
+  const item = isRecord(after) ? after : isRecord(before) ? before : undefined;
+  const itemContext = item ? withContext(context, path.slice(0, -1), item) : context;
+  const change: AuditChange = { path };
+  if (before !== undefined) change.before = before;
+  if (after !== undefined) change.after = after;
+  if (index !== undefined) change.index = index;
+  if (itemContext.playerId) change.playerId = itemContext.playerId;
+  if (itemContext.matchId) change.matchId = itemContext.matchId;
+  changes.push(change);
+};
+
+export const diffAppData = (before: AppData, after: AppData): AuditChange[] => {
+  const changes: AuditChange[] = [];
+  diffValues(before, after, [], {}, changes);
+  return changes;
+};
+
+const setValue = (target: unknown, path: string[], value: unknown, index?: number): unknown => {
+  if (path.length === 0) return value;
+  const [segment, ...rest] = path;
+
+  if (Array.isArray(target) && segment.startsWith('#')) {
+    const id = segment.slice(1);
+    const position = target.findIndex(item => isRecord(item) && item.id === id);
+    if (rest.length === 0) {
+      if (value === undefined) return position === -1 ? target : target.filter((_, i) => i !== position);
+      if (position === -1) {
+        const copy = [...target];
+        copy.splice(Math.min(index ?? copy.length, copy.length), 0, value);
+        return copy;
+      }
+    }
+    // Nothing to update when the item has since been removed
+    if (position === -1) return target;
+    const copy = [...target];
+    copy[position] = setValue(target[position], rest, value, index);
+    return copy;
+  }
+
+  const record = isRecord(target) ? target : {};
+  const next = setValue(record[segment], rest, value, index);
+  if (next === undefined) {
+    const { [segment]: _removed, ...remaining } = record;
+    return remaining;
+  }
+  return { ...record, [segment]: next };
+};
+
+export const applyAuditChanges = (appData: AppData, changes: AuditChange[], side: 'before' | 'after'): AppData => {
+  const ordered = side === 'before' ? [...changes].reverse() : changes;
+  return ordered.reduce<AppData>(
+    (data, change) => setValue(data, change.path, change[side], change.index) as AppData,
+    appData
+  );
+};
+
+const getChangeType = (change: AuditChange): AuditActionType => {
+  const [area] = change.path;
+  if (area === 'settings' || area === 'matchTemplates') return 'settings';
+  if (area === 'periods') return 'period';
+  if (area === 'membershipPlans' || area === 'memberships') return 'membership';
+  if (area === 'vendorEntries') return 'vendor';
+  if (area === 'kittyEntries') return 'kitty';
+  if (area === 'handovers') return 'payment';
+  if (area === 'players') return 'player';
+  if (area === 'weekends' || area === 'currentWeekendId') {
+    if (change.path.includes('payments')) return 'payment';
+    return change.matchId ? 'match' : 'weekend';
+  }
+  return 'data';
+};
+
+// The most telling kind of change wins, so saving a match that adds payments is a match action
+const TYPE_PRIORITY: AuditActionType[] = ['settings', 'period', 'membership', 'vendor', 'kitty', 'match', 'payment', 'weekend', 'player'];
+
+export const getActionType = (changes: AuditChange[]): AuditActionType => {
+  const types = new Set(changes.map(getChangeType));
+  if (types.has('data')) return 'data';
+  return TYPE_PRIORITY.find(type => types.has(type)) || 'data';
+};
+
+const unique = (values: (string | undefined)[]): string[] => {
+  return Array.from(new Set(values.filter((value): value is string => !!value)));
+};
+
+export const getPlayerName = (appData: AppData, playerId: string): string => {
+  const player = appData.players.find(p => p.id === playerId);
+  if (!player) return 'Removed player';
+  if (player.nickname && player.nickname.trim()) return player.nickname.trim();
+  return player.lastName ? `${player.firstName} ${player.lastName}` : player.firstName;
+};
+
+export const getMatchLabel = (appData: AppData, match: Match): string => {
+  return `${getMatchDay(match)} ${getClubName(appData, match.clubId)} ${match.date}`;
+};
+
+const describeChanges = (
+  type: AuditActionType,
+  changes: AuditChange[],
+  playerIds: string[],
+  matches: Match[],
+  names: AppData
+): string => {
+  const verb = changes.every(change => change.before === undefined)
+    ? 'Added'
+    : changes.every(change => change.after === undefined) ? 'Removed' : 'Updated';
+  const label = AUDIT_ACTION_TYPES.find(t => t.value === type)?.label.toLowerCase() || type;
+  const subjects = type === 'match'
+    ? matches.map(match => getMatchLabel(names, match))
+    : playerIds.map(playerId => getPlayerName(names, playerId));
+  const shown = subjects.slice(0, 3).join(', ') + (subjects.length > 3 ? ` and ${subjects.length - 3} more` : '');
+  return shown ? `${verb} ${label}: ${shown}` : `${verb} ${label}`;
+};
+
+// Returns nothing when the update changed no data. Switching the weekend being viewed is
+// not recorded either, as undoing it would only move the view.
+export const createAuditEntry = (
+  before: AppData,
+  after: AppData,
+  user: string,
+  action: AuditAction = {}
+): AuditEntry | undefined => {
+  const changes = diffAppData(before, after);
+  if (changes.length === 0) return undefined;
+  if (!action.description && changes.every(change => change.path[0] === 'currentWeekendId')) return undefined;
+
+  const type = action.type || getActionType(changes);
+  const playerIds = unique(changes.map(change => change.playerId));
+  const matchIds = unique(changes.map(change => change.matchId));
+  const allMatches = [...getAllMatches(after), ...getAllMatches(before)];
+  const matches = matchIds
+    .map(matchId => allMatches.find(match => match.id === matchId))
+    .filter((match): match is Match => !!match);
+  const names = {
+    ...after,
+    players: [...after.players, ...before.players],
+    clubs: [...(after.clubs || []), ...(before.clubs || [])]
+  };
+
+  return {
+    id: generateUUID(),
+    timestamp: new Date().toISOString(),
+    user,
+    type,
+    description: action.description || describeChanges(type, changes, playerIds, matches, names),
+    playerIds,
+    matchIds,
+    changes
+  };
+};
+
+const compactEntry = (entry: AuditEntry): AuditEntry => {
+  if (entry.compacted) return entry;
+  return { ...entry, compacted: true, changes: entry.changes.map(({ before, after, ...change }) => change) };
+};
+
+// Oldest entries are dropped once the log is full, by count or by size. A new action
+// replaces whatever was undone before it, so those entries stay in the log but drop out
+// of the redo chain.
+export const appendAuditEntry = (log: AuditEntry[], entry: AuditEntry): AuditEntry[] => {
+  const settled = log.map(e => (e.undoneAt && !e.discarded ? { ...e, discarded: true } : e));
+  const entries = [...settled, entry].slice(-MAX_AUDIT_ENTRIES);
+  const undoable = entries.length - MAX_UNDO;
+  const kept = entries.map((e, index) => (index < undoable ? compactEntry(e) : e));
+
+  const sizes = kept.map(e => JSON.stringify(e).length);
+  let size = sizes.reduce((sum, entrySize) => sum + entrySize, 0);
+  let first = 0;
+  while (size > MAX_AUDIT_LOG_SIZE && first < kept.length - 1) {
+    size -= sizes[first];
+    first += 1;
+  }
+  return kept.slice(first);
+};
+
+export const getUndoEntry = (log: AuditEntry[]): AuditEntry | undefined => {
+  return log.slice(-MAX_UNDO).filter(entry => !entry.undoneAt).pop();
+};
+
+// Redo picks up from the last action still in effect, skipping anything a new action replaced
+export const getRedoEntry = (log: AuditEntry[]): AuditEntry | undefined => {
+  const recent = log.slice(-MAX_UNDO);
+  let lastDone = -1;
+  recent.forEach((entry, index) => {
+    if (!entry.undoneAt) lastDone = index;
+  });
+  return recent.slice(lastDone + 1).find(entry => entry.undoneAt && !entry.discarded);
+};
+
+export const undoLastAction = (
+  appData: AppData,
+  log: AuditEntry[],
+  user: string
+): { appData: AppData; log: AuditEntry[] } | undefined => {
+  const entry = getUndoEntry(log);
+  if (!entry) return undefined;
+  return {
+    appData: applyAuditChanges(appData, entry.changes, 'before'),
+    log: log.map(e => (e.id === entry.id ? { ...e, undoneAt: new Date().toISOString(), undoneBy: user } : e))
+  };
+};
+
+export const redoLastAction = (
+  appData: AppData,
+  log: AuditEntry[]
+): { appData: AppData; log: AuditEntry[] } | undefined => {
+  const entry = getRedoEntry(log);
+  if (!entry) return undefined;
+  return {
+    appData: applyAuditChanges(appData, entry.changes, 'after'),
+    log: log.map(e => (e.id === entry.id ? { ...e, undoneAt: undefined, undoneBy: undefined } : e))
+  };
+};
+
+export interface AuditFilter {
+  playerId?: string;
+  matchId?: string;
+  type?: AuditActionType;
+}
+
+export const filterAuditLog = (log: AuditEntry[], filter: AuditFilter): AuditEntry[] => {
+  return log.filter(entry =>
+    (!filter.playerId || entry.playerIds.includes(filter.playerId)) &&
+    (!filter.matchId || entry.matchIds.includes(filter.matchId)) &&
+    (!filter.type || entry.type === filter.type)
+  );
+};
@@ -0,0 +1,130 @@
+import { AppData, Weekend } from '../types';
+import { markAsPaid, syncMatchPayments } from './calculations';
+import {
+  createMatchFromPoll,
+  createPoll,
+  createPollForMatch,
+  generateAvailabilityText,
+  getPollSummary,
+  setResponse
+} from './availability';
+import { player } from './testHelpers';
+
+const players = [
+  player('sai', { regular: true }),
+  player('rahul', { regular: true }),
+  player('arjun', { regular: true }),
+  player('dev', { regular: false })
+];
+
+const respond = (answers: [string, 'in' | 'out' | 'maybe'][], capacity?: number) => {
+  return answers.reduce(
+    (poll, [playerId, status], index) => setResponse(poll, playerId, status, `2025-01-01T10:0${index}:00Z`),
+    createPoll('2025-01-04', 'club-micc', '07:00', capacity)
+  );
+};
+
+describe('getPollSummary', () => {
+  it('confirms players in the order they said in and waitlists the rest', () => {
+    const poll = respond([['rahul', 'in'], ['sai', 'in'], ['dev', 'in'], ['arjun', 'maybe']], 2);
+    expect(getPollSummary(poll, players)).toEqual({
+      confirmed: ['rahul', 'sai'],
+      waitlist: ['dev'],
+      maybe: ['arjun'],
+      out: [],
+      noReply: []
+    });
+  });
+
+  it('moves the waitlist up when a confirmed player drops out', () => {
+    const poll = setResponse(respond([['rahul', 'in'], ['sai', 'in'], ['dev', 'in']], 2), 'rahul', 'out', '2025-01-02T00:00:00Z');
+    const summary = getPollSummary(poll, players);
+    expect(summary.confirmed).toEqual(['sai', 'dev']);
+    expect(summary.out).toEqual(['rahul']);
+    expect(summary.noReply).toEqual(['arjun']);
+  });
+
+  it('keeps a place when the same answer is given again', () => {
+    const poll = respond([['rahul', 'in'], ['sai', 'in']], 1);
+    const again = setResponse(poll, 'rahul', 'in', '2025-01-02T00:00:00Z');
+    expect(again).toBe(poll);
+    expect(getPollSummary(again, players).confirmed).toEqual(['rahul']);
+  });
+
+  it('confirms everyone who is in when there is no capacity', () => {
+    const poll = respond([['rahul', 'in'], ['sai', 'in'], ['dev', 'in']]);
+    expect(getPollSummary(poll, players).confirmed).toEqual(['rahul', 'sai', 'dev']);
+  });
+});
+
+describe('createMatchFromPoll', () => {
+  it('creates a scheduled match for the confirmed players', () => {
+    const weekend: Weekend = { id: 'w1', startDate: '2025-01-04', matches: [] };
+    const appData: AppData = { players, weekends: [weekend], currentWeekendId: 'w1' };
+    const match = createMatchFromPoll(appData, weekend, respond([['rahul', 'in'], ['sai', 'in'], ['dev', 'in']], 2));
+    expect(match).toMatchObject({ date: '2025-01-04', time: '07:00', clubId: 'club-micc', status: 'scheduled' });
+    expect(match.playerIds).toEqual(['rahul', 'sai']);
+    expect(match.payments.map(p => p.playerId)).toEqual(['rahul', 'sai']);
+  });
+
+  it('updates the polled match and keeps the payments of players still in', () => {
+    const scheduled = syncMatchPayments({
+      id: 'm1',
+      date: '2025-01-04',
+      clubId: 'club-micc',
+      expenses: [{ id: 'ground', name: 'Ground', amount: 90000, category: 'ground' }],
+      playerIds: ['sai'],
+      payments: [],
+      status: 'scheduled'
+    });
+    const paid = { ...scheduled, payments: scheduled.payments.map(p => markAsPaid(p)) };
+    const weekend: Weekend = { id: 'w1', startDate: '2025-01-04', matches: [paid] };
+    const appData: AppData = { players, weekends: [weekend], currentWeekendId: 'w1' };
+
+    const poll = setResponse(createPollForMatch(paid, undefined, '2025-01-01T00:00:00Z'), 'rahul', 'in', '2025-01-01T01:00:00Z');
+    const match = createMatchFromPoll(appData, weekend, poll);
+    expect(match.id).toBe('m1');
+    expect(match.playerIds).toEqual(['sai', 'rahul']);
+    expect(match.payments[0].receipts).toHaveLength(1);
+    expect(match.payments.map(p => p.amountDue)).toEqual([45000, 45000]);
+  });
+});
+
+describe('createMatchFromPoll with withdrawals', () => {
+  it('keeps players who drop out of a set-up match on it as late withdrawals', () => {
+    const scheduled = syncMatchPayments({
+      id: 'm1',
+      date: '2025-01-04',
+      clubId: 'club-micc',
+      expenses: [{ id: 'ground', name: 'Ground', amount: 90000, category: 'ground' }],
+      playerIds: ['sai', 'rahul', 'arjun'],
+      payments: [],
+      status: 'scheduled'
+    });
+    const weekend: Weekend = { id: 'w1', startDate: '2025-01-04', matches: [scheduled] };
+    const appData: AppData = { players, weekends: [weekend], currentWeekendId: 'w1' };
+
+    const poll = setResponse(createPollForMatch(scheduled, undefined, '2025-01-01T00:00:00Z'), 'arjun', 'out', '2025-01-03T00:00:00Z');
+    const match = createMatchFromPoll(appData, weekend, poll);
+    expect(match.playerIds).toEqual(['sai', 'rahul', 'arjun']);
+    expect(match.attendance).toEqual({ arjun: 'late-withdrawal' });
+    expect(match.payments.map(p => p.amountDue)).toEqual([30000, 30000, 30000]);
+  });
+});
+
+describe('generateAvailabilityText', () => {
+  it('lists confirmed, waiting and undecided players', () => {
+    const appData: AppData = {
+      players,
+      clubs: [{ id: 'club-micc', name: 'MICC', defaultGroundCost: 0, colour: '#000000' }],
+      weekends: [],
+      currentWeekendId: ''
+    };
+    const text = generateAvailabilityText(appData, respond([['rahul', 'in'], ['sai', 'in'], ['dev', 'in']], 2));
+    expect(text).toContain("*Who's In? MICC*");
+    expect(text).toContain('Sat, Jan 04 07:00');
+    expect(text).toContain('*Confirmed (2/2):*\n1. rahul\n2. sai');
+    expect(text).toContain('*Waitlist:*\n1. dev');
+    expect(text).toContain('Yet to reply: arjun');
+  });
+});
@@ -0,0 +1,160 @@
+import { AppData, AvailabilityPoll, AvailabilityStatus, Match, Player, Weekend } from '../types';
+import { generateUUID, syncMatchPayments } from './calculations';
+import { getClub, getClubExpenses, getClubName } from './clubs';
+import { applyGuests } from './guests';
+import { applyMemberships } from './memberships';
+import { formatMatchDate } from './schedule';
+import { getSettings } from './settings';
+
+// Players answer in, out or maybe for each upcoming match. Those who are in take the places
+// in the order they answered; once the capacity is reached the rest wait, and move up as
+// soon as someone ahead of them drops out.
+
+export const AVAILABILITY_STATUSES: { value: AvailabilityStatus; label: string }[] = [
+  { value: 'in', label: 'In' },
+  { value: 'maybe', label: 'Maybe' },
+  { value: 'out', label: 'Out' }
+];
+
+export interface PollSummary {
+  confirmed: string[];
+  waitlist: string[];
+  maybe: string[];
+  out: string[];
+  noReply: string[]; // regular players who have not answered
+}
+
+export const getPolls = (weekend: Weekend): AvailabilityPoll[] => {
+  return [...(weekend.polls || [])].sort((a, b) => a.date.localeCompare(b.date) || (a.time || '').localeCompare(b.time || ''));
+};
+
+export const createPoll = (date: string, clubId: string, time?: string, capacity?: number): AvailabilityPoll => ({
+  id: generateUUID(),
+  date,
+  time,
+  clubId,
+  capacity,
+  responses: []
+});
+
+// Polls a match already on the schedule; its players so far are taken as in
+export const createPollForMatch = (match: Match, capacity?: number, respondedAt = new Date().toISOString()): AvailabilityPoll => ({
+  ...createPoll(match.date, match.clubId, match.time, capacity),
+  responses: match.playerIds.map(playerId => ({ playerId, status: 'in', respondedAt })),
+  matchId: match.id
+});
+
+// Adds the poll, or replaces the one with the same id
+export const savePoll = (weekend: Weekend, poll: AvailabilityPoll): Weekend => {
+  const polls = weekend.polls || [];
+  const exists = polls.some(p => p.id === poll.id);
+  return { ...weekend, polls: exists ? polls.map(p => (p.id === poll.id ? poll : p)) : [...polls, poll] };
+};
+
+export const removePoll = (weekend: Weekend, pollId: string): Weekend => ({
+  ...weekend,
+  polls: (weekend.polls || []).filter(poll => poll.id !== pollId)
+});
+
+// Answering the same again keeps the player's place; changing the answer puts them at the back.
+// No status clears the answer.
+export const setResponse = (
+  poll: AvailabilityPoll,
+  playerId: string,
+  status: AvailabilityStatus | undefined,
+  respondedAt = new Date().toISOString()
+): AvailabilityPoll => {
+  const existing = poll.responses.find(response => response.playerId === playerId);
+  if (existing && existing.status === status) return poll;
+  const responses = poll.responses.filter(response => response.playerId !== playerId);
+  return { ...poll, responses: status ? [...responses, { playerId, status, respondedAt }] : responses };
+};
+
+export const getResponse = (poll: AvailabilityPoll, playerId: string): AvailabilityStatus | undefined => {
+  return poll.responses.find(response => response.playerId === playerId)?.status;
+};
+
+export const getPollSummary = (poll: AvailabilityPoll, players: Player[]): PollSummary => {
+  const byStatus = (status: AvailabilityStatus) => poll.responses
+    .filter(response => response.status === status)
+    .sort((a, b) => a.respondedAt.localeCompare(b.respondedAt))
+    .map(response => response.playerId);
+  const playersIn = byStatus('in');
+  const capacity = poll.capacity && poll.capacity > 0 ? poll.capacity : playersIn.length;
+  return {
+    confirmed: playersIn.slice(0, capacity),
+    waitlist: playersIn.slice(capacity),
+    maybe: byStatus('maybe'),
+    out: byStatus('out'),
+    noReply: players
+      .filter(player => player.regular && !poll.responses.some(response => response.playerId === player.id))
+      .map(player => player.id)
+  };
+};
+
+// The polled match with the confirmed players as its lineup, or a new scheduled match at the
+// club's usual costs. Payments are kept for players who stay in. Players already on the match
+// who have since said out stay on it as late withdrawals, so the booking is still theirs.
+export const createMatchFromPoll = (appData: AppData, weekend: Weekend, poll: AvailabilityPoll): Match => {
+  const settings = getSettings(appData);
+  const { confirmed, out } = getPollSummary(poll, appData.players);
+  const existing = weekend.matches.find(match => match.id === poll.matchId);
+  const match: Match = existing || {
+    id: generateUUID(),
+    date: poll.date,
+    time: poll.time,
+    clubId: poll.clubId,
+    expenses: getClubExpenses(getClub(appData, poll.clubId)),
+    playerIds: [],
+    payments: [],
+    status: 'scheduled'
+  };
+  const withdrawn = match.playerIds.filter(playerId => out.includes(playerId));
+  const attendance: NonNullable<Match['attendance']> = { ...match.attendance };
+  withdrawn.forEach(playerId => {
+    if (!attendance[playerId]) attendance[playerId] = 'late-withdrawal';
+  });
+  const playerIds = [...confirmed, ...withdrawn];
+  Object.keys(attendance).forEach(playerId => {
+    if (!playerIds.includes(playerId)) delete attendance[playerId];
+  });
+  return syncMatchPayments(applyGuests(appData, applyMemberships(appData, {
+    ...match,
+    playerIds,
+    attendance: Object.keys(attendance).length > 0 ? attendance : undefined
+  })), settings.rounding, settings.graceDays);
+};
+
+const getName = (player: Player): string => `${player.firstName} ${player.lastName || ''}`.trim();
+
+export const generateAvailabilityText = (appData: AppData, poll: AvailabilityPoll): string => {
+  const summary = getPollSummary(poll, appData.players);
+  const names = (playerIds: string[]) => playerIds
+    .map(playerId => appData.players.find(player => player.id === playerId))
+    .filter((player): player is Player => !!player)
+    .map(getName);
+  const places = poll.capacity ? `${summary.confirmed.length}/${poll.capacity}` : `${summary.confirmed.length}`;
+
+  let message = `🏏 *Who's In? ${getClubName(appData, poll.clubId)}*\n`;
+  message += `📅 ${formatMatchDate(poll, 'EEE, MMM dd')}\n\n`;
+  message += `✅ *Confirmed (${places}):*\n`;
+  names(summary.confirmed).forEach((name, index) => {
+    message += `${index + 1}. ${name}\n`;
+  });
+  if (summary.waitlist.length > 0) {
+    message += `\n⏳ *Waitlist:*\n`;
+    names(summary.waitlist).forEach((name, index) => {
+      message += `${index + 1}. ${name}\n`;
+    });
+  }
+  if (summary.maybe.length > 0) message += `\n🤔 Maybe: ${names(summary.maybe).join(', ')}\n`;
+  if (summary.out.length > 0) message += `❌ Out: ${names(summary.out).join(', ')}\n`;
+  if (summary.noReply.length > 0) message += `❓ Yet to reply: ${names(summary.noReply).join(', ')}\n`;
+  if (poll.capacity && summary.confirmed.length < poll.capacity) {
+    message += `\n${poll.capacity - summary.confirmed.length} place(s) left. `;
+  } else {
+    message += `\n`;
+  }
+  message += `Reply in / out / maybe. Thanks! 🙏`;
+  return message;
+};
@@ -0,0 +1,214 @@
+import { Expense, Match, Payment } from '../types';
+import { calculateExpenseShares, calculateMatchShares, calculateMatchTotalCost, calculatePlayerCategoryShares, createPayment, getChargedExpenses, getExpensePlayerIds, markAsPaid, markAsUnpaid, recordReceipt, setPartialPayment, syncMatchPayments } from './calculations';
+
+const costs = (ground: number, cafeteria: number, cafeteriaPlayerIds?: string[]): Expense[] => [
+  { id: 'ground', name: 'Ground', amount: ground, category: 'ground' },
+  { id: 'cafeteria', name: 'Cafeteria', amount: cafeteria, category: 'cafeteria', playerIds: cafeteriaPlayerIds }
+];
+
+const makeMatch = (overrides: Partial<Match> = {}): Match => ({
+  id: 'm1',
+  date: '2025-01-04',
+  clubId: 'club-micc',
+  expenses: costs(300, 0),
+  playerIds: ['a'],
+  payments: [],
+  ...overrides
+});
+
+const newPayment = (): Payment => createPayment(makeMatch(), 'a');
+
+describe('payment receipts', () => {
+  it('derives amountPaid and status from the receipts', () => {
+    const first = recordReceipt(newPayment(), 200, { method: 'upi', note: 'Monday' });
+    expect(first).toMatchObject({ amountPaid: 200, status: 'partial' });
+
+    const second = recordReceipt(first, 100, { method: 'cash' });
+    expect(second).toMatchObject({ amountPaid: 300, status: 'paid' });
+    expect(second.receipts.map(r => [r.amount, r.method, r.note])).toEqual([
+      [200, 'upi', 'Monday'],
+      [100, 'cash', undefined]
+    ]);
+  });
+
+  it('ignores zero-amount receipts', () => {
+    const payment = newPayment();
+    expect(recordReceipt(payment, 0)).toBe(payment);
+  });
+
+  it('marks as paid by receipting only the outstanding amount', () => {
+    const paid = markAsPaid(recordReceipt(newPayment(), 120));
+    expect(paid.receipts.map(r => r.amount)).toEqual([120, 180]);
+    expect(paid.status).toBe('paid');
+  });
+
+  it('marks as unpaid by reversing the receipts instead of deleting them', () => {
+    const unpaid = markAsUnpaid(markAsPaid(newPayment()));
+    expect(unpaid.receipts.map(r => r.amount)).toEqual([300, -300]);
+    expect(unpaid).toMatchObject({ amountPaid: 0, status: 'pending' });
+  });
+
+  it('reverses each collector\'s receipts against that collector', () => {
+    const collected = recordReceipt(recordReceipt(newPayment(), 200, { collectedBy: 'sai' }), 100);
+    const unpaid = markAsUnpaid(collected);
+    expect(unpaid.receipts.slice(2).map(r => [r.amount, r.collectedBy])).toEqual([[-200, 'sai'], [-100, undefined]]);
+    expect(unpaid.amountPaid).toBe(0);
+  });
+
+  it('records the difference when a total paid amount is entered', () => {
+    const payment = setPartialPayment(setPartialPayment(newPayment(), 250), 100);
+    expect(payment.receipts.map(r => r.amount)).toEqual([250, -150]);
+    expect(payment.receipts[1].note).toBe('Correction');
+    expect(payment).toMatchObject({ amountPaid: 100, status: 'partial' });
+  });
+});
+
+describe('weighted match shares', () => {
+  const match = (playerShares: Match['playerShares']) => makeMatch({
+    expenses: costs(200000, 50000),
+    playerIds: ['captain', 'junior', 'a', 'b', 'c'],
+    playerShares
+  });
+
+  it('splits by weight and lets a waived player pay nothing', () => {
+    const { shares, kitty } = calculateMatchShares(match({ captain: { weight: 0 }, junior: { weight: 0.5 } }));
+    expect(shares).toEqual({ captain: 0, junior: 35800, a: 71400, b: 71400, c: 71400 });
+    expect(kitty).toBe(0);
+  });
+
+  it('takes fixed amounts off the top before splitting the rest', () => {
+    const { shares } = calculateMatchShares(match({ junior: { fixedAmount: 10000 } }));
+    expect(shares.junior).toBe(10000);
+    expect(shares.a + shares.b + shares.c + shares.captain).toBe(240000);
+    expect(shares.a).toBe(60000);
+  });
+
+  it('counts fixed amounts above the match cost as kitty surplus', () => {
+    const { shares, kitty } = calculateMatchShares(match({ junior: { fixedAmount: 300000 } }));
+    expect(shares.a).toBe(0);
+    expect(kitty).toBe(50000);
+  });
+
+  it('creates payments at the weighted amount', () => {
+    const weighted = match({ junior: { weight: 0.5 } });
+    expect(createPayment(weighted, 'junior').amountDue).toBe(27800);
+    expect(syncMatchPayments(weighted).payments.map(p => p.amountDue)).toEqual([55600, 27800, 55600, 55500, 55500]);
+  });
+});
+
+describe('expense participants', () => {
+  const match = makeMatch({
+    expenses: costs(300000, 60000, ['a', 'b']),
+    playerIds: ['a', 'b', 'c']
+  });
+
+  it('splits the cafeteria only among players who ordered', () => {
+    const { ground, cafeteria } = calculateExpenseShares(match);
+    expect(ground.shares).toEqual({ a: 100000, b: 100000, c: 100000 });
+    expect(cafeteria.shares).toEqual({ a: 30000, b: 30000 });
+    expect(calculateMatchShares(match).shares).toEqual({ a: 130000, b: 130000, c: 100000 });
+  });
+
+  it('ignores participants who are no longer in the match', () => {
+    expect(getExpensePlayerIds({ ...match, playerIds: ['a', 'c'] }, match.expenses[1])).toEqual(['a']);
+    expect(getExpensePlayerIds(match, match.expenses[0])).toEqual(['a', 'b', 'c']);
+  });
+
+  it('spreads rounding leftovers across expenses', () => {
+    const { shares } = calculateMatchShares(makeMatch({ expenses: costs(300, 100), playerIds: ['a', 'b'] }));
+    expect(shares).toEqual({ a: 200, b: 200 });
+  });
+
+  it('takes fixed amounts from the expenses the player shares', () => {
+    const { ground, cafeteria } = calculateExpenseShares({ ...match, playerShares: { c: { fixedAmount: 50000 } } });
+    expect(ground.shares).toEqual({ a: 125000, b: 125000, c: 50000 });
+    expect(cafeteria.shares).toEqual({ a: 30000, b: 30000 });
+  });
+});
+
+describe('attendance', () => {
+  const match = makeMatch({ expenses: costs(300000, 60000), playerIds: ['a', 'b', 'c'] });
+
+  it('keeps charging a no-show a full share', () => {
+    const { shares } = calculateMatchShares({ ...match, attendance: { c: 'no-show-charged' } });
+    expect(shares).toEqual({ a: 120000, b: 120000, c: 120000 });
+  });
+
+  it('charges a late withdrawal only for the ground', () => {
+    const { shares } = calculateMatchShares({ ...match, attendance: { c: 'late-withdrawal' } });
+    expect(shares).toEqual({ a: 130000, b: 130000, c: 100000 });
+  });
+
+  it('spreads an excused no-show across the others, even on a fixed amount', () => {
+    expect(calculateMatchShares({ ...match, attendance: { c: 'no-show-excused' } }).shares)
+      .toEqual({ a: 180000, b: 180000, c: 0 });
+    const fixed = { ...match, attendance: { c: 'no-show-excused' as const }, playerShares: { c: { fixedAmount: 50000 } } };
+    expect(calculateMatchShares(fixed)).toEqual({ shares: { a: 180000, b: 180000, c: 0 }, kitty: 0 });
+  });
+});
+
+describe('expense lines', () => {
+  const match = makeMatch({
+    playerIds: ['a', 'b', 'c'],
+    expenses: [
+      ...costs(300000, 0),
+      { id: 'balls', name: 'New ball', amount: 90000, category: 'balls', playerIds: ['a', 'b'] },
+      { id: 'umpire', name: 'Umpire fee', amount: 60000, category: 'umpire' }
+    ]
+  });
+
+  it('adds every line into the match cost and the shares', () => {
+    const { shares } = calculateMatchShares(match);
+    expect(shares).toEqual({ a: 165000, b: 165000, c: 120000 });
+  });
+
+  it('breaks a player share down by category', () => {
+    expect(calculatePlayerCategoryShares(match, 'a')).toEqual({ ground: 100000, balls: 45000, umpire: 20000 });
+    expect(calculatePlayerCategoryShares(match, 'c')).toEqual({ ground: 100000, umpire: 20000 });
+  });
+});
+
+describe('called-off matches', () => {
+  const match = makeMatch({ playerIds: ['a', 'b'], expenses: costs(300000, 60000), refund: 200000 });
+
+  it('ignores the refund while the match is on', () => {
+    expect(calculateMatchTotalCost(match)).toBe(360000);
+    expect(calculateMatchTotalCost({ ...match, status: 'scheduled' })).toBe(360000);
+  });
+
+  it('takes the refund off the ground first', () => {
+    const abandoned = { ...match, status: 'abandoned' as const };
+    expect(getChargedExpenses(abandoned).map(e => e.amount)).toEqual([100000, 60000]);
+    expect(calculateMatchShares(abandoned).shares).toEqual({ a: 80000, b: 80000 });
+  });
+
+  it('never refunds more than the match cost', () => {
+    const cancelled = { ...match, status: 'cancelled' as const, refund: 500000 };
+    expect(calculateMatchTotalCost(cancelled)).toBe(0);
+    expect(calculateMatchShares(cancelled).shares).toEqual({ a: 0, b: 0 });
+  });
+
+  it('re-prices payments without touching what was paid', () => {
+    const paid = syncMatchPayments(match);
+    const withReceipt = { ...paid, payments: paid.payments.map(p => recordReceipt(p, 180000)) };
+    const abandoned = syncMatchPayments({ ...withReceipt, status: 'abandoned' });
+    expect(abandoned.payments.map(p => [p.amountDue, p.amountPaid, p.status])).toEqual([
+      [80000, 180000, 'paid'],
+      [80000, 180000, 'paid']
+    ]);
+  });
+});
+
+describe('guests', () => {
+  const match = makeMatch({ expenses: costs(300000, 0), playerIds: ['a', 'b', 'g'], billedTo: { g: 'a' } });
+
+  it('adds a billed guest share to the host', () => {
+    expect(calculateMatchShares(match).shares).toEqual({ a: 200000, b: 100000 });
+    expect(calculatePlayerCategoryShares(match, 'a')).toEqual({ ground: 200000 });
+  });
+
+  it('bills a host who did not play', () => {
+    const synced = syncMatchPayments({ ...match, playerIds: ['b', 'g'] });
+    expect(synced.payments.map(p => [p.playerId, p.amountDue])).toEqual([['b', 150000], ['a', 150000]]);
+  });
+});
@@ -1,61 +1,308 @@
-import { Player, Match, Payment } from '../types';
+import { AttendanceStatus, Expense, ExpenseCategory, Match, MatchStatus, Payment, PaymentMethod, Receipt, RoundingPolicy } from '../types';
+import { DEFAULT_ROUNDING_POLICY, SplitResult, splitAmount } from './money';
+import { DEFAULT_SETTINGS } from './settings';
+import { addDays, format, parse } from 'date-fns';
 
-export const calculateMatchCostPerPlayer = (match: Match): number => {
-  if (match.playerIds.length === 0) return 0;
-  const totalCost = match.groundCost + match.cafeteriaCost;
-  return totalCost / match.playerIds.length;
+export const EXPENSE_CATEGORIES: { value: ExpenseCategory; label: string }[] = [
+  { value: 'ground', label: 'Ground' },
+  { value: 'cafeteria', label: 'Cafeteria' },
+  { value: 'balls', label: 'Balls' },
+  { value: 'umpire', label: 'Umpire' },
+  { value: 'scorer', label: 'Scorer' },
+  { value: 'water', label: 'Water' },
+  { value: 'parking', label: 'Parking' },
+  { value: 'other', label: 'Other' }
+];
+
+export const getCategoryLabel = (category: ExpenseCategory): string => {
+  return EXPENSE_CATEGORIES.find(c => c.value === category)?.label || category;
+};
+
+export const createExpense = (category: ExpenseCategory, amount = 0, name = getCategoryLabel(category)): Expense => {
+  return {
+    id: generateUUID(),
+    name,
+    amount,
+    category
+  };
+};
+
+// Every new match starts with the two costs we always have
+export const getDefaultExpenses = (): Expense[] => [createExpense('ground'), createExpense('cafeteria')];
+
+export const MATCH_STATUSES: { value: MatchStatus; label: string }[] = [
+  { value: 'scheduled', label: 'Scheduled' },
+  { value: 'played', label: 'Played' },
+  { value: 'abandoned', label: 'Abandoned' },
+  { value: 'cancelled', label: 'Cancelled' }
+];
+
+export const getMatchStatus = (match: Match): MatchStatus => match.status || 'played';
+
+export const getMatchStatusLabel = (match: Match): string => {
+  const status = getMatchStatus(match);
+  return MATCH_STATUSES.find(s => s.value === status)?.label || status;
+};
+
+// A refund only counts once the match is called off, and never beyond what the expenses cost
+export const calculateMatchRefund = (match: Match): number => {
+  const status = getMatchStatus(match);
+  if (status !== 'abandoned' && status !== 'cancelled') return 0;
+  const gross = match.expenses.reduce((sum, expense) => sum + Math.max(0, expense.amount), 0);
+  return Math.min(Math.max(0, match.refund || 0), gross);
+};
+
+// The expenses as they are charged: a refund comes off the ground expenses first and then
+// the others in order, so it goes back to whoever paid for the refunded expense
+export const getChargedExpenses = (match: Match): Expense[] => {
+  let left = calculateMatchRefund(match);
+  if (left === 0) return match.expenses;
+  const order = [
+    ...match.expenses.filter(expense => expense.category === 'ground'),
+    ...match.expenses.filter(expense => expense.category !== 'ground')
+  ];
+  const refunded: { [expenseId: string]: number } = {};
+  order.forEach(expense => {
+    const taken = Math.min(left, Math.max(0, expense.amount));
+    refunded[expense.id] = taken;
+    left -= taken;
+  });
+  return match.expenses.map(expense => ({ ...expense, amount: expense.amount - refunded[expense.id] }));
+};
+
+// What the match costs the team, after any refund
+export const calculateMatchTotalCost = (match: Match): number => {
+  return getChargedExpenses(match).reduce((sum, expense) => sum + expense.amount, 0);
+};
+
+export const ATTENDANCE_STATUSES: { value: AttendanceStatus; label: string }[] = [
+  { value: 'played', label: 'Played' },
+  { value: 'no-show-charged', label: 'No-show (charged)' },
+  { value: 'no-show-excused', label: 'No-show (excused)' },
+  { value: 'late-withdrawal', label: 'Late withdrawal' }
+];
+
+export const getAttendance = (match: Match, playerId: string): AttendanceStatus => {
+  return match.attendance?.[playerId] || 'played';
+};
+
+export const getAttendanceLabel = (status: AttendanceStatus): string => {
+  return ATTENDANCE_STATUSES.find(s => s.value === status)?.label || status;
+};
+
+const sharesExpense = (match: Match, playerId: string, expense: Expense): boolean => {
+  const attendance = getAttendance(match, playerId);
+  if (attendance === 'no-show-excused') return false;
+  if (attendance === 'late-withdrawal') return expense.category === 'ground';
+  return true;
 };
 
-export const calculatePlayerDue = (match: Match, playerId: string): number => {
-  if (!match.playerIds.includes(playerId)) return 0;
-  return calculateMatchCostPerPlayer(match);
+// Players sharing an expense; everyone in the match unless narrowed down, less those
+// whose attendance leaves them out of it
+export const getExpensePlayerIds = (match: Match, expense: Expense): string[] => {
+  const participants = expense.playerIds;
+  return (participants ? match.playerIds.filter(id => participants.includes(id)) : match.playerIds)
+    .filter(id => sharesExpense(match, id, expense));
+};
+
+// Splits each expense among its own participants. Players with a fixed amount
+// pay exactly that, taken from the expenses they share in order; everyone else
+// splits what is left of each expense by weight. Fixed amounts beyond what the
+// expenses cost are counted as kitty surplus, except on a refunded match where
+// nobody pays more than is left to pay.
+export const calculateExpenseShares = (
+  match: Match,
+  policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY
+): { [expenseId: string]: SplitResult } => {
+  const playerShares = match.playerShares || {};
+  const expenses = getChargedExpenses(match);
+  const refunded = calculateMatchRefund(match) > 0;
+  const remaining: { [expenseId: string]: number } = {};
+  const fixedShares: { [expenseId: string]: { [playerId: string]: number } } = {};
+  const surplus: { [expenseId: string]: number } = {};
+  expenses.forEach(expense => {
+    remaining[expense.id] = expense.amount;
+    fixedShares[expense.id] = {};
+    surplus[expense.id] = 0;
+  });
+
+  match.playerIds.forEach(playerId => {
+    const fixedAmount = playerShares[playerId]?.fixedAmount;
+    if (fixedAmount === undefined || getAttendance(match, playerId) === 'no-show-excused') return;
+    const shared = expenses.filter(expense => getExpensePlayerIds(match, expense).includes(playerId));
+    let left = fixedAmount;
+    shared.forEach(expense => {
+      const taken = Math.min(left, Math.max(0, remaining[expense.id]));
+      fixedShares[expense.id][playerId] = taken;
+      remaining[expense.id] -= taken;
+      left -= taken;
+    });
+    const lastExpense = shared[shared.length - 1] || expenses[0];
+    if (!lastExpense || refunded) return;
+    fixedShares[lastExpense.id][playerId] = (fixedShares[lastExpense.id][playerId] || 0) + left;
+    surplus[lastExpense.id] += left;
+  });
+
+  // How far each player's rounded shares so far are above their exact shares, so
+  // leftovers of later expenses go to whoever has been rounded down the most
+  const roundedUp: { [playerId: string]: number } = {};
+
+  const result: { [expenseId: string]: SplitResult } = {};
+  expenses.forEach(expense => {
+    const weightedIds = getExpensePlayerIds(match, expense).filter(id => playerShares[id]?.fixedAmount === undefined);
+    const weights: { [playerId: string]: number } = {};
+    weightedIds.forEach(id => { weights[id] = Math.max(0, playerShares[id]?.weight ?? 1); });
+    const totalWeight = weightedIds.reduce((sum, id) => sum + weights[id], 0);
+
+    const preferred = (policy.remainderPlayerIds || []).filter(id => weightedIds.includes(id));
+    const others = weightedIds
+      .filter(id => !preferred.includes(id))
+      .sort((a, b) => (roundedUp[a] || 0) - (roundedUp[b] || 0));
+    const split = splitAmount(remaining[expense.id], weightedIds, { ...policy, remainderPlayerIds: [...preferred, ...others] }, weights);
+
+    weightedIds.forEach(id => {
+      const exactShare = totalWeight > 0 ? remaining[expense.id] * weights[id] / totalWeight : 0;
+      roundedUp[id] = (roundedUp[id] || 0) + split.shares[id] - exactShare;
+    });
+    result[expense.id] = {
+      shares: { ...split.shares, ...fixedShares[expense.id] },
+      kitty: split.kitty + surplus[expense.id]
+    };
+  });
+
+  // Membership fees pay the covered part of a member's share, so the kitty picks it up.
+  // Players on a fixed amount pay exactly that whatever their plan.
+  Object.entries(match.membershipCover || {}).forEach(([playerId, cover]) => {
+    if (!match.playerIds.includes(playerId) || playerShares[playerId]?.fixedAmount !== undefined) return;
+    let left = cover.amountPerMatch;
+    expenses.filter(expense => expense.category === cover.category).forEach(expense => {
+      const share = result[expense.id].shares[playerId] || 0;
+      const covered = Math.min(left, share);
+      if (covered <= 0) return;
+      result[expense.id].shares[playerId] = share - covered;
+      result[expense.id].kitty -= covered;
+      left -= covered;
+    });
+  });
+  return result;
+};
+
+// Who pays a player's share: their host for a guest billed to them, otherwise the player
+export const getPayerId = (match: Match, playerId: string): string => match.billedTo?.[playerId] || playerId;
+
+// The players who owe something for the match, in match order; a host who did not play
+// still owes for their guests
+export const getPayingPlayerIds = (match: Match): string[] => {
+  return Array.from(new Set(match.playerIds.map(playerId => getPayerId(match, playerId))));
+};
+
+// Guests' shares are split like anyone else's and then added to whoever pays for them
+export const calculateMatchShares = (match: Match, policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY): SplitResult => {
+  const expenseShares = calculateExpenseShares(match, policy);
+  const shares: { [playerId: string]: number } = {};
+  match.playerIds.forEach(playerId => {
+    const payerId = getPayerId(match, playerId);
+    const share = match.expenses.reduce((sum, expense) => sum + (expenseShares[expense.id].shares[playerId] || 0), 0);
+    shares[payerId] = (shares[payerId] || 0) + share;
+  });
+  return { shares, kitty: match.expenses.reduce((sum, expense) => sum + expenseShares[expense.id].kitty, 0) };
+};
+
+// A player's share of the match broken down by expense category
+export const calculatePlayerCategoryShares = (
+  match: Match,
+  playerId: string,
+  policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY
+): { [category in ExpenseCategory]?: number } => {
+  const expenseShares = calculateExpenseShares(match, policy);
+  const byCategory: { [category in ExpenseCategory]?: number } = {};
+  const paidFor = match.playerIds.filter(id => getPayerId(match, id) === playerId);
+  match.expenses.forEach(expense => {
+    const share = paidFor.reduce((sum, id) => sum + (expenseShares[expense.id].shares[id] || 0), 0);
+    if (share) byCategory[expense.category] = (byCategory[expense.category] || 0) + share;
+  });
+  return byCategory;
+};
+
+export const calculatePlayerDue = (match: Match, playerId: string, policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY): number => {
+  if (!getPayingPlayerIds(match).includes(playerId)) return 0;
+  return calculateMatchShares(match, policy).shares[playerId] || 0;
 };
 
 export const getPlayerPayment = (match: Match, playerId: string): Payment | undefined => {
   return match.payments.find(p => p.playerId === playerId);
 };
 
-export const calculatePlayerBalance = (player: Player, allMatches: Match[]): number => {
-  let balance = player.balance; // Starting balance
-  
-  allMatches.forEach(match => {
-    const payment = getPlayerPayment(match, player.id);
-    if (payment) {
-      const due = calculatePlayerDue(match, player.id);
-      balance += (payment.amountPaid - due);
-    } else if (match.playerIds.includes(player.id)) {
-      // Player played but no payment record exists
-      const due = calculatePlayerDue(match, player.id);
-      balance += due; // Add to amount owed
-    }
-  });
-  
-  return balance;
+export const getReceiptsTotal = (receipts: Receipt[]): number => {
+  return receipts.reduce((sum, receipt) => sum + receipt.amount, 0);
+};
+
+// Everything the payment asks for: the player's share plus any late fee
+export const getPaymentTotal = (payment: Payment): number => {
+  return payment.amountDue + (payment.lateFee || 0);
+};
+
+export const calculateDueDate = (matchDate: string, graceDays: number = DEFAULT_SETTINGS.graceDays): string => {
+  return format(addDays(parse(matchDate, 'yyyy-MM-dd', new Date()), graceDays), 'yyyy-MM-dd');
 };
 
 export const updatePaymentStatus = (payment: Payment): Payment => {
-  if (payment.amountPaid === 0) {
-    return { ...payment, status: 'pending' };
-  } else if (payment.amountPaid >= payment.amountDue) {
-    return { ...payment, status: 'paid' };
+  const amountPaid = getReceiptsTotal(payment.receipts);
+  const covered = amountPaid + (payment.creditApplied || 0);
+  if (covered === 0) {
+    return { ...payment, amountPaid, status: 'pending' };
+  } else if (covered >= getPaymentTotal(payment)) {
+    return { ...payment, amountPaid, status: 'paid' };
   } else {
-    return { ...payment, status: 'partial' };
+    return { ...payment, amountPaid, status: 'partial' };
   }
 };
 
-export const createPayment = (matchId: string, playerId: string, amountDue: number): Payment => {
+export const createPayment = (
+  match: Match,
+  playerId: string,
+  policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  graceDays: number = DEFAULT_SETTINGS.graceDays
+): Payment => {
   return {
     id: generateUUID(),
-    matchId,
+    matchId: match.id,
     playerId,
-    amountDue,
+    amountDue: calculatePlayerDue(match, playerId, policy),
     amountPaid: 0,
     status: 'pending',
-    date: new Date().toISOString()
+    date: new Date().toISOString(),
+    receipts: [],
+    dueDate: calculateDueDate(match.date, graceDays)
+  };
+};
+
+// Creates or re-prices a payment for every player who pays for the match from the current
+// split. Existing payments keep their due date, so editing a match does not move it, and
+// keep any late fee unless the match no longer costs them anything.
+export const syncMatchPayments = (
+  match: Match,
+  policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  graceDays: number = DEFAULT_SETTINGS.graceDays
+): Match => {
+  const { shares } = calculateMatchShares(match, policy);
+  return {
+    ...match,
+    payments: getPayingPlayerIds(match).map(playerId => {
+      const existingPayment = getPlayerPayment(match, playerId);
+      return existingPayment
+        ? updatePaymentStatus({
+          ...existingPayment,
+          amountDue: shares[playerId],
+          lateFee: shares[playerId] > 0 ? existingPayment.lateFee : undefined,
+          dueDate: existingPayment.dueDate || calculateDueDate(match.date, graceDays)
+        })
+        : createPayment(match, playerId, policy, graceDays);
+    })
   };
 };
 
-const generateUUID = (): string => {
+export const generateUUID = (): string => {
   if (typeof crypto !== 'undefined' && crypto.randomUUID) {
     return crypto.randomUUID();
   }
@@ -66,26 +313,58 @@ const generateUUID = (): string => {
   });
 };
 
-export const markAsPaid = (payment: Payment): Payment => {
+export interface ReceiptDetails {
+  method?: PaymentMethod;
+  note?: string;
+  date?: string;
+  collectedBy?: string;
+}
+
+export const createReceipt = (amount: number, details: ReceiptDetails = {}): Receipt => {
   return {
-    ...payment,
-    amountPaid: payment.amountDue,
-    status: 'paid'
+    id: generateUUID(),
+    amount,
+    date: details.date || new Date().toISOString(),
+    method: details.method || 'cash',
+    note: details.note,
+    collectedBy: details.collectedBy
   };
 };
 
-export const markAsUnpaid = (payment: Payment): Payment => {
-  return {
+export const recordReceipt = (payment: Payment, amount: number, details: ReceiptDetails = {}): Payment => {
+  if (amount === 0) return payment;
+  return updatePaymentStatus({
     ...payment,
-    amountPaid: 0,
-    status: 'pending'
-  };
+    receipts: [...payment.receipts, createReceipt(amount, details)]
+  });
 };
 
-export const setPartialPayment = (payment: Payment, amount: number): Payment => {
-  const updatedPayment = {
-    ...payment,
-    amountPaid: amount
-  };
-  return updatePaymentStatus(updatedPayment);
-};
\ No newline at end of file
+export const markAsPaid = (payment: Payment, details: ReceiptDetails = {}): Payment => {
+  const outstanding = getPaymentTotal(payment) - payment.amountPaid - (payment.creditApplied || 0);
+  if (outstanding <= 0) return updatePaymentStatus(payment);
+  return recordReceipt(payment, outstanding, details);
+};
+
+export const markAsUnpaid = (payment: Payment): Payment => {
+  // Reverse what was received rather than dropping the history, against whoever collected it
+  const collected: { [collectorId: string]: number } = {};
+  payment.receipts.forEach(receipt => {
+    const key = receipt.collectedBy || '';
+    collected[key] = (collected[key] || 0) + receipt.amount;
+  });
+  return Object.keys(collected).reduce(
+    (reversed, collectorId) => recordReceipt(reversed, -collected[collectorId], {
+      note: 'Marked as unpaid',
+      collectedBy: collectorId || undefined
+    }),
+    payment
+  );
+};
+
+export const setPartialPayment = (payment: Payment, amount: number, details: ReceiptDetails = {}): Payment => {
+  const difference = amount - payment.amountPaid;
+  return recordReceipt(payment, difference, {
+    ...details,
+    note: details.note || (difference < 0 ? 'Correction' : undefined)
+  });
+};
@@ -0,0 +1,41 @@
+import { AppData, Club, Match } from '../types';
+import { syncMatchPayments } from './calculations';
+import { deleteClub, getClubExpenses, getClubTotals } from './clubs';
+
+const micc: Club = { id: 'micc', name: 'MICC', homeGround: 'Marine Drive', defaultGroundCost: 90000, colour: '#2c5282' };
+const sadhooz: Club = { id: 'sadhooz', name: 'Sadhooz', defaultGroundCost: 60000, colour: '#c05621' };
+
+const match = (id: string, clubId: string, amount: number): Match => syncMatchPayments({
+  id,
+  date: '2025-01-04',
+  clubId,
+  expenses: [{ id: `${id}-ground`, name: 'Ground', amount, category: 'ground' }],
+  playerIds: ['sai', 'rahul'],
+  payments: []
+});
+
+const appData: AppData = {
+  players: [],
+  clubs: [micc, sadhooz],
+  weekends: [{ id: 'w1', startDate: '2025-01-04', matches: [match('m1', 'micc', 100000), match('m2', 'micc', 50000)] }],
+  currentWeekendId: 'w1'
+};
+
+describe('clubs', () => {
+  it('starts new matches with the club\'s ground cost', () => {
+    expect(getClubExpenses(micc).map(expense => [expense.category, expense.amount])).toEqual([['ground', 90000], ['cafeteria', 0]]);
+  });
+
+  it('totals spend and outstanding dues per club', () => {
+    expect(getClubTotals(appData, [match('m1', 'micc', 100000), match('m2', 'micc', 50000), match('m3', 'gone', 20000)]))
+      .toEqual([
+        expect.objectContaining({ clubId: 'micc', name: 'MICC', matchCount: 2, spent: 150000, outstanding: 150000 }),
+        expect.objectContaining({ clubId: 'gone', name: 'Unknown club', matchCount: 1, spent: 20000 })
+      ]);
+  });
+
+  it('only deletes clubs without matches', () => {
+    expect(deleteClub(appData, 'micc')).toBe(appData);
+    expect(deleteClub(appData, 'sadhooz').clubs).toEqual([micc]);
+  });
+});
@@ -0,0 +1,77 @@
+import { AppData, Club, Expense, Match } from '../types';
+import { calculateMatchTotalCost, createExpense, generateUUID, getDefaultExpenses } from './calculations';
+import { getOutstanding } from './lateFees';
+import { getAllMatches } from './ledger';
+
+export const DEFAULT_CLUB_COLOUR = '#2c5282';
+
+export interface ClubTotal {
+  club?: Club; // unset for matches whose club has been deleted
+  clubId: string;
+  name: string;
+  colour: string;
+  matchCount: number;
+  spent: number;
+  outstanding: number;
+}
+
+export const getClubs = (appData: AppData): Club[] => appData.clubs || [];
+
+export const getClub = (appData: AppData, clubId: string): Club | undefined => {
+  return getClubs(appData).find(club => club.id === clubId);
+};
+
+export const getClubName = (appData: AppData, clubId: string): string => {
+  return getClub(appData, clubId)?.name || 'Unknown club';
+};
+
+export const getDefaultClubId = (appData: AppData): string => getClubs(appData)[0]?.id || '';
+
+export const createClub = (club: Omit<Club, 'id'>): Club => ({ id: generateUUID(), ...club });
+
+export const updateClub = (appData: AppData, clubId: string, updates: Partial<Omit<Club, 'id'>>): AppData => ({
+  ...appData,
+  clubs: getClubs(appData).map(club => (club.id === clubId ? { ...club, ...updates } : club))
+});
+
+export const isClubInUse = (appData: AppData, clubId: string): boolean => {
+  return getAllMatches(appData).some(match => match.clubId === clubId);
+};
+
+// Clubs with matches recorded against them cannot be deleted, so those matches keep their name
+export const deleteClub = (appData: AppData, clubId: string): AppData => {
+  if (isClubInUse(appData, clubId)) return appData;
+  return { ...appData, clubs: getClubs(appData).filter(club => club.id !== clubId) };
+};
+
+// New matches start with the club's usual ground cost
+export const getClubExpenses = (club?: Club): Expense[] => {
+  if (!club) return getDefaultExpenses();
+  return [createExpense('ground', club.defaultGroundCost), createExpense('cafeteria')];
+};
+
+// Spend and what is still owed per club, in the order the clubs are listed
+export const getClubTotals = (appData: AppData, matches: Match[]): ClubTotal[] => {
+  const clubIds = [
+    ...getClubs(appData).map(club => club.id),
+    ...matches.map(match => match.clubId)
+  ].filter((clubId, index, all) => all.indexOf(clubId) === index);
+
+  return clubIds
+    .map(clubId => {
+      const club = getClub(appData, clubId);
+      const clubMatches = matches.filter(match => match.clubId === clubId);
+      return {
+        club,
+        clubId,
+        name: club?.name || 'Unknown club',
+        colour: club?.colour || DEFAULT_CLUB_COLOUR,
+        matchCount: clubMatches.length,
+        spent: clubMatches.reduce((sum, match) => sum + calculateMatchTotalCost(match), 0),
+        outstanding: clubMatches
+          .flatMap(match => match.payments)
+          .reduce((sum, payment) => sum + getOutstanding(payment), 0)
+      };
+    })
+    .filter(total => total.matchCount > 0);
+};
@@ -0,0 +1,96 @@
+import { AppData, Match } from '../types';
+import { recordReceipt, syncMatchPayments } from './calculations';
+import {
+  addHandover,
+  createHandover,
+  getCollectorIds,
+  getCollectorLedger,
+  getCollectorSummary,
+  getHandoverDate,
+  getUnreconciledCollections
+} from './collections';
+import { recordMembershipPayment } from './memberships';
+import { player } from './testHelpers';
+import { getTreasurySummary } from './treasury';
+
+const synced = syncMatchPayments({
+  id: 'm1',
+  date: '2025-01-04',
+  clubId: 'club-micc',
+  expenses: [{ id: 'ground', name: 'Ground', amount: 90000, category: 'ground' }],
+  playerIds: ['sai', 'rahul', 'arjun'],
+  payments: []
+});
+
+// Rahul took Sai's and Arjun's shares a day apart; Arjun paid the treasurer the rest
+const match: Match = {
+  ...synced,
+  payments: synced.payments.map(payment => {
+    if (payment.playerId === 'sai') return recordReceipt(payment, 30000, { collectedBy: 'rahul', date: '2025-01-04' });
+    if (payment.playerId === 'arjun') {
+      return recordReceipt(recordReceipt(payment, 20000, { collectedBy: 'rahul', method: 'upi', date: '2025-01-05' }), 10000, { date: '2025-01-05' });
+    }
+    return payment;
+  })
+};
+
+const appData: AppData = {
+  players: [player('sai'), player('rahul'), player('arjun'), player('amit')],
+  weekends: [{ id: 'w1', startDate: '2025-01-04', matches: [match] }],
+  currentWeekendId: 'w1',
+  settings: { rounding: { unit: 1, remainder: 'players' }, graceDays: 7, missingWeekends: 'create', treasurerId: 'amit', collectorIds: ['sai'] },
+  memberships: [{ id: 'ms1', planId: 'season', playerId: 'sai', fee: 50000, date: '2025-01-01', receipts: [] }]
+};
+
+const handedOver = addHandover(appData, createHandover({ collectorId: 'rahul', amount: 40000, date: '2025-01-06', method: 'cash' }));
+
+describe('getCollectorIds', () => {
+  it('lists named collectors and anyone who has collected, but not the treasurer', () => {
+    const paidTreasurer = recordMembershipPayment(appData, 'ms1', 50000, { collectedBy: 'amit' });
+    expect(getCollectorIds(paidTreasurer)).toEqual(['sai', 'rahul']);
+  });
+});
+
+describe('getCollectorSummary', () => {
+  it('holds what a collector took until it is handed over', () => {
+    expect(getCollectorSummary(appData, 'rahul')).toMatchObject({ collected: 50000, handedOver: 0, held: 50000 });
+    expect(getCollectorSummary(handedOver, 'rahul')).toMatchObject({ collected: 50000, handedOver: 40000, held: 10000 });
+  });
+
+  it('keeps a running balance of what the collector holds', () => {
+    expect(getCollectorLedger(handedOver, 'rahul').map(line => line.held)).toEqual([30000, 50000, 10000]);
+  });
+});
+
+describe('getHandoverDate', () => {
+  it('stamps a handover made today with the current time', () => {
+    const now = new Date(2025, 0, 5, 18, 30);
+    expect(getHandoverDate('2025-01-05', now)).toBe(now.toISOString());
+  });
+
+  it('keeps an earlier handover after that day\'s collections', () => {
+    const evening = recordReceipt(match.payments[1], 30000, { collectedBy: 'rahul', date: new Date(2025, 0, 5, 21, 0).toISOString() });
+    const data = addHandover(
+      { ...appData, weekends: [{ ...appData.weekends[0], matches: [{ ...match, payments: [match.payments[0], evening, match.payments[2]] }] }] },
+      createHandover({ collectorId: 'rahul', amount: 80000, date: getHandoverDate('2025-01-05', new Date(2025, 0, 19)), method: 'cash' })
+    );
+    expect(getCollectorLedger(data, 'rahul').map(line => line.held)).toEqual([30000, 50000, 80000, 0]);
+  });
+});
+
+describe('getUnreconciledCollections', () => {
+  it('settles the oldest collections first', () => {
+    expect(getUnreconciledCollections(appData, 'rahul').map(c => c.outstanding)).toEqual([30000, 20000]);
+    const left = getUnreconciledCollections(handedOver, 'rahul');
+    expect(left).toHaveLength(1);
+    expect(left[0]).toMatchObject({ playerId: 'arjun', outstanding: 10000 });
+    expect(left[0].receipt.method).toBe('upi');
+  });
+});
+
+describe('collections in the treasury', () => {
+  it('counts what collectors hold as cash until it is handed over', () => {
+    expect(getTreasurySummary(appData)).toMatchObject({ cash: 60000, heldByCollectors: 50000, difference: 0 });
+    expect(getTreasurySummary(handedOver)).toMatchObject({ cash: 60000, heldByCollectors: 10000, difference: 0 });
+  });
+});
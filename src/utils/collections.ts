@@ -0,0 +1,176 @@
+import { AppData, Handover, PaymentMethod, Receipt } from '../types';
+import { generateUUID } from './calculations';
+import { getKittyEntryLabel } from './kitty';
+import { getAllMatches } from './ledger';
+import { getPlan } from './memberships';
+import { formatMatchDate } from './schedule';
+import { getSettings } from './settings';
+import { endOfDay, format, parse } from 'date-fns';
+
+// Organisers take payments on the team's behalf and later hand them over to the treasurer.
+// Each receipt names who collected it; receipts without a collector, or taken by the
+// treasurer, went straight to the team. Handovers are matched against a collector's
+// collections oldest first, so whatever they still hold is their latest collections.
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'bank-transfer', label: 'Bank Transfer' },
+  { value: 'other', label: 'Other' }
+];
+
+export interface Collection {
+  receipt: Receipt;
+  playerId: string; // who paid
+  description: string; // what it was for
+  matchId?: string;
+}
+
+export interface CollectorLine {
+  date: string;
+  description: string;
+  amount: number; // positive = collected, negative = handed over
+  held: number; // what the collector holds after the line
+  method: PaymentMethod;
+  handoverId?: string;
+}
+
+export interface UnreconciledCollection extends Collection {
+  outstanding: number; // the part of the receipt not handed over yet
+}
+
+export interface CollectorSummary {
+  collectorId: string;
+  collected: number;
+  handedOver: number;
+  held: number;
+  unreconciled: UnreconciledCollection[];
+}
+
+export const getPaymentMethodLabel = (method: PaymentMethod): string => {
+  return PAYMENT_METHODS.find(m => m.value === method)?.label || method;
+};
+
+export const isWithCollector = (appData: AppData, receipt: Receipt): boolean => {
+  return !!receipt.collectedBy && receipt.collectedBy !== getSettings(appData).treasurerId;
+};
+
+// Every receipt a collector took, oldest first
+const getAllCollections = (appData: AppData): Collection[] => {
+  const collections: Collection[] = [];
+  getAllMatches(appData).forEach(match => {
+    match.payments.forEach(payment => payment.receipts.forEach(receipt => collections.push({
+      receipt,
+      playerId: payment.playerId,
+      description: `Match ${formatMatchDate(match, 'MMM dd, yyyy')}`,
+      matchId: match.id
+    })));
+  });
+  (appData.memberships || []).forEach(membership => membership.receipts.forEach(receipt => collections.push({
+    receipt,
+    playerId: membership.playerId,
+    description: `Membership ${getPlan(appData, membership.planId)?.name || ''}`.trim()
+  })));
+  (appData.kittyEntries || []).forEach(entry => entry.receipts.forEach(receipt => collections.push({
+    receipt,
+    playerId: entry.playerId || '',
+    description: entry.note || getKittyEntryLabel(entry.type)
+  })));
+  return collections
+    .filter(collection => isWithCollector(appData, collection.receipt))
+    .sort((a, b) => a.receipt.date.localeCompare(b.receipt.date));
+};
+
+export const getCollections = (appData: AppData, collectorId: string): Collection[] => {
+  return getAllCollections(appData).filter(collection => collection.receipt.collectedBy === collectorId);
+};
+
+// Whoever is named in settings, plus anyone who has collected or handed over money since
+export const getCollectorIds = (appData: AppData): string[] => {
+  const { collectorIds = [], treasurerId } = getSettings(appData);
+  const ids = [
+    ...collectorIds,
+    ...getAllCollections(appData).map(collection => collection.receipt.collectedBy!),
+    ...(appData.handovers || []).map(handover => handover.collectorId)
+  ];
+  return Array.from(new Set(ids)).filter(id => id !== treasurerId);
+};
+
+// Oldest first
+export const getHandovers = (appData: AppData, collectorId?: string): Handover[] => {
+  return (appData.handovers || [])
+    .filter(handover => !collectorId || handover.collectorId === collectorId)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Handovers are stamped like receipts so they sort among them. One dated today is stamped
+// now; one dated earlier is stamped at the end of that day, after that day's collections.
+export const getHandoverDate = (date: string, now: Date = new Date()): string => {
+  if (date === format(now, 'yyyy-MM-dd')) return now.toISOString();
+  return endOfDay(parse(date, 'yyyy-MM-dd', now)).toISOString();
+};
+
+export const createHandover = (handover: Omit<Handover, 'id'>): Handover => ({ id: generateUUID(), ...handover });
+
+export const addHandover = (appData: AppData, handover: Handover): AppData => ({
+  ...appData,
+  handovers: [...(appData.handovers || []), handover]
+});
+
+export const deleteHandover = (appData: AppData, handoverId: string): AppData => ({
+  ...appData,
+  handovers: (appData.handovers || []).filter(handover => handover.id !== handoverId)
+});
+
+// Collections and handovers in date order, with what the collector held after each
+export const getCollectorLedger = (appData: AppData, collectorId: string): CollectorLine[] => {
+  const lines: Omit<CollectorLine, 'held'>[] = [
+    ...getCollections(appData, collectorId).map(collection => ({
+      date: collection.receipt.date,
+      description: collection.description,
+      amount: collection.receipt.amount,
+      method: collection.receipt.method
+    })),
+    ...getHandovers(appData, collectorId).map(handover => ({
+      date: handover.date,
+      description: handover.note || 'Handed over',
+      amount: -handover.amount,
+      method: handover.method,
+      handoverId: handover.id
+    }))
+  ];
+  let held = 0;
+  return lines
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(line => {
+      held += line.amount;
+      return { ...line, held };
+    });
+};
+
+// Reversals give money back, so like handovers they account for the oldest collections first
+export const getUnreconciledCollections = (appData: AppData, collectorId: string): UnreconciledCollection[] => {
+  const collections = getCollections(appData, collectorId);
+  let accounted = getHandovers(appData, collectorId).reduce((sum, handover) => sum + handover.amount, 0) -
+    collections.filter(c => c.receipt.amount < 0).reduce((sum, c) => sum + c.receipt.amount, 0);
+  return collections
+    .filter(collection => collection.receipt.amount > 0)
+    .map(collection => {
+      const covered = Math.min(accounted, collection.receipt.amount);
+      accounted -= covered;
+      return { ...collection, outstanding: collection.receipt.amount - covered };
+    })
+    .filter(collection => collection.outstanding > 0);
+};
+
+export const getCollectorSummary = (appData: AppData, collectorId: string): CollectorSummary => {
+  const collected = getCollections(appData, collectorId).reduce((sum, c) => sum + c.receipt.amount, 0);
+  const handedOver = getHandovers(appData, collectorId).reduce((sum, handover) => sum + handover.amount, 0);
+  return {
+    collectorId,
+    collected,
+    handedOver,
+    held: collected - handedOver,
+    unreconciled: getUnreconciledCollections(appData, collectorId)
+  };
+};
@@ -0,0 +1,112 @@
+import { AppData, Match, Payment, Player } from '../types';
+import { recordReceipt, syncMatchPayments } from './calculations';
+import { allocateCredits, getPlayerCredit } from './credits';
+
+const player = (overrides: Partial<Player> = {}): Player => ({
+  id: 'a',
+  firstName: 'A',
+  mobile: '',
+  balance: 0,
+  ...overrides
+});
+
+const payment = (matchId: string, amountDue: number, amountPaid = 0): Payment => recordReceipt({
+  id: `${matchId}-a`,
+  playerId: 'a',
+  matchId,
+  amountDue,
+  amountPaid: 0,
+  status: 'pending',
+  date: '2025-01-01T00:00:00.000Z',
+  receipts: []
+}, amountPaid);
+
+const match = (id: string, date: string, p: Payment): Match => ({
+  id,
+  date,
+  clubId: 'club-micc',
+  expenses: [],
+  playerIds: ['a'],
+  payments: [p]
+});
+
+const appData = (p: Player, matches: Match[]): AppData => ({
+  players: [p],
+  weekends: matches.map((m, i) => ({ id: `w${i}`, startDate: m.date, matches: [m] })),
+  currentWeekendId: 'w0'
+});
+
+const payments = (data: AppData) => data.weekends.map(w => w.matches[0].payments[0]);
+
+describe('allocateCredits', () => {
+  it('uses an advance on the oldest dues first', () => {
+    const data = allocateCredits(appData(player({ advancePayment: 70000 }), [
+      match('m2', '2025-01-11', payment('m2', 50000)),
+      match('m1', '2025-01-04', payment('m1', 50000))
+    ]));
+    const [second, first] = payments(data);
+    expect(first).toMatchObject({ creditApplied: 50000, status: 'paid' });
+    expect(second).toMatchObject({ creditApplied: 20000, status: 'partial' });
+    expect(getPlayerCredit(data, data.players[0])).toEqual({ total: 70000, applied: 70000, remaining: 0 });
+  });
+
+  it('moves an overpayment onto other unpaid matches', () => {
+    const data = allocateCredits(appData(player(), [
+      match('m1', '2025-01-04', payment('m1', 50000, 80000)),
+      match('m2', '2025-01-11', payment('m2', 50000))
+    ]));
+    expect(payments(data)[1]).toMatchObject({ creditApplied: 30000, status: 'partial' });
+  });
+
+  it('turns what was paid for a washed-out match into credit', () => {
+    const rainedOff = syncMatchPayments({
+      ...match('m1', '2025-01-04', payment('m1', 50000, 50000)),
+      expenses: [{ id: 'ground', name: 'Ground', amount: 50000, category: 'ground' }],
+      status: 'abandoned',
+      refund: 30000
+    });
+    const data = allocateCredits(appData(player(), [rainedOff, match('m2', '2025-01-11', payment('m2', 50000))]));
+    expect(payments(data)[0]).toMatchObject({ amountDue: 20000, amountPaid: 50000 });
+    expect(payments(data)[1]).toMatchObject({ creditApplied: 30000, status: 'partial' });
+  });
+
+  it('nets arrears against the advance', () => {
+    const data = allocateCredits(appData(player({ advancePayment: 70000, arrears: 50000 }), [
+      match('m1', '2025-01-04', payment('m1', 50000))
+    ]));
+    expect(payments(data)[0].creditApplied).toBe(20000);
+  });
+
+  it('settles arrears and unpaid fees from an overpayment before other matches', () => {
+    const overpaid = match('m1', '2025-01-04', payment('m1', 80000, 130000));
+    const next = match('m2', '2025-01-11', payment('m2', 30000));
+    const inArrears = allocateCredits(appData(player({ arrears: 50000 }), [overpaid, next]));
+    expect(payments(inArrears)[1].creditApplied).toBeUndefined();
+    expect(payments(inArrears)[1].status).toBe('pending');
+    expect(getPlayerCredit(inArrears, inArrears.players[0]).total).toBe(0);
+
+    const withFee = allocateCredits({
+      ...appData(player(), [overpaid, next]),
+      memberships: [{ id: 'ms1', planId: 'season', playerId: 'a', fee: 40000, date: '2025-01-01', receipts: [] }]
+    });
+    expect(payments(withFee)[1]).toMatchObject({ creditApplied: 10000, status: 'partial' });
+  });
+
+  it('hands credit back when a match is removed', () => {
+    const allocated = allocateCredits(appData(player({ advancePayment: 70000 }), [
+      match('m1', '2025-01-04', payment('m1', 50000)),
+      match('m2', '2025-01-11', payment('m2', 50000))
+    ]));
+    const withoutFirst = allocateCredits({ ...allocated, weekends: allocated.weekends.slice(1) });
+    expect(payments(withoutFirst)[0]).toMatchObject({ creditApplied: 50000, status: 'paid' });
+    expect(getPlayerCredit(withoutFirst, withoutFirst.players[0]).remaining).toBe(20000);
+  });
+
+  it('takes credit back off a due when the advance is removed', () => {
+    const allocated = allocateCredits(appData(player({ advancePayment: 20000 }), [
+      match('m1', '2025-01-04', payment('m1', 50000))
+    ]));
+    const withoutAdvance = allocateCredits({ ...allocated, players: [player()] });
+    expect(payments(withoutAdvance)[0]).toMatchObject({ creditApplied: undefined, status: 'pending' });
+  });
+});
@@ -0,0 +1,67 @@
+import { AppData, Player } from '../types';
+import { getPaymentTotal, updatePaymentStatus } from './calculations';
+import { getKittyDue } from './kitty';
+import { getOpenWeekends, getOpeningBalance, getWeekendMatches, isWeekendLocked, mapWeekendMatches } from './ledger';
+import { getMembershipDue } from './memberships';
+
+// Credit is money a player has handed over beyond what they owed: an advance (or an
+// opening balance in their favour) and anything paid over the due on a match, less
+// whatever they still owe outside their match dues: arrears, membership fees and kitty
+// charges are settled from it first. It is never stored on its own; allocateCredits works it out from scratch, so editing or
+// deleting a match simply puts its share of the credit back in the pool. Weekends in a
+// closed period keep the credit they had; whatever was left is in the carried balance.
+
+export interface PlayerCredit {
+  total: number; // advance plus overpayments, less arrears and unpaid fees and charges
+  applied: number; // put towards match dues so far
+  remaining: number;
+}
+
+const getPlayerPayments = (appData: AppData, playerId: string) => {
+  return getOpenWeekends(appData)
+    .flatMap(getWeekendMatches)
+    .flatMap(match => match.payments.filter(payment => payment.playerId === playerId));
+};
+
+const getTotalCredit = (appData: AppData, player: Player): number => {
+  const overpaid = getPlayerPayments(appData, player.id)
+    .reduce((sum, payment) => sum + Math.max(0, payment.amountPaid - getPaymentTotal(payment)), 0);
+  const owedElsewhere = getOpeningBalance(player) + getMembershipDue(appData, player.id) + getKittyDue(appData, player.id);
+  return Math.max(0, overpaid - owedElsewhere);
+};
+
+// Applies each player's credit to their unpaid match dues, oldest match first
+export const allocateCredits = (appData: AppData): AppData => {
+  const allocations: { [paymentId: string]: number } = {};
+  appData.players.forEach(player => {
+    let pool = getTotalCredit(appData, player);
+    getPlayerPayments(appData, player.id).forEach(payment => {
+      const shortfall = Math.max(0, getPaymentTotal(payment) - payment.amountPaid);
+      const applied = Math.min(pool, shortfall);
+      pool -= applied;
+      if (applied > 0) allocations[payment.id] = applied;
+    });
+  });
+
+  return {
+    ...appData,
+    weekends: appData.weekends.map(weekend => {
+      if (isWeekendLocked(appData, weekend)) return weekend;
+      return mapWeekendMatches(weekend, match => ({
+        ...match,
+        payments: match.payments.map(payment => {
+          const creditApplied = allocations[payment.id];
+          if ((payment.creditApplied || 0) === (creditApplied || 0)) return payment;
+          return updatePaymentStatus({ ...payment, creditApplied });
+        })
+      }));
+    })
+  };
+};
+
+export const getPlayerCredit = (appData: AppData, player: Player): PlayerCredit => {
+  const total = getTotalCredit(appData, player);
+  const applied = getPlayerPayments(appData, player.id)
+    .reduce((sum, payment) => sum + (payment.creditApplied || 0), 0);
+  return { total, applied, remaining: total - applied };
+};
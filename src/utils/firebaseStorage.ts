@@ -13,6 +13,7 @@ import {
   getDocs
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { migrateData } from './migrations';
 import { AppData, Player, Weekend, Match } from '../types';
 
 const COLLECTION_NAME = 'cricket-cost-splitter';
@@ -53,7 +54,7 @@ export class FirebaseStorage {
         // Remove Firebase-specific fields
         const { lastUpdated, version, ...appData } = data;
         console.log('Data loaded from Firebase successfully');
-        return appData as AppData;
+        return migrateData(appData);
       } else {
         console.log('No data found in Firebase');
         return null;
@@ -70,7 +71,7 @@ export class FirebaseStorage {
       if (doc.exists()) {
         const data = doc.data() as any;
         const { lastUpdated, version, ...appData } = data;
-        callback(appData as AppData);
+        callback(migrateData(appData));
       } else {
         callback(null);
       }
@@ -0,0 +1,47 @@
+import { AppData, Match } from '../types';
+import { syncMatchPayments } from './calculations';
+import { applyGuests, createGuest, getMembers } from './guests';
+import { buildPlayerLedger } from './ledger';
+import { player } from './testHelpers';
+
+const guest = { ...createGuest('Kiran', 'sai'), id: 'kiran' };
+const paysDirectly = { ...createGuest('Vik', 'sai', true), id: 'vik' };
+
+const match = (playerIds: string[]): Match => ({
+  id: 'm1',
+  date: '2025-01-04',
+  clubId: 'club-micc',
+  expenses: [{ id: 'ground', name: 'Ground', amount: 90000, category: 'ground' }],
+  playerIds,
+  payments: []
+});
+
+const appData: AppData = {
+  players: [player('sai'), player('rahul'), guest, paysDirectly],
+  weekends: [],
+  currentWeekendId: 'w1'
+};
+
+describe('applyGuests', () => {
+  it('bills guests to their host unless they pay directly', () => {
+    expect(applyGuests(appData, match(['sai', 'kiran', 'vik'])).billedTo).toEqual({ kiran: 'sai' });
+  });
+
+  it('leaves a guest whose host was deleted to pay for themselves', () => {
+    const withoutHost = { ...appData, players: [player('rahul'), guest] };
+    expect(applyGuests(withoutHost, match(['rahul', 'kiran'])).billedTo).toBeUndefined();
+  });
+});
+
+describe('guest dues', () => {
+  it('charge the host in the ledger and keep the guest at zero', () => {
+    const saved = syncMatchPayments(applyGuests(appData, match(['sai', 'rahul', 'kiran'])));
+    const data = { ...appData, weekends: [{ id: 'w1', startDate: '2025-01-04', matches: [saved] }] };
+    expect(buildPlayerLedger(data, appData.players[0]).currentBalance).toBe(60000);
+    expect(buildPlayerLedger(data, guest).currentBalance).toBe(0);
+  });
+
+  it('are kept out of the member list', () => {
+    expect(getMembers(appData.players).map(p => p.id)).toEqual(['sai', 'rahul']);
+  });
+});
@@ -0,0 +1,40 @@
+import { AppData, Match, Player } from '../types';
+import { generateUUID } from './calculations';
+
+// A guest is a player brought along by a member, usually for a single match. Their share is
+// charged to the host unless they are marked to pay it themselves. Like membership cover, who
+// pays is settled when a match is saved and kept on the match, so changing a guest later does
+// not move dues already recorded.
+
+export const isGuest = (player: Player): boolean => !!player.hostId;
+
+export const getMembers = (players: Player[]): Player[] => players.filter(player => !isGuest(player));
+
+export const getGuests = (appData: AppData, hostId?: string): Player[] => {
+  return appData.players.filter(player => isGuest(player) && (!hostId || player.hostId === hostId));
+};
+
+export const getHost = (appData: AppData, guest: Player): Player | undefined => {
+  return appData.players.find(player => player.id === guest.hostId && !isGuest(player));
+};
+
+export const createGuest = (name: string, hostId: string, collectDirectly = false): Player => ({
+  id: generateUUID(),
+  firstName: name,
+  mobile: '',
+  balance: 0,
+  hostId,
+  collectDirectly: collectDirectly || undefined
+});
+
+// Guests whose host has since been deleted pay for themselves
+export const applyGuests = (appData: AppData, match: Match): Match => {
+  const billedTo: NonNullable<Match['billedTo']> = {};
+  match.playerIds.forEach(playerId => {
+    const guest = appData.players.find(player => player.id === playerId);
+    if (!guest || !isGuest(guest) || guest.collectDirectly) return;
+    const host = getHost(appData, guest);
+    if (host) billedTo[guest.id] = host.id;
+  });
+  return { ...match, billedTo: Object.keys(billedTo).length > 0 ? billedTo : undefined };
+};
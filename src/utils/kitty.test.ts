@@ -0,0 +1,28 @@
+import { AppData } from '../types';
+import { addKittyEntry, createKittyEntry, deleteKittyEntry, getKittyDue, recordKittyPayment } from './kitty';
+import { buildPlayerLedger } from './ledger';
+import { player } from './testHelpers';
+
+const fine = createKittyEntry({ type: 'fine', amount: 20000, date: '2025-01-04', playerId: 'sai', note: 'Late for toss' });
+const kit = createKittyEntry({ type: 'purchase', amount: 150000, date: '2025-01-05', note: 'Stumps' });
+
+const appData: AppData = [fine, kit].reduce(addKittyEntry, {
+  players: [player('sai'), player('rahul')],
+  weekends: [],
+  currentWeekendId: ''
+});
+
+describe('kitty charges', () => {
+  it('charges fines to the player in the ledger until they are paid', () => {
+    expect(buildPlayerLedger(appData, appData.players[0])).toMatchObject({ kittyDue: 20000, closingBalance: 20000 });
+    expect(getKittyDue(appData, 'rahul')).toBe(0);
+
+    const paid = recordKittyPayment(appData, fine.id, 20000);
+    expect(getKittyDue(paid, 'sai')).toBe(0);
+    expect(buildPlayerLedger(paid, paid.players[0]).closingBalance).toBe(0);
+  });
+
+  it('leaves purchases out of player balances', () => {
+    expect(getKittyDue(deleteKittyEntry(appData, fine.id), 'sai')).toBe(0);
+  });
+});
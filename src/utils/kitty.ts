@@ -0,0 +1,71 @@
+import { AppData, KittyEntry, KittyEntryType } from '../types';
+import { ReceiptDetails, createReceipt, generateUUID, getReceiptsTotal } from './calculations';
+
+// Kitty entries are the team fund's own transactions. Fines and contributions are charges
+// on a player, like membership fees: they count in the player's ledger balance until paid,
+// and the kitty gains them as soon as they are charged. Purchases and income move cash in
+// and out of the kitty directly.
+
+export const KITTY_ENTRY_TYPES: { value: KittyEntryType; label: string }[] = [
+  { value: 'fine', label: 'Fine' },
+  { value: 'contribution', label: 'Contribution' },
+  { value: 'purchase', label: 'Purchase' },
+  { value: 'income', label: 'Income' }
+];
+
+export const getKittyEntryLabel = (type: KittyEntryType): string => {
+  return KITTY_ENTRY_TYPES.find(t => t.value === type)?.label || type;
+};
+
+export const isPlayerCharge = (entry: KittyEntry): boolean => {
+  return entry.type === 'fine' || entry.type === 'contribution';
+};
+
+// Oldest first
+export const getKittyEntries = (appData: AppData): KittyEntry[] => {
+  return [...(appData.kittyEntries || [])].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const createKittyEntry = (entry: Omit<KittyEntry, 'id' | 'receipts'>): KittyEntry => ({
+  id: generateUUID(),
+  ...entry,
+  receipts: []
+});
+
+export const addKittyEntry = (appData: AppData, entry: KittyEntry): AppData => ({
+  ...appData,
+  kittyEntries: [...(appData.kittyEntries || []), entry]
+});
+
+export const deleteKittyEntry = (appData: AppData, entryId: string): AppData => ({
+  ...appData,
+  kittyEntries: (appData.kittyEntries || []).filter(entry => entry.id !== entryId)
+});
+
+export const recordKittyPayment = (
+  appData: AppData,
+  entryId: string,
+  amount: number,
+  details: ReceiptDetails = {}
+): AppData => {
+  if (amount === 0) return appData;
+  return {
+    ...appData,
+    kittyEntries: (appData.kittyEntries || []).map(entry => entry.id === entryId
+      ? { ...entry, receipts: [...entry.receipts, createReceipt(amount, details)] }
+      : entry)
+  };
+};
+
+export const getKittyEntryBalance = (entry: KittyEntry): number => {
+  return isPlayerCharge(entry) ? entry.amount - getReceiptsTotal(entry.receipts) : 0;
+};
+
+export const getPlayerKittyEntries = (appData: AppData, playerId: string): KittyEntry[] => {
+  return getKittyEntries(appData).filter(entry => isPlayerCharge(entry) && entry.playerId === playerId);
+};
+
+// Fines and contributions a player still owes, less anything paid over them
+export const getKittyDue = (appData: AppData, playerId: string): number => {
+  return getPlayerKittyEntries(appData, playerId).reduce((sum, entry) => sum + getKittyEntryBalance(entry), 0);
+};
@@ -0,0 +1,113 @@
+import { AppData, LateFeeRule, Match } from '../types';
+import { markAsPaid, syncMatchPayments } from './calculations';
+import { allocateCredits } from './credits';
+import { buildPlayerLedger } from './ledger';
+import { assessLateFees, calculateLateFee, getOverduePayments, resetUnpaidLateFees } from './lateFees';
+import { DEFAULT_SETTINGS } from './settings';
+import { player } from './testHelpers';
+
+const match: Match = syncMatchPayments({
+  id: 'm1',
+  date: '2025-01-04',
+  clubId: 'club-micc',
+  expenses: [{ id: 'ground', name: 'Ground', amount: 100000, category: 'ground' }],
+  playerIds: ['sai', 'rahul'],
+  payments: []
+});
+
+const appData = (lateFee?: LateFeeRule, players = [player('sai'), player('rahul')]): AppData => ({
+  players,
+  weekends: [{ id: 'w1', startDate: '2025-01-04', matches: [match] }],
+  currentWeekendId: 'w1',
+  settings: { ...DEFAULT_SETTINGS, lateFee }
+});
+
+const fees = (data: AppData) => data.weekends[0].matches[0].payments.map(p => p.lateFee);
+
+const afterDue = new Date(2025, 0, 12);
+
+describe('calculateLateFee', () => {
+  it('charges a flat fee or a capped percentage', () => {
+    expect(calculateLateFee(50000, { type: 'flat', amount: 5000 })).toBe(5000);
+    expect(calculateLateFee(50000, { type: 'percent', amount: 5 })).toBe(2500);
+    expect(calculateLateFee(50000, { type: 'percent', amount: 10, cap: 3000 })).toBe(3000);
+    expect(calculateLateFee(0, { type: 'flat', amount: 5000 })).toBe(0);
+  });
+});
+
+describe('assessLateFees', () => {
+  const rule: LateFeeRule = { type: 'flat', amount: 5000 };
+
+  it('stamps a due date a grace period after the match', () => {
+    expect(match.payments[0].dueDate).toBe('2025-01-11');
+  });
+
+  it('does nothing without a rule', () => {
+    const data = appData();
+    expect(assessLateFees(data, afterDue)).toBe(data);
+  });
+
+  it('waits until the due date has passed', () => {
+    expect(fees(assessLateFees(appData(rule), new Date(2025, 0, 11)))).toEqual([undefined, undefined]);
+  });
+
+  it('charges overdue payments once, as a separate charge', () => {
+    const charged = assessLateFees(appData(rule), afterDue);
+    expect(fees(charged)).toEqual([5000, 5000]);
+
+    const ledger = buildPlayerLedger(charged, charged.players[0]);
+    expect(ledger.totalDue).toBe(50000);
+    expect(ledger.lateFees).toBe(5000);
+    expect(ledger.currentBalance).toBe(55000);
+    expect(fees(assessLateFees(charged, new Date(2025, 1, 1)))).toEqual([5000, 5000]);
+  });
+
+  it('drops the fee once a match is refunded in full and nothing is due', () => {
+    const charged = assessLateFees(appData(rule), afterDue);
+    const cancelled = syncMatchPayments({ ...charged.weekends[0].matches[0], status: 'cancelled', refund: 100000 });
+    expect(cancelled.payments.map(p => [p.amountDue, p.lateFee])).toEqual([[0, undefined], [0, undefined]]);
+    expect(fees(assessLateFees({ ...charged, weekends: [{ ...charged.weekends[0], matches: [cancelled] }] }, afterDue)))
+      .toEqual([undefined, undefined]);
+  });
+
+  it('skips payments settled in time', () => {
+    const data = appData(rule);
+    const paid = {
+      ...data,
+      weekends: [{
+        ...data.weekends[0],
+        matches: [{ ...match, payments: match.payments.map(p => markAsPaid(p)) }]
+      }]
+    };
+    expect(fees(assessLateFees(paid, afterDue))).toEqual([undefined, undefined]);
+  });
+
+  it('asks for the fee on top of the due', () => {
+    const charged = assessLateFees(appData(rule), afterDue);
+    const settled = charged.weekends[0].matches[0].payments.map(p => markAsPaid(p));
+    expect(settled.map(p => [p.amountPaid, p.status])).toEqual([[55000, 'paid'], [55000, 'paid']]);
+  });
+
+  it('spares dues covered by credit', () => {
+    const data = allocateCredits(appData(rule, [player('sai', { advancePayment: 50000 }), player('rahul')]));
+    expect(fees(assessLateFees(data, afterDue))).toEqual([undefined, 5000]);
+  });
+});
+
+describe('resetUnpaidLateFees', () => {
+  it('charges unpaid fees again under a changed rule, leaving paid ones', () => {
+    const charged = assessLateFees(appData({ type: 'flat', amount: 500 }), afterDue);
+    const [sai, rahul] = charged.weekends[0].matches[0].payments;
+    const saiPaid = { ...charged, weekends: [{ ...charged.weekends[0], matches: [{ ...match, payments: [markAsPaid(sai), rahul] }] }] };
+    const changed = { ...saiPaid, settings: { ...DEFAULT_SETTINGS, lateFee: { type: 'flat' as const, amount: 5000 } } };
+    expect(fees(assessLateFees(changed, afterDue))).toEqual([500, 500]);
+    expect(fees(assessLateFees(resetUnpaidLateFees(changed), afterDue))).toEqual([500, 5000]);
+  });
+});
+
+describe('getOverduePayments', () => {
+  it('lists what is overdue and for how long', () => {
+    const overdue = getOverduePayments(appData(), 'sai', new Date(2025, 0, 14));
+    expect(overdue.map(o => [o.match.id, o.daysOverdue, o.outstanding])).toEqual([['m1', 3, 50000]]);
+  });
+});
@@ -0,0 +1,102 @@
+import { AppData, LateFeeRule, Match, Payment } from '../types';
+import { calculateDueDate, getPaymentTotal, updatePaymentStatus } from './calculations';
+import { getOpenWeekends, getWeekendMatches, isWeekendLocked, mapWeekendMatches } from './ledger';
+import { formatCurrency } from './money';
+import { getSettings } from './settings';
+import { differenceInCalendarDays, format, parse } from 'date-fns';
+
+// A late fee is charged once, the first time a payment is found unpaid after its due
+// date, and is worked out from what was outstanding then. It is stored on the payment so
+// paying the due afterwards does not make the fee disappear. Changing the rule takes back
+// fees that are still unpaid, so they are charged again under the new rule.
+
+export interface OverduePayment {
+  match: Match;
+  payment: Payment;
+  dueDate: string;
+  daysOverdue: number;
+  outstanding: number;
+}
+
+const toDateString = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Payments from before due dates were recorded fall due a grace period after the match
+export const getPaymentDueDate = (payment: Payment, match: Match, graceDays: number): string => {
+  return payment.dueDate || calculateDueDate(match.date, graceDays);
+};
+
+export const getOutstanding = (payment: Payment): number => {
+  return Math.max(0, getPaymentTotal(payment) - payment.amountPaid - (payment.creditApplied || 0));
+};
+
+export const calculateLateFee = (overdue: number, rule: LateFeeRule): number => {
+  if (overdue <= 0) return 0;
+  const fee = rule.type === 'flat' ? rule.amount : Math.round(overdue * rule.amount / 100);
+  return Math.max(0, rule.cap !== undefined ? Math.min(fee, rule.cap) : fee);
+};
+
+export const isPaymentOverdue = (payment: Payment, match: Match, today: Date, graceDays: number): boolean => {
+  return getOutstanding(payment) > 0 && toDateString(today) > getPaymentDueDate(payment, match, graceDays);
+};
+
+// Charges the late fee on every overdue payment that has not had one yet.
+// Weekends in a closed period are left alone.
+export const assessLateFees = (appData: AppData, today: Date): AppData => {
+  const { graceDays, lateFee } = getSettings(appData);
+  if (!lateFee) return appData;
+
+  return {
+    ...appData,
+    weekends: appData.weekends.map(weekend => {
+      if (isWeekendLocked(appData, weekend)) return weekend;
+      return mapWeekendMatches(weekend, match => ({
+        ...match,
+        payments: match.payments.map(payment => {
+          if (payment.lateFee !== undefined || !isPaymentOverdue(payment, match, today, graceDays)) return payment;
+          const fee = calculateLateFee(getOutstanding(payment), lateFee);
+          return fee > 0 ? updatePaymentStatus({ ...payment, lateFee: fee }) : payment;
+        })
+      }));
+    })
+  };
+};
+
+// Clears every late fee not yet paid off, ready to be assessed again. Weekends in a closed
+// period are left alone.
+export const resetUnpaidLateFees = (appData: AppData): AppData => ({
+  ...appData,
+  weekends: appData.weekends.map(weekend => {
+    if (isWeekendLocked(appData, weekend)) return weekend;
+    return mapWeekendMatches(weekend, match => ({
+      ...match,
+      payments: match.payments.map(payment => {
+        if (payment.lateFee === undefined || getOutstanding(payment) <= 0) return payment;
+        return updatePaymentStatus({ ...payment, lateFee: undefined });
+      })
+    }));
+  })
+});
+
+export const getOverduePayments = (appData: AppData, playerId: string, today: Date): OverduePayment[] => {
+  const { graceDays } = getSettings(appData);
+  return getOpenWeekends(appData)
+    .flatMap(getWeekendMatches)
+    .flatMap(match => match.payments
+      .filter(payment => payment.playerId === playerId && isPaymentOverdue(payment, match, today, graceDays))
+      .map(payment => {
+        const dueDate = getPaymentDueDate(payment, match, graceDays);
+        return {
+          match,
+          payment,
+          dueDate,
+          daysOverdue: differenceInCalendarDays(today, parse(dueDate, 'yyyy-MM-dd', new Date())),
+          outstanding: getOutstanding(payment)
+        };
+      }));
+};
+
+export const formatLateFeeRule = (rule: LateFeeRule, graceDays: number): string => {
+  const fee = rule.type === 'flat' ? formatCurrency(rule.amount) : `${rule.amount}% of the amount due`;
+  const cap = rule.cap !== undefined ? ` (up to ${formatCurrency(rule.cap)})` : '';
+  return `A late fee of ${fee}${cap} applies to dues unpaid ${graceDays} days after a match.`;
+};
@@ -0,0 +1,245 @@
+import { AppData, Match, Payment, Player, Weekend } from '../types';
+import {
+  buildLedger,
+  buildPlayerLedger,
+  calculateMatchEntry,
+  getCurrentMatchEntry,
+  getOpeningBalance,
+  getPaymentStatus,
+  getSortedWeekends
+} from './ledger';
+import { player } from './testHelpers';
+
+const payment = (playerId: string, matchId: string, amountDue: number, amountPaid = 0): Payment => ({
+  id: `${matchId}-${playerId}`,
+  playerId,
+  matchId,
+  amountDue,
+  amountPaid,
+  status: amountPaid === 0 ? 'pending' : amountPaid >= amountDue ? 'paid' : 'partial',
+  date: '2025-01-01T00:00:00.000Z',
+  receipts: amountPaid ? [{ id: `${matchId}-${playerId}-r1`, amount: amountPaid, date: '2025-01-05T00:00:00.000Z', method: 'cash' }] : []
+});
+
+const match = (id: string, date: string, playerIds: string[], payments: Payment[], groundCost = 400, cafeteriaCost = 0): Match => ({
+  id,
+  date,
+  clubId: 'club-micc',
+  expenses: [
+    { id: `${id}-ground`, name: 'Ground', amount: groundCost, category: 'ground' },
+    { id: `${id}-cafeteria`, name: 'Cafeteria', amount: cafeteriaCost, category: 'cafeteria' }
+  ],
+  playerIds,
+  payments
+});
+
+const weekend = (id: string, startDate: string, matches: Match[] = []): Weekend => ({ id, startDate, matches });
+
+describe('getOpeningBalance', () => {
+  it('adds arrears and subtracts advances from the starting balance', () => {
+    expect(getOpeningBalance(player('a', { balance: 50, arrears: 200, advancePayment: 75 }))).toBe(175);
+  });
+
+  it('treats missing arrears and advances as zero', () => {
+    expect(getOpeningBalance(player('a', { balance: -20 }))).toBe(-20);
+  });
+});
+
+describe('getPaymentStatus', () => {
+  it('is paid when nothing is owed', () => {
+    expect(getPaymentStatus(0, 0)).toBe('paid');
+    expect(getPaymentStatus(-100, 0)).toBe('paid');
+  });
+
+  it('is partial when something was paid but a balance remains', () => {
+    expect(getPaymentStatus(50, 150)).toBe('partial');
+  });
+
+  it('is pending when nothing was paid and a balance remains', () => {
+    expect(getPaymentStatus(50, 0)).toBe('pending');
+  });
+});
+
+describe('calculateMatchEntry', () => {
+  it('uses the payment record when one exists', () => {
+    const m = match('m1', '2025-01-04', ['a', 'b'], [payment('a', 'm1', 250, 100)]);
+    expect(calculateMatchEntry(m, 'a')).toMatchObject({ due: 250, paid: 100, balance: 150 });
+  });
+
+  it('charges the current share to players without a payment record', () => {
+    const m = match('m1', '2025-01-04', ['a', 'b'], [], 300, 100);
+    expect(calculateMatchEntry(m, 'b')).toMatchObject({ due: 200, paid: 0, balance: 200, payment: undefined });
+  });
+
+  it('returns nothing for players who were not in the match', () => {
+    const m = match('m1', '2025-01-04', ['a'], [payment('a', 'm1', 400)]);
+    expect(calculateMatchEntry(m, 'z')).toBeUndefined();
+  });
+
+  it('reports overpayments as a negative balance', () => {
+    const m = match('m1', '2025-01-04', ['a'], [payment('a', 'm1', 200, 300)]);
+    expect(calculateMatchEntry(m, 'a')?.balance).toBe(-100);
+  });
+});
+
+describe('getSortedWeekends', () => {
+  it('orders weekends by start date and keeps stored order for ties', () => {
+    const sorted = getSortedWeekends([
+      weekend('w3', '2025-01-18'),
+      weekend('w1', '2025-01-04'),
+      weekend('w2a', '2025-01-11'),
+      weekend('w2b', '2025-01-11')
+    ]);
+    expect(sorted.map(w => w.id)).toEqual(['w1', 'w2a', 'w2b', 'w3']);
+  });
+});
+
+describe('buildPlayerLedger', () => {
+  const buildData = (players: Player[], weekends: Weekend[], currentWeekendId: string): AppData => ({
+    players,
+    weekends,
+    currentWeekendId
+  });
+
+  it('carries unpaid dues from earlier weekends into the previous balance', () => {
+    const data = buildData(
+      [player('a')],
+      [
+        weekend('w1', '2025-01-04', [match('m1', '2025-01-04', ['a'], [payment('a', 'm1', 200, 50)])]),
+        weekend('w2', '2025-01-11', [match('m2', '2025-01-04', ['a'], [payment('a', 'm2', 300)])])
+      ],
+      'w2'
+    );
+    const ledger = buildPlayerLedger(data, data.players[0]);
+    expect(ledger.prevBalance).toBe(150);
+    expect(ledger.totalDue).toBe(300);
+    expect(ledger.amountPaid).toBe(0);
+    expect(ledger.currentBalance).toBe(450);
+    expect(ledger.status).toBe('pending');
+  });
+
+  it('includes arrears in the previous balance', () => {
+    const data = buildData(
+      [player('a', { arrears: 500 })],
+      [weekend('w1', '2025-01-04', [match('m1', '2025-01-04', ['a'], [payment('a', 'm1', 200, 200)])])],
+      'w1'
+    );
+    const ledger = buildPlayerLedger(data, data.players[0]);
+    expect(ledger.prevBalance).toBe(500);
+    expect(ledger.currentBalance).toBe(500);
+    expect(ledger.status).toBe('partial');
+  });
+
+  it('offsets dues with advance payments', () => {
+    const data = buildData(
+      [player('a', { advancePayment: 1000 })],
+      [weekend('w1', '2025-01-04', [match('m1', '2025-01-04', ['a'], [payment('a', 'm1', 400)])])],
+      'w1'
+    );
+    const ledger = buildPlayerLedger(data, data.players[0]);
+    expect(ledger.prevBalance).toBe(-1000);
+    expect(ledger.currentBalance).toBe(-600);
+    expect(ledger.status).toBe('paid');
+  });
+
+  it('tracks partial payments across the weekend', () => {
+    const data = buildData(
+      [player('a')],
+      [
+        weekend('w1', '2025-01-04', [
+          match('m1', '2025-01-04', ['a'], [payment('a', 'm1', 200, 200)]),
+          match('m2', '2025-01-05', ['a'], [payment('a', 'm2', 300, 100)])
+        ])
+      ],
+      'w1'
+    );
+    const ledger = buildPlayerLedger(data, data.players[0]);
+    expect(ledger.totalDue).toBe(500);
+    expect(ledger.amountPaid).toBe(300);
+    expect(ledger.currentBalance).toBe(200);
+    expect(ledger.status).toBe('partial');
+    expect(getCurrentMatchEntry(ledger, 'm2')?.balance).toBe(200);
+  });
+
+  it('charges players with no payment record their share', () => {
+    const data = buildData(
+      [player('a'), player('b')],
+      [weekend('w1', '2025-01-04', [match('m1', '2025-01-04', ['a', 'b'], [payment('a', 'm1', 200, 200)])])],
+      'w1'
+    );
+    const ledger = buildPlayerLedger(data, data.players[1]);
+    expect(ledger.totalDue).toBe(200);
+    expect(ledger.currentBalance).toBe(200);
+    expect(ledger.status).toBe('pending');
+  });
+
+  it('includes weekday matches in the weekend totals', () => {
+    const data = buildData(
+      [player('a')],
+      [weekend('w1', '2025-01-04', [match('m1', '2025-01-08', ['a'], [payment('a', 'm1', 150)])])],
+      'w1'
+    );
+    expect(buildPlayerLedger(data, data.players[0]).totalDue).toBe(150);
+  });
+
+  it('ignores weekends after the current one until they become current', () => {
+    const data = buildData(
+      [player('a')],
+      [
+        weekend('w2', '2025-01-11', [match('m2', '2025-01-04', ['a'], [payment('a', 'm2', 300)])]),
+        weekend('w1', '2025-01-04', [match('m1', '2025-01-04', ['a'], [payment('a', 'm1', 200)])])
+      ],
+      'w1'
+    );
+    const ledger = buildPlayerLedger(data, data.players[0]);
+    expect(ledger.prevBalance).toBe(0);
+    expect(ledger.currentBalance).toBe(200);
+    expect(ledger.closingBalance).toBe(500);
+    expect(ledger.weekends.map(w => w.weekend.id)).toEqual(['w1', 'w2']);
+  });
+
+  it('treats every weekend as previous when the current weekend is missing', () => {
+    const data = buildData(
+      [player('a')],
+      [weekend('w1', '2025-01-04', [match('m1', '2025-01-04', ['a'], [payment('a', 'm1', 200)])])],
+      'missing'
+    );
+    const ledger = buildPlayerLedger(data, data.players[0]);
+    expect(ledger.current).toBeUndefined();
+    expect(ledger.prevBalance).toBe(200);
+    expect(ledger.currentBalance).toBe(200);
+  });
+
+  it('reports a clean slate for players with no matches', () => {
+    const data = buildData([player('a')], [weekend('w1', '2025-01-04')], 'w1');
+    const ledger = buildPlayerLedger(data, data.players[0]);
+    expect(ledger).toMatchObject({ prevBalance: 0, totalDue: 0, amountPaid: 0, currentBalance: 0, status: 'paid' });
+    expect(ledger.weekends).toEqual([]);
+  });
+});
+
+describe('buildLedger', () => {
+  it('builds one entry per player and exposes the current weekend', () => {
+    const data: AppData = {
+      players: [player('a'), player('b')],
+      weekends: [weekend('w1', '2025-01-04')],
+      currentWeekendId: 'w1'
+    };
+    const ledger = buildLedger(data);
+    expect(ledger.currentWeekend?.id).toBe('w1');
+    expect(ledger.players.map(p => p.player.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('fronted expenses', () => {
+  it('credits the player who paid an expense out of pocket, less reimbursements', () => {
+    const m = match('m1', '2025-01-04', ['a', 'b'], [], 40000);
+    m.expenses[0] = {
+      ...m.expenses[0],
+      paidBy: 'z',
+      reimbursements: [{ id: 'r1', amount: 10000, date: '2025-01-05T00:00:00.000Z', method: 'upi' }]
+    };
+    expect(calculateMatchEntry(m, 'z')).toMatchObject({ due: 0, paid: 0, fronted: 30000, balance: -30000 });
+    expect(calculateMatchEntry(m, 'a')).toMatchObject({ due: 20000, fronted: 0, balance: 20000 });
+  });
+});
@@ -0,0 +1,212 @@
+import { AppData, Expense, Match, Payment, PaymentStatus, Period, Player, RoundingPolicy, Weekend } from '../types';
+import { calculatePlayerDue, getChargedExpenses, getPayingPlayerIds, getPlayerPayment, getReceiptsTotal } from './calculations';
+import { getKittyDue } from './kitty';
+import { getMembershipDue } from './memberships';
+import { DEFAULT_ROUNDING_POLICY } from './money';
+import { sortMatches } from './schedule';
+import { getSettings } from './settings';
+
+// Every balance in the ledger is in paise and uses the same sign convention as Player.balance:
+// positive = the player owes the team, negative = the player is in credit (overpaid, or fronted
+// match expenses that have not been paid back).
+
+export interface MatchLedgerEntry {
+  match: Match;
+  payment?: Payment;
+  due: number;
+  lateFee: number; // charged separately when the due was not paid in time
+  paid: number;
+  fronted: number; // match expenses the player paid out of pocket, less what was paid back
+  balance: number;
+}
+
+export interface WeekendLedgerEntry {
+  weekend: Weekend;
+  matches: MatchLedgerEntry[];
+  due: number;
+  lateFee: number;
+  paid: number;
+  fronted: number;
+  balance: number;
+}
+
+export interface PlayerLedger {
+  player: Player;
+  openingBalance: number; // balance + arrears - advance; closing a period carries its balance in here
+  weekends: WeekendLedgerEntry[]; // every open weekend the player has an entry in, oldest first
+  prevBalance: number; // opening balance plus all weekends before the current one
+  current?: WeekendLedgerEntry;
+  totalDue: number; // due for the current weekend
+  amountPaid: number; // paid towards the current weekend
+  currentBalance: number; // prevBalance plus the current weekend, membership fees and kitty charges
+  closingBalance: number; // opening balance plus every recorded weekend, membership fees and kitty charges
+  lateFees: number; // late fees on every open weekend, already included in the balances
+  membershipDue: number; // membership fees not yet paid, already included in the balances
+  kittyDue: number; // fines and contributions not yet paid, already included in the balances
+  status: PaymentStatus;
+}
+
+export interface Ledger {
+  currentWeekend?: Weekend;
+  players: PlayerLedger[];
+}
+
+export const getWeekendMatches = (weekend: Weekend): Match[] => sortMatches(weekend.matches);
+
+export const mapWeekendMatches = (weekend: Weekend, fn: (match: Match) => Match): Weekend => ({
+  ...weekend,
+  matches: weekend.matches.map(fn)
+});
+
+export const updateMatch = (appData: AppData, matchId: string, fn: (match: Match) => Match): AppData => ({
+  ...appData,
+  weekends: appData.weekends.map(weekend =>
+    mapWeekendMatches(weekend, match => (match.id === matchId ? fn(match) : match))
+  )
+});
+
+export const getAllMatches = (appData: AppData): Match[] => {
+  return appData.weekends.flatMap(getWeekendMatches);
+};
+
+export const getCurrentWeekend = (appData: AppData): Weekend | undefined => {
+  return appData.weekends.find(w => w.id === appData.currentWeekendId);
+};
+
+// Weekends in chronological order; weekends sharing a start date keep their stored order
+export const getSortedWeekends = (weekends: Weekend[]): Weekend[] => {
+  return weekends
+    .map((weekend, index) => ({ weekend, index }))
+    .sort((a, b) => a.weekend.startDate.localeCompare(b.weekend.startDate) || a.index - b.index)
+    .map(({ weekend }) => weekend);
+};
+
+export const getOpeningBalance = (player: Player): number => {
+  return player.balance + (player.arrears || 0) - (player.advancePayment || 0);
+};
+
+// Periods are closed in date order and only the latest can be reopened, so every weekend up to
+// the latest closed period's end date is locked.
+export const getLatestClosedPeriod = (appData: AppData): Period | undefined => {
+  return (appData.periods || [])
+    .filter(period => period.status === 'closed')
+    .reduce<Period | undefined>((latest, period) =>
+      !latest || period.endDate > latest.endDate ? period : latest, undefined);
+};
+
+export const isWeekendLocked = (appData: AppData, weekend: Weekend): boolean => {
+  const period = getLatestClosedPeriod(appData);
+  return !!period && weekend.startDate <= period.endDate;
+};
+
+export const getOpenWeekends = (appData: AppData): Weekend[] => {
+  return getSortedWeekends(appData.weekends).filter(weekend => !isWeekendLocked(appData, weekend));
+};
+
+export const getPaymentStatus = (balance: number, amountPaid: number): PaymentStatus => {
+  if (balance <= 0) return 'paid';
+  if (amountPaid > 0) return 'partial';
+  return 'pending';
+};
+
+// What is still owed to whoever paid a charged expense (see getChargedExpenses)
+export const calculateExpenseFronted = (expense: Expense): number => {
+  return expense.amount - getReceiptsTotal(expense.reimbursements || []);
+};
+
+// What the player fronted for a match's expenses and has not been paid back yet,
+// less any part of them the ground refunded
+export const calculateFronted = (match: Match, playerId: string): number => {
+  return getChargedExpenses(match)
+    .filter(expense => expense.paidBy === playerId)
+    .reduce((sum, expense) => sum + calculateExpenseFronted(expense), 0);
+};
+
+export const calculateMatchEntry = (match: Match, playerId: string, policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY): MatchLedgerEntry | undefined => {
+  const payment = getPlayerPayment(match, playerId);
+  const fronted = calculateFronted(match, playerId);
+  const frontedAny = match.expenses.some(expense => expense.paidBy === playerId);
+  const pays = getPayingPlayerIds(match).includes(playerId);
+  if (!payment && !pays && !frontedAny) return undefined;
+
+  // A payment record fixes the amount due at the time the match was saved;
+  // players without one owe their share of the current match cost.
+  const due = payment
+    ? payment.amountDue
+    : pays ? calculatePlayerDue(match, playerId, policy) : 0;
+  const lateFee = payment?.lateFee || 0;
+  const paid = payment ? payment.amountPaid : 0;
+  return { match, payment, due, lateFee, paid, fronted, balance: due + lateFee - paid - fronted };
+};
+
+export const calculateWeekendEntry = (weekend: Weekend, playerId: string, policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY): WeekendLedgerEntry => {
+  const matches = getWeekendMatches(weekend)
+    .map(match => calculateMatchEntry(match, playerId, policy))
+    .filter(Boolean) as MatchLedgerEntry[];
+  const due = matches.reduce((sum, entry) => sum + entry.due, 0);
+  const lateFee = matches.reduce((sum, entry) => sum + entry.lateFee, 0);
+  const paid = matches.reduce((sum, entry) => sum + entry.paid, 0);
+  const fronted = matches.reduce((sum, entry) => sum + entry.fronted, 0);
+  return { weekend, matches, due, lateFee, paid, fronted, balance: due + lateFee - paid - fronted };
+};
+
+export const buildPlayerLedger = (appData: AppData, player: Player): PlayerLedger => {
+  const sortedWeekends = getOpenWeekends(appData);
+  const currentIndex = sortedWeekends.findIndex(w => w.id === appData.currentWeekendId);
+  const openingBalance = getOpeningBalance(player);
+  const { rounding } = getSettings(appData);
+
+  let prevBalance = openingBalance;
+  let closingBalance = openingBalance;
+  let lateFees = 0;
+  let current: WeekendLedgerEntry | undefined;
+  const weekends: WeekendLedgerEntry[] = [];
+
+  sortedWeekends.forEach((weekend, index) => {
+    const entry = calculateWeekendEntry(weekend, player.id, rounding);
+    closingBalance += entry.balance;
+    lateFees += entry.lateFee;
+    if (index === currentIndex) {
+      current = entry;
+    } else if (currentIndex < 0 || index < currentIndex) {
+      prevBalance += entry.balance;
+    }
+    if (entry.matches.length > 0) weekends.push(entry);
+  });
+
+  // Membership fees and kitty charges are not tied to a weekend, and are left out of closed periods
+  const membershipDue = getMembershipDue(appData, player.id);
+  const kittyDue = getKittyDue(appData, player.id);
+  closingBalance += membershipDue + kittyDue;
+
+  const totalDue = current ? current.due : 0;
+  const amountPaid = current ? current.paid : 0;
+  const currentBalance = prevBalance + (current ? current.balance : 0) + membershipDue + kittyDue;
+
+  return {
+    player,
+    openingBalance,
+    weekends,
+    prevBalance,
+    current,
+    totalDue,
+    amountPaid,
+    currentBalance,
+    closingBalance,
+    lateFees,
+    membershipDue,
+    kittyDue,
+    status: getPaymentStatus(currentBalance, amountPaid)
+  };
+};
+
+export const buildLedger = (appData: AppData): Ledger => {
+  return {
+    currentWeekend: getCurrentWeekend(appData),
+    players: appData.players.map(player => buildPlayerLedger(appData, player))
+  };
+};
+
+export const getCurrentMatchEntry = (playerLedger: PlayerLedger, matchId: string): MatchLedgerEntry | undefined => {
+  return playerLedger.current?.matches.find(entry => entry.match.id === matchId);
+};
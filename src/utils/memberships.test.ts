@@ -0,0 +1,85 @@
+import { AppData, Match, MembershipPlan } from '../types';
+import { calculateMatchShares, syncMatchPayments } from './calculations';
+import { buildPlayerLedger } from './ledger';
+import { applyMemberships, assignPlan, deletePlan, getMembershipDue, recordMembershipPayment } from './memberships';
+import { player } from './testHelpers';
+
+const plan: MembershipPlan = {
+  id: 'season',
+  name: '2025 Season',
+  fee: 300000,
+  startDate: '2025-01-01',
+  endDate: '2025-12-31',
+  coverage: { category: 'ground', amountPerMatch: 20000 }
+};
+
+const match = (date = '2025-01-04'): Match => ({
+  id: 'm1',
+  date,
+  clubId: 'club-micc',
+  expenses: [
+    { id: 'ground', name: 'Ground', amount: 90000, category: 'ground' },
+    { id: 'balls', name: 'Balls', amount: 30000, category: 'balls' }
+  ],
+  playerIds: ['sai', 'rahul', 'amit'],
+  payments: []
+});
+
+const appData = (): AppData => assignPlan({
+  players: [player('sai'), player('rahul'), player('amit')],
+  weekends: [],
+  currentWeekendId: '',
+  membershipPlans: [plan]
+}, 'sai', 'season');
+
+describe('applyMemberships', () => {
+  it('takes the covered amount off the member\'s share for the kitty to pick up', () => {
+    const covered = applyMemberships(appData(), match());
+    expect(covered.membershipCover).toEqual({ sai: plan.coverage });
+    expect(calculateMatchShares(covered)).toEqual({ shares: { sai: 20000, rahul: 40000, amit: 40000 }, kitty: -20000 });
+  });
+
+  it('only covers matches within the plan period', () => {
+    expect(applyMemberships(appData(), match('2026-01-03')).membershipCover).toBeUndefined();
+  });
+
+  it('never covers more than the member\'s share of the category', () => {
+    const data = { ...appData(), membershipPlans: [{ ...plan, coverage: { category: 'ground' as const, amountPerMatch: 50000 } }] };
+    const { shares } = calculateMatchShares(applyMemberships(data, match()));
+    expect(shares.sai).toBe(10000);
+  });
+
+  it('leaves players on a fixed amount alone', () => {
+    const fixed = { ...match(), playerShares: { sai: { fixedAmount: 50000 } } };
+    expect(calculateMatchShares(applyMemberships(appData(), fixed)).shares.sai).toBe(50000);
+  });
+});
+
+describe('membership fees', () => {
+  it('charges the fee in the ledger until it is paid', () => {
+    const data = appData();
+    const sai = data.players[0];
+    expect(buildPlayerLedger(data, sai)).toMatchObject({ membershipDue: 300000, currentBalance: 300000 });
+
+    const paid = recordMembershipPayment(data, data.memberships![0].id, 100000);
+    expect(getMembershipDue(paid, 'sai')).toBe(200000);
+    expect(buildPlayerLedger(paid, sai).closingBalance).toBe(200000);
+  });
+
+  it('adds the fee to what members owe on their matches', () => {
+    const data = appData();
+    const saved = syncMatchPayments(applyMemberships(data, match()));
+    const withMatch = {
+      ...data,
+      weekends: [{ id: 'w1', startDate: '2025-01-04', matches: [saved] }],
+      currentWeekendId: 'w1'
+    };
+    expect(buildPlayerLedger(withMatch, data.players[0]).currentBalance).toBe(320000);
+  });
+
+  it('does not assign a plan twice or delete a plan in use', () => {
+    const data = appData();
+    expect(assignPlan(data, 'sai', 'season').memberships).toHaveLength(1);
+    expect(deletePlan(data, 'season')).toBe(data);
+  });
+});
@@ -0,0 +1,85 @@
+import { AppData, Match, Membership, MembershipPlan } from '../types';
+import { ReceiptDetails, createReceipt, generateUUID, getReceiptsTotal } from './calculations';
+
+// A membership is a plan assigned to a player. Its fee is a charge of its own in the
+// ledger, and while the plan runs it pays part of the member's share of every match.
+// The cover is worked out when a match is saved and kept on the match, like the
+// amount due, so changing a plan later does not re-price matches already recorded.
+
+export const getPlan = (appData: AppData, planId: string): MembershipPlan | undefined => {
+  return (appData.membershipPlans || []).find(plan => plan.id === planId);
+};
+
+export const getPlayerMemberships = (appData: AppData, playerId: string): Membership[] => {
+  return (appData.memberships || []).filter(membership => membership.playerId === playerId);
+};
+
+// The plan covering a player on a date; the most recently assigned wins if several overlap
+export const getActivePlan = (appData: AppData, playerId: string, date: string): MembershipPlan | undefined => {
+  return getPlayerMemberships(appData, playerId)
+    .map(membership => getPlan(appData, membership.planId))
+    .filter((plan): plan is MembershipPlan => !!plan && plan.startDate <= date && date <= plan.endDate)
+    .pop();
+};
+
+export const applyMemberships = (appData: AppData, match: Match): Match => {
+  const membershipCover: NonNullable<Match['membershipCover']> = {};
+  match.playerIds.forEach(playerId => {
+    const plan = getActivePlan(appData, playerId, match.date);
+    if (plan && plan.coverage.amountPerMatch > 0) membershipCover[playerId] = plan.coverage;
+  });
+  return { ...match, membershipCover: Object.keys(membershipCover).length > 0 ? membershipCover : undefined };
+};
+
+export const createPlan = (plan: Omit<MembershipPlan, 'id'>): MembershipPlan => ({ id: generateUUID(), ...plan });
+
+export const assignPlan = (appData: AppData, playerId: string, planId: string): AppData => {
+  const plan = getPlan(appData, planId);
+  if (!plan) return appData;
+  if (getPlayerMemberships(appData, playerId).some(membership => membership.planId === planId)) return appData;
+
+  const membership: Membership = {
+    id: generateUUID(),
+    planId,
+    playerId,
+    fee: plan.fee,
+    date: new Date().toISOString(),
+    receipts: []
+  };
+  return { ...appData, memberships: [...(appData.memberships || []), membership] };
+};
+
+export const removeMembership = (appData: AppData, membershipId: string): AppData => ({
+  ...appData,
+  memberships: (appData.memberships || []).filter(membership => membership.id !== membershipId)
+});
+
+// Plans still assigned to a player cannot be deleted, so their fees stay explained
+export const deletePlan = (appData: AppData, planId: string): AppData => {
+  if ((appData.memberships || []).some(membership => membership.planId === planId)) return appData;
+  return { ...appData, membershipPlans: (appData.membershipPlans || []).filter(plan => plan.id !== planId) };
+};
+
+export const recordMembershipPayment = (
+  appData: AppData,
+  membershipId: string,
+  amount: number,
+  details: ReceiptDetails = {}
+): AppData => {
+  if (amount === 0) return appData;
+  return {
+    ...appData,
+    memberships: (appData.memberships || []).map(membership => membership.id === membershipId
+      ? { ...membership, receipts: [...membership.receipts, createReceipt(amount, details)] }
+      : membership)
+  };
+};
+
+export const getMembershipBalance = (membership: Membership): number => {
+  return membership.fee - getReceiptsTotal(membership.receipts);
+};
+
+// Membership fees a player still owes, less anything paid over them
+export const getMembershipDue = (appData: AppData, playerId: string): number => {
+  return getPlayerMemberships(appData, playerId).reduce((sum, membership) => sum + getMembershipBalance(membership), 0);
+};
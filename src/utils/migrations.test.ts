@@ -0,0 +1,118 @@
+import { CURRENT_SCHEMA_VERSION, migrateData } from './migrations';
+
+const legacyPayment = (amountPaid: number) => ({
+  id: 'p1',
+  playerId: 'a',
+  matchId: 'm1',
+  amountDue: 300,
+  amountPaid,
+  status: amountPaid ? 'partial' : 'pending',
+  date: '2025-01-04T10:00:00.000Z'
+});
+
+const legacyData = (amountPaid: number) => ({
+  players: [{ id: 'a', firstName: 'A', mobile: '', balance: 0 }],
+  weekends: [{
+    id: 'w1',
+    startDate: '2025-01-04',
+    saturdayMatch: {
+      id: 'm1', date: '2025-01-04', club: 'MICC', type: 'Saturday',
+      groundCost: 300, cafeteriaCost: 0, playerIds: ['a'], payments: [legacyPayment(amountPaid)]
+    },
+    weekdayMatches: []
+  }],
+  currentWeekendId: 'w1'
+});
+
+describe('migrateData', () => {
+  it('stamps the current schema version', () => {
+    expect(migrateData(legacyData(0)).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('turns a legacy amountPaid into an opening receipt', () => {
+    const payment = migrateData(legacyData(150)).weekends[0].matches[0].payments[0];
+    expect(payment.receipts).toEqual([
+      expect.objectContaining({ amount: 15000, date: '2025-01-04T10:00:00.000Z' })
+    ]);
+  });
+
+  it('gives unpaid legacy payments an empty receipt list', () => {
+    const payment = migrateData(legacyData(0)).weekends[0].matches[0].payments[0];
+    expect(payment.receipts).toEqual([]);
+  });
+
+  it('leaves data already on the current version untouched', () => {
+    const migrated = migrateData(legacyData(150));
+    expect(migrateData(migrated)).toEqual(migrated);
+  });
+});
+
+describe('migrateData to paise', () => {
+  it('converts rupee amounts on players, matches, payments and receipts', () => {
+    const data = legacyData(357.14);
+    data.players[0] = { ...data.players[0], balance: 12.5, arrears: 100, advancePayment: 0 } as any;
+    const migrated = migrateData(data);
+    const match = migrated.weekends[0].matches[0];
+    expect(migrated.players[0]).toMatchObject({ balance: 1250, arrears: 10000, advancePayment: 0 });
+    expect(match.expenses.map(expense => expense.amount)).toEqual([30000, 0]);
+    expect(match.payments[0]).toMatchObject({ amountDue: 30000, amountPaid: 35714 });
+    expect(match.payments[0].receipts[0].amount).toBe(35714);
+  });
+});
+
+describe('migrateData to expense lines', () => {
+  it('turns ground and cafeteria costs into two expense lines', () => {
+    const match = migrateData(legacyData(0)).weekends[0].matches[0] as any;
+    expect(match.groundCost).toBeUndefined();
+    expect(match.cafeteriaCost).toBeUndefined();
+    expect(match.expenses).toEqual([
+      { id: 'm1-ground', name: 'Ground', amount: 30000, category: 'ground', playerIds: undefined },
+      { id: 'm1-cafeteria', name: 'Cafeteria', amount: 0, category: 'cafeteria', playerIds: undefined }
+    ]);
+  });
+
+  it('keeps who shared the cafeteria', () => {
+    const data = { ...legacyData(0), schemaVersion: 3 } as any;
+    data.weekends[0].saturdayMatch = { ...data.weekends[0].saturdayMatch, cafeteriaCost: 5000, cafeteriaPlayerIds: ['a'] };
+    const match = migrateData(data).weekends[0].matches[0];
+    expect(match.expenses[1]).toMatchObject({ amount: 5000, playerIds: ['a'] });
+  });
+});
+
+describe('migrateData to due dates', () => {
+  it('gives existing payments a due date a week after the match', () => {
+    const payment = migrateData(legacyData(0)).weekends[0].matches[0].payments[0];
+    expect(payment.dueDate).toBe('2025-01-11');
+  });
+});
+
+describe('migrateData to clubs', () => {
+  it('turns club names into club records', () => {
+    const migrated = migrateData(legacyData(0));
+    const match = migrated.weekends[0].matches[0] as any;
+    expect(migrated.clubs!.map(club => club.name)).toEqual(['MICC', 'Sadhooz']);
+    expect(match.club).toBeUndefined();
+    expect(match.clubId).toBe(migrated.clubs![0].id);
+  });
+
+  it('keeps clubs the app never offered', () => {
+    const data = legacyData(0) as any;
+    data.weekends[0].saturdayMatch.club = 'Eagles XI';
+    const migrated = migrateData(data);
+    expect(migrated.clubs!.map(club => club.name)).toEqual(['MICC', 'Sadhooz', 'Eagles XI']);
+    expect(migrated.weekends[0].matches[0].clubId).toBe('club-eagles-xi');
+  });
+});
+
+describe('migrateData to dated matches', () => {
+  it('gathers the Saturday, Sunday and weekday slots into one match list', () => {
+    const data = legacyData(0) as any;
+    data.weekends[0].sundayMatch = { ...data.weekends[0].saturdayMatch, id: 'm2', date: '2025-01-05', type: 'Sunday' };
+    data.weekends[0].weekdayMatches = [{ ...data.weekends[0].saturdayMatch, id: 'm3', date: '2025-01-08', type: 'Weekday' }];
+    const weekend = migrateData(data).weekends[0] as any;
+    expect(weekend.matches.map((match: any) => match.id)).toEqual(['m1', 'm2', 'm3']);
+    expect(weekend.matches[0].type).toBeUndefined();
+    expect(weekend.saturdayMatch).toBeUndefined();
+    expect(weekend.weekdayMatches).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+import { AppData } from '../types';
+import { addDays, format, parse } from 'date-fns';
+
+// Data saved before schemaVersion existed is treated as version 1
+export const CURRENT_SCHEMA_VERSION = 7;
+
+type Migration = (data: any) => any;
+
+const rupeesToPaise = (value: any): any => {
+  return typeof value === 'number' ? Math.round(value * 100) : value;
+};
+
+// Applies fn to every match in the Saturday/Sunday/weekday weekend layout
+const mapWeekendMatches = (data: any, fn: (match: any) => any): any => ({
+  ...data,
+  weekends: (data.weekends || []).map((weekend: any) => ({
+    ...weekend,
+    saturdayMatch: weekend.saturdayMatch ? fn(weekend.saturdayMatch) : weekend.saturdayMatch,
+    sundayMatch: weekend.sundayMatch ? fn(weekend.sundayMatch) : weekend.sundayMatch,
+    weekdayMatches: (weekend.weekdayMatches || []).map(fn)
+  }))
+});
+
+const migrations: { [version: number]: Migration } = {
+  // Payments keep a list of dated receipts instead of a single amountPaid
+  2: data => mapWeekendMatches(data, match => ({
+    ...match,
+    payments: (match.payments || []).map((payment: any) => {
+      if (payment.receipts) return payment;
+      const receipts = payment.amountPaid ? [{
+        id: `${payment.id}-opening`,
+        amount: payment.amountPaid,
+        date: payment.date,
+        method: 'other',
+        note: 'Recorded before payment history'
+      }] : [];
+      return { ...payment, receipts };
+    })
+  })),
+
+  // Money moves from floating-point rupees to integer paise
+  3: data => mapWeekendMatches({
+    ...data,
+    players: (data.players || []).map((player: any) => ({
+      ...player,
+      balance: rupeesToPaise(player.balance),
+      arrears: rupeesToPaise(player.arrears),
+      advancePayment: rupeesToPaise(player.advancePayment)
+    }))
+  }, match => ({
+    ...match,
+    groundCost: rupeesToPaise(match.groundCost),
+    cafeteriaCost: rupeesToPaise(match.cafeteriaCost),
+    payments: (match.payments || []).map((payment: any) => ({
+      ...payment,
+      amountDue: rupeesToPaise(payment.amountDue),
+      amountPaid: rupeesToPaise(payment.amountPaid),
+      receipts: payment.receipts.map((receipt: any) => ({ ...receipt, amount: rupeesToPaise(receipt.amount) }))
+    }))
+  })),
+
+  // Fixed ground and cafeteria costs become the first two expense lines
+  4: data => mapWeekendMatches(data, match => {
+    if (match.expenses) return match;
+    const { groundCost, cafeteriaCost, groundPlayerIds, cafeteriaPlayerIds, ...rest } = match;
+    return {
+      ...rest,
+      expenses: [
+        { id: `${match.id}-ground`, name: 'Ground', amount: groundCost || 0, category: 'ground', playerIds: groundPlayerIds },
+        { id: `${match.id}-cafeteria`, name: 'Cafeteria', amount: cafeteriaCost || 0, category: 'cafeteria', playerIds: cafeteriaPlayerIds }
+      ]
+    };
+  }),
+
+  // Payments fall due a week after their match, the default grace period
+  5: data => mapWeekendMatches(data, match => {
+    const dueDate = format(addDays(parse(match.date, 'yyyy-MM-dd', new Date()), 7), 'yyyy-MM-dd');
+    return {
+      ...match,
+      payments: (match.payments || []).map((payment: any) => payment.dueDate ? payment : { ...payment, dueDate })
+    };
+  }),
+
+  // Club names on matches become Club records, starting with the two clubs the app offered
+  6: data => {
+    const clubs: any[] = data.clubs ? [...data.clubs] : [
+      { id: 'club-micc', name: 'MICC', defaultGroundCost: 0, colour: '#2c5282' },
+      { id: 'club-sadhooz', name: 'Sadhooz', defaultGroundCost: 0, colour: '#c05621' }
+    ];
+    const getClubId = (name: string): string => {
+      let club = clubs.find(c => c.name === name);
+      if (!club) {
+        club = { id: `club-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`, name, defaultGroundCost: 0, colour: '#4a5568' };
+        clubs.push(club);
+      }
+      return club.id;
+    };
+    const migrated = mapWeekendMatches(data, match => {
+      if (match.clubId) return match;
+      const { club, ...rest } = match;
+      return { ...rest, clubId: getClubId(club || 'MICC') };
+    });
+    return { ...migrated, clubs };
+  },
+  // Weekends hold a single list of dated matches instead of Saturday/Sunday/weekday slots
+  7: data => ({
+    ...data,
+    weekends: (data.weekends || []).map((weekend: any) => {
+      const { saturdayMatch, sundayMatch, weekdayMatches, ...rest } = weekend;
+      const matches = [saturdayMatch, sundayMatch, ...(weekdayMatches || [])]
+        .filter(Boolean)
+        .map(({ type, ...match }: any) => match);
+      return { ...rest, matches: weekend.matches || matches };
+    })
+  })
+};
+
+export const migrateData = (data: any): AppData => {
+  let version: number = data.schemaVersion || 1;
+  let migrated = data;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    version++;
+    migrated = migrations[version](migrated);
+  }
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
@@ -0,0 +1,58 @@
+import { formatCurrency, formatShareRange, parseRupees, splitAmount, toPaise } from './money';
+
+const sum = (shares: { [id: string]: number }) => Object.values(shares).reduce((a, b) => a + b, 0);
+
+describe('money conversion', () => {
+  it('converts rupees to paise without floating point drift', () => {
+    expect(toPaise(357.14)).toBe(35714);
+    expect(toPaise(0.1 + 0.2)).toBe(30);
+    expect(parseRupees('2500')).toBe(250000);
+    expect(parseRupees('')).toBe(0);
+  });
+
+  it('formats paise as rupees', () => {
+    expect(formatCurrency(250000)).toBe('₹2,500');
+    expect(formatCurrency(35750)).toBe('₹357.50');
+    expect(formatCurrency(-12000)).toBe('-₹120');
+    expect(formatCurrency(0)).toBe('₹0');
+  });
+});
+
+describe('splitAmount', () => {
+  const players = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+
+  it('splits ₹2,500 seven ways into whole rupees that add back to the bill', () => {
+    const { shares, kitty } = splitAmount(250000, players, { unit: 100, remainder: 'players' });
+    expect(sum(shares)).toBe(250000);
+    expect(kitty).toBe(0);
+    expect(shares).toEqual({ a: 35800, b: 35700, c: 35700, d: 35700, e: 35700, f: 35700, g: 35700 });
+  });
+
+  it('gives leftovers to the preferred players first', () => {
+    const { shares } = splitAmount(250000, players, { unit: 100, remainder: 'players', remainderPlayerIds: ['z', 'g'] });
+    expect(shares.g).toBe(35800);
+    expect(shares.a).toBe(35700);
+  });
+
+  it('rounds to ₹10 and hands out the leftover ten rupees at a time', () => {
+    const { shares } = splitAmount(250000, players, { unit: 1000, remainder: 'players' });
+    expect(sum(shares)).toBe(250000);
+    expect(shares).toEqual({ a: 36000, b: 36000, c: 36000, d: 36000, e: 36000, f: 35000, g: 35000 });
+  });
+
+  it('rounds up and reports the surplus for the kitty', () => {
+    const { shares, kitty } = splitAmount(250000, players, { unit: 1000, remainder: 'kitty' });
+    Object.values(shares).forEach(share => expect(share).toBe(36000));
+    expect(kitty).toBe(2000);
+    expect(sum(shares) - kitty).toBe(250000);
+  });
+
+  it('returns no shares when nobody played', () => {
+    expect(splitAmount(250000, [])).toEqual({ shares: {}, kitty: 0 });
+  });
+
+  it('describes uneven shares as a range', () => {
+    expect(formatShareRange(splitAmount(250000, players))).toBe('₹357 - ₹358');
+    expect(formatShareRange(splitAmount(70000, players))).toBe('₹100');
+  });
+});
@@ -0,0 +1,95 @@
+import { RoundingPolicy } from '../types';
+
+// All amounts are stored and computed as integer paise; rupees only exist at the UI edge.
+
+export const DEFAULT_ROUNDING_POLICY: RoundingPolicy = {
+  unit: 100,
+  remainder: 'players'
+};
+
+export interface SplitResult {
+  shares: { [playerId: string]: number };
+  kitty: number; // surplus collected for the team kitty when shares are rounded up
+}
+
+export const toPaise = (rupees: number): number => {
+  return Math.round(rupees * 100);
+};
+
+export const fromPaise = (paise: number): number => {
+  return paise / 100;
+};
+
+// Parses a rupee amount typed into an input, e.g. "357.50" -> 35750
+export const parseRupees = (value: string): number => {
+  return toPaise(parseFloat(value) || 0);
+};
+
+// Formats paise for display, e.g. 250000 -> "₹2,500" and -35750 -> "-₹357.50"
+export const formatCurrency = (paise: number): string => {
+  const sign = paise < 0 ? '-' : '';
+  const absolute = Math.abs(paise);
+  const fractionDigits = absolute % 100 === 0 ? 0 : 2;
+  const rupees = fromPaise(absolute).toLocaleString('en-IN', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  });
+  return `${sign}₹${rupees}`;
+};
+
+// Players listed in the policy absorb leftovers first, then everyone else in match order
+const getRemainderOrder = (playerIds: string[], policy: RoundingPolicy): string[] => {
+  const preferred = (policy.remainderPlayerIds || []).filter(id => playerIds.includes(id));
+  return [...preferred, ...playerIds.filter(id => !preferred.includes(id))];
+};
+
+// Splits total paise so that the shares always add back to the total exactly.
+// Each player's share is proportional to their weight (1 when not given); a
+// player weighted 0 pays nothing. With remainder 'players', shares are rounded
+// down to the policy unit and the leftover is handed out one unit at a time;
+// with 'kitty', shares are rounded up and the surplus over the total is
+// reported as the kitty's cut.
+export const splitAmount = (
+  total: number,
+  playerIds: string[],
+  policy: RoundingPolicy = DEFAULT_ROUNDING_POLICY,
+  weights: { [playerId: string]: number } = {}
+): SplitResult => {
+  const shares: { [playerId: string]: number } = {};
+  playerIds.forEach(id => { shares[id] = 0; });
+
+  const weightOf = (id: string) => Math.max(0, weights[id] ?? 1);
+  const payingIds = playerIds.filter(id => weightOf(id) > 0);
+  const totalWeight = payingIds.reduce((sum, id) => sum + weightOf(id), 0);
+  if (payingIds.length === 0) return { shares, kitty: 0 };
+
+  const unit = Math.max(1, policy.unit);
+  const exactShare = (id: string) => total * weightOf(id) / totalWeight;
+
+  if (policy.remainder === 'kitty') {
+    payingIds.forEach(id => { shares[id] = Math.ceil(exactShare(id) / unit) * unit; });
+    const collected = payingIds.reduce((sum, id) => sum + shares[id], 0);
+    return { shares, kitty: collected - total };
+  }
+
+  payingIds.forEach(id => { shares[id] = Math.floor(exactShare(id) / unit) * unit; });
+  let leftover = total - payingIds.reduce((sum, id) => sum + shares[id], 0);
+  const order = getRemainderOrder(payingIds, policy);
+  for (let i = 0; leftover > 0; i = (i + 1) % order.length) {
+    const extra = Math.min(unit, leftover);
+    shares[order[i]] += extra;
+    leftover -= extra;
+  }
+  return { shares, kitty: 0 };
+};
+
+export const getShareRange = (split: SplitResult): { min: number; max: number } => {
+  const values = Object.values(split.shares);
+  if (values.length === 0) return { min: 0, max: 0 };
+  return { min: Math.min(...values), max: Math.max(...values) };
+};
+
+export const formatShareRange = (split: SplitResult): string => {
+  const { min, max } = getShareRange(split);
+  return min === max ? formatCurrency(min) : `${formatCurrency(min)} - ${formatCurrency(max)}`;
+};
@@ -0,0 +1,98 @@
+import { AppData, Match, Weekend } from '../types';
+import { recordReceipt, syncMatchPayments } from './calculations';
+import { allocateCredits } from './credits';
+import { buildPlayerLedger, isWeekendLocked } from './ledger';
+import { closePeriod, getClosableWeekends, getPeriodBalances, reopenPeriod } from './periods';
+import { player } from './testHelpers';
+
+const weekend = (id: string, startDate: string, paidBySai = 0): Weekend => {
+  let match: Match = syncMatchPayments({
+    id: `${id}-sat`,
+    date: startDate,
+    clubId: 'club-micc',
+    expenses: [{ id: 'ground', name: 'Ground', amount: 20000, category: 'ground' }],
+    playerIds: ['sai', 'rahul'],
+    payments: []
+  });
+  if (paidBySai) {
+    match = { ...match, payments: match.payments.map(p => p.playerId === 'sai' ? recordReceipt(p, paidBySai) : p) };
+  }
+  return { id, startDate, matches: [match] };
+};
+
+const appData = (): AppData => ({
+  players: [player('sai'), player('rahul', { advancePayment: 5000 })],
+  weekends: [weekend('w1', '2025-01-04', 10000), weekend('w2', '2025-01-11'), weekend('w3', '2025-01-18')],
+  currentWeekendId: 'w3'
+});
+
+describe('closePeriod', () => {
+  it('never closes the current weekend', () => {
+    expect(getClosableWeekends(appData()).map(w => w.id)).toEqual(['w1', 'w2']);
+    const closed = closePeriod(appData(), '2025-01-18', 'January');
+    expect(closed.periods![0].endDate).toBe('2025-01-18');
+    expect(isWeekendLocked(closed, closed.weekends[2])).toBe(true);
+  });
+
+  it('carries each balance into the opening balance and locks the weekends', () => {
+    const closed = closePeriod(appData(), '2025-01-04', 'First week');
+    const period = closed.periods![0];
+
+    expect(period.openingBalances).toEqual({ sai: 0, rahul: -5000 });
+    expect(period.closingBalances).toEqual({ sai: 0, rahul: 5000 });
+    expect(closed.players[1]).toMatchObject({ balance: 5000, arrears: 0, advancePayment: 0 });
+    expect(isWeekendLocked(closed, closed.weekends[0])).toBe(true);
+    expect(isWeekendLocked(closed, closed.weekends[1])).toBe(false);
+  });
+
+  it('leaves later balances where they were', () => {
+    const before = appData();
+    const closed = allocateCredits(closePeriod(allocateCredits(before), '2025-01-04', 'First week'));
+
+    before.players.forEach((p, index) => {
+      const was = buildPlayerLedger(allocateCredits(before), p);
+      const now = buildPlayerLedger(closed, closed.players[index]);
+      expect(now.currentBalance).toBe(was.currentBalance);
+      expect(now.weekends.map(w => w.weekend.id)).toEqual(['w2', 'w3']);
+    });
+  });
+
+  it('keeps credit used on locked weekends', () => {
+    const credited = allocateCredits(appData());
+    const closed = allocateCredits(closePeriod(credited, '2025-01-04', 'First week'));
+    expect(closed.weekends[0]).toBe(credited.weekends[0]);
+  });
+});
+
+describe('reopenPeriod', () => {
+  it('needs a reason', () => {
+    const closed = closePeriod(appData(), '2025-01-04', 'First week');
+    expect(() => reopenPeriod(closed, closed.periods![0].id, ' ')).toThrow('reason');
+  });
+
+  it('only reopens the latest closed period', () => {
+    const first = closePeriod(appData(), '2025-01-04', 'First week');
+    const second = closePeriod(first, '2025-01-11', 'Second week');
+    expect(() => reopenPeriod(second, second.periods![0].id, 'Typo')).toThrow();
+  });
+
+  it('unlocks the weekends and keeps adjustments made since closing', () => {
+    const closed = closePeriod(appData(), '2025-01-04', 'First week');
+    const adjusted = { ...closed, players: closed.players.map(p => p.id === 'sai' ? { ...p, balance: p.balance + 300 } : p) };
+    const reopened = reopenPeriod(adjusted, closed.periods![0].id, 'Ground refund missed');
+
+    expect(reopened.periods![0]).toMatchObject({ status: 'reopened', reopenReason: 'Ground refund missed' });
+    expect(isWeekendLocked(reopened, reopened.weekends[0])).toBe(false);
+    expect(reopened.players.map(p => p.balance)).toEqual([300, -5000]);
+  });
+});
+
+describe('getPeriodBalances', () => {
+  it('reports the movement over the period', () => {
+    const closed = closePeriod(appData(), '2025-01-11', 'January');
+    const balances = getPeriodBalances(closed, closed.periods![0]);
+    expect(balances.find(b => b.playerId === 'sai')).toEqual({
+      playerId: 'sai', opening: 0, due: 20000, lateFee: 0, paid: 10000, fronted: 0, closing: 10000
+    });
+  });
+});
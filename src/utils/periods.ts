@@ -0,0 +1,121 @@
+import { AppData, Period, Weekend } from '../types';
+import { generateUUID } from './calculations';
+import {
+  calculateWeekendEntry,
+  getCurrentWeekend,
+  getLatestClosedPeriod,
+  getOpenWeekends,
+  getOpeningBalance,
+  getSortedWeekends
+} from './ledger';
+import { getSettings } from './settings';
+
+// Closing a period folds every player's balance for the weekends it covers into their
+// opening balance (arrears and advance are cleared, as the balance now includes them).
+// The ledger then starts from that opening balance and skips the locked weekends.
+// Reopening takes the same amounts back out, so adjustments made since still count.
+
+export interface PeriodBalance {
+  playerId: string;
+  opening: number;
+  due: number;
+  lateFee: number;
+  paid: number;
+  fronted: number;
+  closing: number;
+}
+
+// Open weekends before the current one; the current weekend always stays editable
+export const getClosableWeekends = (appData: AppData): Weekend[] => {
+  const current = getCurrentWeekend(appData);
+  return getOpenWeekends(appData).filter(weekend => !current || weekend.startDate < current.startDate);
+};
+
+export const getPeriodWeekends = (appData: AppData, period: Period): Weekend[] => {
+  return getSortedWeekends(appData.weekends)
+    .filter(weekend => weekend.startDate >= period.startDate && weekend.startDate <= period.endDate);
+};
+
+export const closePeriod = (appData: AppData, endDate: string, name: string): AppData => {
+  const weekends = getClosableWeekends(appData).filter(weekend => weekend.startDate <= endDate);
+  if (weekends.length === 0) return appData;
+
+  const { rounding } = getSettings(appData);
+  const openingBalances: Period['openingBalances'] = {};
+  const closingBalances: Period['closingBalances'] = {};
+  appData.players.forEach(player => {
+    const opening = getOpeningBalance(player);
+    openingBalances[player.id] = opening;
+    closingBalances[player.id] = weekends.reduce(
+      (balance, weekend) => balance + calculateWeekendEntry(weekend, player.id, rounding).balance,
+      opening
+    );
+  });
+
+  const period: Period = {
+    id: generateUUID(),
+    name,
+    startDate: weekends[0].startDate,
+    endDate,
+    status: 'closed',
+    closedAt: new Date().toISOString(),
+    openingBalances,
+    closingBalances
+  };
+
+  return {
+    ...appData,
+    players: appData.players.map(player => ({
+      ...player,
+      balance: closingBalances[player.id],
+      arrears: 0,
+      advancePayment: 0
+    })),
+    periods: [...(appData.periods || []), period]
+  };
+};
+
+// Only the latest closed period can be reopened, since later periods started from its balances
+export const canReopenPeriod = (appData: AppData, period: Period): boolean => {
+  return getLatestClosedPeriod(appData)?.id === period.id;
+};
+
+export const reopenPeriod = (appData: AppData, periodId: string, reason: string): AppData => {
+  const period = (appData.periods || []).find(p => p.id === periodId);
+  if (!period || !canReopenPeriod(appData, period)) {
+    throw new Error('Only the most recently closed period can be reopened');
+  }
+  if (!reason.trim()) {
+    throw new Error('A reason is required to reopen a period');
+  }
+
+  return {
+    ...appData,
+    players: appData.players.map(player => {
+      if (!(player.id in period.closingBalances)) return player;
+      const carried = period.closingBalances[player.id] - period.openingBalances[player.id];
+      return { ...player, balance: player.balance - carried };
+    }),
+    periods: (appData.periods || []).map(p => p.id === periodId
+      ? { ...p, status: 'reopened', reopenedAt: new Date().toISOString(), reopenReason: reason.trim() }
+      : p)
+  };
+};
+
+// Each player's movement over a period, from the balances recorded when it was closed
+export const getPeriodBalances = (appData: AppData, period: Period): PeriodBalance[] => {
+  const { rounding } = getSettings(appData);
+  const weekends = getPeriodWeekends(appData, period);
+  return Object.keys(period.closingBalances).map(playerId => {
+    const entries = weekends.map(weekend => calculateWeekendEntry(weekend, playerId, rounding));
+    return {
+      playerId,
+      opening: period.openingBalances[playerId] || 0,
+      due: entries.reduce((sum, entry) => sum + entry.due, 0),
+      lateFee: entries.reduce((sum, entry) => sum + entry.lateFee, 0),
+      paid: entries.reduce((sum, entry) => sum + entry.paid, 0),
+      fronted: entries.reduce((sum, entry) => sum + entry.fronted, 0),
+      closing: period.closingBalances[playerId]
+    };
+  });
+};
@@ -0,0 +1,66 @@
+import { AppData, Expense, Match } from '../types';
+import { getCategoryTotals, getSeasonMatches, getSeasons } from './reports';
+
+const expense = (id: string, category: Expense['category'], amount: number): Expense => ({
+  id,
+  name: id,
+  amount,
+  category
+});
+
+const match = (id: string, date: string, expenses: Expense[]): Match => ({
+  id,
+  date,
+  clubId: 'club-micc',
+  expenses,
+  playerIds: [],
+  payments: []
+});
+
+const appData: AppData = {
+  players: [],
+  weekends: [
+    {
+      id: 'w1',
+      startDate: '2024-12-28',
+      matches: [match('m1', '2024-12-28', [expense('g1', 'ground', 250000), expense('b1', 'balls', 60000)])]
+    },
+    {
+      id: 'w2',
+      startDate: '2025-01-04',
+      matches: [
+        match('m2', '2025-01-04', [expense('g2', 'ground', 300000), expense('c2', 'cafeteria', 0)]),
+        match('m3', '2025-01-05', [
+          expense('g3', 'ground', 200000),
+          expense('b3', 'balls', 45000),
+          expense('b4', 'balls', 45000)
+        ])
+      ]
+    }
+  ],
+  currentWeekendId: 'w2'
+};
+
+describe('getSeasons', () => {
+  it('lists the years matches were played in, latest first', () => {
+    expect(getSeasons(appData)).toEqual(['2025', '2024']);
+  });
+
+  it('narrows matches down to one season', () => {
+    expect(getSeasonMatches(appData, '2025').map(m => m.id)).toEqual(['m2', 'm3']);
+    expect(getSeasonMatches(appData)).toHaveLength(3);
+  });
+});
+
+describe('getCategoryTotals', () => {
+  it('adds up spend per category and counts the matches it came from', () => {
+    expect(getCategoryTotals(getSeasonMatches(appData, '2025'))).toEqual([
+      { category: 'ground', label: 'Ground', amount: 500000, matchCount: 2 },
+      { category: 'balls', label: 'Balls', amount: 90000, matchCount: 1 }
+    ]);
+  });
+
+  it('returns nothing when there were no matches', () => {
+    expect(getCategoryTotals([])).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import { AppData, ExpenseCategory, Match } from '../types';
+import { EXPENSE_CATEGORIES, getChargedExpenses } from './calculations';
+import { getAllMatches } from './ledger';
+
+export interface CategoryTotal {
+  category: ExpenseCategory;
+  label: string;
+  amount: number;
+  matchCount: number; // matches with at least one expense in the category
+}
+
+// A season is the calendar year a match was played in
+export const getMatchSeason = (match: Match): string => {
+  return match.date.slice(0, 4);
+};
+
+export const getSeasons = (appData: AppData): string[] => {
+  const seasons = new Set(getAllMatches(appData).map(getMatchSeason));
+  return Array.from(seasons).sort((a, b) => b.localeCompare(a));
+};
+
+export const getSeasonMatches = (appData: AppData, season?: string): Match[] => {
+  const matches = getAllMatches(appData);
+  return season ? matches.filter(match => getMatchSeason(match) === season) : matches;
+};
+
+// Spend per expense category, in the order categories are offered in the match form
+export const getCategoryTotals = (matches: Match[]): CategoryTotal[] => {
+  return EXPENSE_CATEGORIES
+    .map(({ value, label }) => {
+      const lines = matches.map(match => getChargedExpenses(match).filter(expense => expense.category === value && expense.amount !== 0));
+      return {
+        category: value,
+        label,
+        amount: lines.flat().reduce((sum, expense) => sum + expense.amount, 0),
+        matchCount: lines.filter(matchLines => matchLines.length > 0).length
+      };
+    })
+    .filter(total => total.matchCount > 0);
+};
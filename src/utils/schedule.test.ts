@@ -0,0 +1,47 @@
+import { Match, Weekend } from '../types';
+import { formatMatchDate, getMatchDay, getWeekendDates, removeWeekendMatch, saveWeekendMatch, sortMatches } from './schedule';
+
+const match = (id: string, date: string, time?: string): Match => ({
+  id,
+  date,
+  time,
+  clubId: 'club-micc',
+  expenses: [],
+  playerIds: [],
+  payments: []
+});
+
+const weekend: Weekend = { id: 'w1', startDate: '2025-01-04', matches: [match('sun', '2025-01-05'), match('sat', '2025-01-04')] };
+
+describe('sortMatches', () => {
+  it('orders matches by date, then start time', () => {
+    const matches = [match('late', '2025-01-05', '14:00'), match('wed', '2025-01-08'), match('early', '2025-01-05', '07:30')];
+    expect(sortMatches(matches).map(m => m.id)).toEqual(['early', 'late', 'wed']);
+  });
+});
+
+describe('match labels', () => {
+  it('names the day and adds the start time when known', () => {
+    expect(getMatchDay(match('m', '2025-01-10'))).toBe('Friday');
+    expect(formatMatchDate(match('m', '2025-01-10', '19:30'))).toBe('Fri, Jan 10 19:30');
+  });
+});
+
+describe('getWeekendDates', () => {
+  it('runs from the Saturday to the following Friday', () => {
+    const dates = getWeekendDates(weekend);
+    expect(dates).toHaveLength(7);
+    expect(dates[0]).toBe('2025-01-04');
+    expect(dates[6]).toBe('2025-01-10');
+  });
+});
+
+describe('saveWeekendMatch', () => {
+  it('replaces a match with the same id and adds new ones', () => {
+    const moved = saveWeekendMatch(weekend, { ...match('sun', '2025-01-05'), time: '10:00' });
+    expect(moved.matches.map(m => m.time)).toEqual(['10:00', undefined]);
+    const added = saveWeekendMatch(weekend, match('fri', '2025-01-10'));
+    expect(added.matches.map(m => m.id)).toEqual(['sun', 'sat', 'fri']);
+    expect(removeWeekendMatch(added, 'sun').matches.map(m => m.id)).toEqual(['sat', 'fri']);
+  });
+});
@@ -0,0 +1,49 @@
+import { Match, Weekend } from '../types';
+import { addDays, format, isValid, parse } from 'date-fns';
+
+// A weekend holds any number of matches on any date. They are shown in date and time
+// order; matches without a start time come first on their day.
+
+const parseDate = (date: string): Date => parse(date, 'yyyy-MM-dd', new Date());
+
+export const compareMatches = (a: Match, b: Match): number => {
+  return a.date.localeCompare(b.date) || (a.time || '').localeCompare(b.time || '');
+};
+
+export const sortMatches = (matches: Match[]): Match[] => [...matches].sort(compareMatches);
+
+export const formatMatchDate = (match: Pick<Match, 'date' | 'time'>, pattern = 'EEE, MMM dd'): string => {
+  const date = parseDate(match.date);
+  if (!isValid(date)) return match.date;
+  return match.time ? `${format(date, pattern)} ${match.time}` : format(date, pattern);
+};
+
+// The day of the week, e.g. 'Saturday'
+export const getMatchDay = (match: Match): string => {
+  const date = parseDate(match.date);
+  return isValid(date) ? format(date, 'EEEE') : match.date;
+};
+
+export const getWeekendSunday = (weekend: Weekend): string => {
+  return format(addDays(parseDate(weekend.startDate), 1), 'yyyy-MM-dd');
+};
+
+// The days a weekend's matches are usually played on: its Saturday through the Friday after
+export const getWeekendDates = (weekend: Weekend): string[] => {
+  const saturday = parseDate(weekend.startDate);
+  return Array.from({ length: 7 }, (_, day) => format(addDays(saturday, day), 'yyyy-MM-dd'));
+};
+
+// Adds the match, or replaces the one with the same id
+export const saveWeekendMatch = (weekend: Weekend, match: Match): Weekend => {
+  const exists = weekend.matches.some(m => m.id === match.id);
+  return {
+    ...weekend,
+    matches: exists ? weekend.matches.map(m => (m.id === match.id ? match : m)) : [...weekend.matches, match]
+  };
+};
+
+export const removeWeekendMatch = (weekend: Weekend, matchId: string): Weekend => ({
+  ...weekend,
+  matches: weekend.matches.filter(match => match.id !== matchId)
+});
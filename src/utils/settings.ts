@@ -0,0 +1,12 @@
+import { AppData, AppSettings } from '../types';
+import { DEFAULT_ROUNDING_POLICY } from './money';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  rounding: DEFAULT_ROUNDING_POLICY,
+  graceDays: 7,
+  missingWeekends: 'create'
+};
+
+export const getSettings = (appData: AppData): AppSettings => {
+  return { ...DEFAULT_SETTINGS, ...appData.settings };
+};
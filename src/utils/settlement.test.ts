@@ -0,0 +1,166 @@
+import { AppData, Expense, Match } from '../types';
+import { syncMatchPayments } from './calculations';
+import { buildPlayerLedger } from './ledger';
+import {
+  KITTY_ID,
+  formatSettlementText,
+  getNetPositions,
+  getSettlementTransfers,
+  markWeekendPaid,
+  markWeekendUnpaid,
+  recordTransfer
+} from './settlement';
+import { player } from './testHelpers';
+import { getCashPosition } from './vendors';
+
+const ground = (paidBy?: string): Expense => ({ id: 'ground', name: 'Ground', amount: 300000, category: 'ground', paidBy });
+
+const match = (expenses: Expense[]): Match => syncMatchPayments({
+  id: 'm1',
+  date: '2025-01-04',
+  clubId: 'club-micc',
+  expenses,
+  playerIds: ['sai', 'rahul', 'amit'],
+  payments: []
+});
+
+const appData = (m: Match): AppData => ({
+  players: [player('sai', { firstName: 'Sai' }), player('rahul', { firstName: 'Rahul' }), player('amit', { firstName: 'Amit' })],
+  weekends: [{ id: 'w1', startDate: '2025-01-04', matches: [m] }],
+  currentWeekendId: 'w1'
+});
+
+describe('getNetPositions', () => {
+  it('credits the player who fronted an expense', () => {
+    expect(getNetPositions(appData(match([ground('sai')])))).toEqual([
+      { id: 'sai', amount: -200000 },
+      { id: 'rahul', amount: 100000 },
+      { id: 'amit', amount: 100000 }
+    ]);
+  });
+
+  it('puts the kitty on the other side of expenses it paid', () => {
+    const positions = getNetPositions(appData(match([ground()])));
+    expect(positions.find(p => p.id === KITTY_ID)).toEqual({ id: KITTY_ID, amount: -300000 });
+  });
+});
+
+describe('getSettlementTransfers', () => {
+  it('settles everyone with as few transfers as possible', () => {
+    expect(getSettlementTransfers([
+      { id: 'x', amount: 500 },
+      { id: 'y', amount: 300 },
+      { id: 'z', amount: -600 },
+      { id: KITTY_ID, amount: -200 }
+    ])).toEqual([
+      { from: 'x', to: 'z', amount: 500 },
+      { from: 'y', to: 'z', amount: 100 },
+      { from: 'y', to: KITTY_ID, amount: 200 }
+    ]);
+  });
+
+  it('has nothing to do when everyone is square', () => {
+    expect(getSettlementTransfers([])).toEqual([]);
+  });
+});
+
+describe('recordTransfer', () => {
+  it('receipts the payer and reimburses the player who fronted', () => {
+    const data = recordTransfer(appData(match([ground('sai')])), { from: 'rahul', to: 'sai', amount: 100000 }, { method: 'upi' });
+    const m = data.weekends[0].matches[0];
+    expect(m.payments.find(p => p.playerId === 'rahul')).toMatchObject({ amountPaid: 100000, status: 'paid' });
+    expect(m.payments.find(p => p.playerId === 'rahul')!.receipts[0]).toMatchObject({ method: 'upi', note: 'Paid to Sai' });
+    expect(m.expenses[0].reimbursements).toEqual([expect.objectContaining({ amount: 100000, note: 'From Rahul' })]);
+    expect(getNetPositions(data)).toEqual([
+      { id: 'sai', amount: -100000 },
+      { id: 'amit', amount: 100000 }
+    ]);
+  });
+
+  it('leaves everyone square once every suggested transfer is recorded', () => {
+    let data = appData(match([ground('sai')]));
+    getSettlementTransfers(getNetPositions(data)).forEach(transfer => {
+      data = recordTransfer(data, transfer);
+    });
+    expect(getNetPositions(data)).toEqual([]);
+  });
+
+  it('only receipts the payer when paying the kitty', () => {
+    const data = recordTransfer(appData(match([ground()])), { from: 'amit', to: KITTY_ID, amount: 100000 });
+    expect(getNetPositions(data).find(p => p.id === KITTY_ID)).toEqual({ id: KITTY_ID, amount: -200000 });
+  });
+
+  it('receipts anything beyond the dues on the latest payment rather than the opening balance', () => {
+    const data = recordTransfer(appData(match([ground()])), { from: 'amit', to: KITTY_ID, amount: 150000 });
+    expect(data.weekends[0].matches[0].payments.find(p => p.playerId === 'amit')).toMatchObject({ amountPaid: 150000 });
+    expect(data.players.find(p => p.id === 'amit')!.balance).toBe(0);
+  });
+
+  it('receipts money from a player with no open payments against their opening balance', () => {
+    const data = appData(match([ground()]));
+    const withDev = { ...data, players: [...data.players, player('dev', { firstName: 'Dev', balance: 50000 })] };
+    const paid = recordTransfer(withDev, { from: 'dev', to: KITTY_ID, amount: 50000 }, { method: 'upi', collectedBy: 'sai' });
+    expect(paid.players.find(p => p.id === 'dev')!.balance).toBe(50000);
+    expect(buildPlayerLedger(paid, paid.players[3]).closingBalance).toBe(0);
+    expect(paid.kittyEntries![0].receipts[0]).toMatchObject({ amount: 50000, method: 'upi', collectedBy: 'sai' });
+    expect(getCashPosition(paid).collected).toBe(50000);
+  });
+
+  it('skips dues already covered by credit', () => {
+    const first = match([ground()]);
+    const covered = {
+      ...first,
+      payments: first.payments.map(p => p.playerId === 'amit' ? { ...p, creditApplied: 100000, status: 'paid' as const } : p)
+    };
+    const second = { ...match([ground()]), id: 'm2', date: '2025-01-05' };
+    const data = recordTransfer({ ...appData(covered), weekends: [{ id: 'w1', startDate: '2025-01-04', matches: [covered, second] }] },
+      { from: 'amit', to: KITTY_ID, amount: 100000 });
+    const amountPaid = (m: Match) => m.payments.find(p => p.playerId === 'amit')!.amountPaid;
+    expect(data.weekends[0].matches.map(amountPaid)).toEqual([0, 100000]);
+  });
+});
+
+describe('markWeekendPaid', () => {
+  // Amit owes ₹1,000 from the first weekend and ₹1,000 for the second
+  const twoWeekends = (): AppData => {
+    const first = match([ground()]);
+    const second = { ...match([ground()]), id: 'm2', date: '2025-01-11' };
+    return {
+      ...appData(first),
+      weekends: [
+        { id: 'w1', startDate: '2025-01-04', matches: [first] },
+        { id: 'w2', startDate: '2025-01-11', matches: [second] }
+      ],
+      currentWeekendId: 'w2'
+    };
+  };
+  const amit = (data: AppData) => buildPlayerLedger(data, data.players[2]);
+
+  it('receipts the previous balance on the weekend and reverses it again when marked unpaid', () => {
+    const data = twoWeekends();
+    const paid = markWeekendPaid(data, 'w2', 'amit', amit(data).prevBalance, { method: 'upi' });
+    expect(amit(paid).currentBalance).toBe(0);
+    expect(paid.weekends[0]).toEqual(data.weekends[0]);
+
+    const unpaid = markWeekendUnpaid(paid, 'w2', 'amit');
+    expect(amit(unpaid).currentBalance).toBe(200000);
+    expect(unpaid.weekends[1].matches[0].payments.find(p => p.playerId === 'amit')!.amountPaid).toBe(0);
+  });
+
+  it('takes back the previous balance received on account from a player with no match that weekend', () => {
+    const data = { ...twoWeekends(), players: [...twoWeekends().players, player('dev', { balance: 50000 })] };
+    const dev = (d: AppData) => buildPlayerLedger(d, d.players[3]);
+    const paid = markWeekendPaid(data, 'w2', 'dev', dev(data).prevBalance);
+    expect(dev(paid).currentBalance).toBe(0);
+    const unpaid = markWeekendUnpaid(paid, 'w2', 'dev');
+    expect(unpaid.kittyEntries).toEqual([]);
+    expect(dev(unpaid).currentBalance).toBe(50000);
+  });
+});
+
+describe('formatSettlementText', () => {
+  it('lists who pays whom', () => {
+    const data = appData(match([ground('sai')]));
+    expect(formatSettlementText(data, [{ from: 'rahul', to: 'sai', amount: 45000 }])).toContain('• Rahul pays Sai ₹450');
+  });
+});
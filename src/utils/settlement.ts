@@ -0,0 +1,214 @@
+import { AppData, Match, Payment } from '../types';
+import { ReceiptDetails, createReceipt, getChargedExpenses, getPaymentTotal, markAsPaid, markAsUnpaid, recordReceipt } from './calculations';
+import { addKittyEntry, createKittyEntry, deleteKittyEntry, recordKittyPayment } from './kitty';
+import { buildLedger, calculateExpenseFronted, getOpenWeekends, getWeekendMatches, mapWeekendMatches, updateMatch } from './ledger';
+import { formatCurrency } from './money';
+import { format } from 'date-fns';
+
+// Settlement treats the team kitty as one more party alongside the players. Money
+// players pay the team lands in the kitty; money the team pays back leaves it.
+export const KITTY_ID = 'kitty';
+
+export interface NetPosition {
+  id: string; // player id, or KITTY_ID
+  amount: number; // positive = owes, negative = is owed
+}
+
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export const getPartyName = (appData: AppData, id: string): string => {
+  if (id === KITTY_ID) return 'Team Kitty';
+  const player = appData.players.find(p => p.id === id);
+  if (!player) return 'Unknown';
+  if (player.nickname && player.nickname.trim()) return player.nickname.trim();
+  return player.lastName ? `${player.firstName} ${player.lastName}` : player.firstName;
+};
+
+// Every player's all-time ledger balance; the kitty holds the other side so the positions net to zero
+export const getNetPositions = (appData: AppData): NetPosition[] => {
+  const players = buildLedger(appData).players.map(entry => ({ id: entry.player.id, amount: entry.closingBalance }));
+  const kitty = { id: KITTY_ID, amount: -players.reduce((sum, position) => sum + position.amount, 0) };
+  return [...players, kitty].filter(position => position.amount !== 0);
+};
+
+// Pairs the largest debts with the largest credits, so everyone is square in at
+// most one transfer fewer than the number of parties involved
+export const getSettlementTransfers = (positions: NetPosition[]): Transfer[] => {
+  const debtors = positions
+    .filter(position => position.amount > 0)
+    .map(position => ({ ...position }))
+    .sort((a, b) => b.amount - a.amount);
+  const creditors = positions
+    .filter(position => position.amount < 0)
+    .map(position => ({ id: position.id, amount: -position.amount }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const transfers: Transfer[] = [];
+  let d = 0;
+  let c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const amount = Math.min(debtors[d].amount, creditors[c].amount);
+    transfers.push({ from: debtors[d].id, to: creditors[c].id, amount });
+    debtors[d].amount -= amount;
+    creditors[c].amount -= amount;
+    if (debtors[d].amount === 0) d++;
+    if (creditors[c].amount === 0) c++;
+  }
+  return transfers;
+};
+
+// Weekends in a closed period are read-only, so transfers only ever land on open ones
+const getChronologicalMatches = (appData: AppData): Match[] => {
+  return getOpenWeekends(appData).flatMap(getWeekendMatches);
+};
+
+// Money a player hands over, receipted against their oldest open payments first. Anything
+// beyond what they owe on matches is receipted on their latest payment, where it stands as
+// credit; a player with no open payments has it receipted against their opening balance.
+const receivePayment = (appData: AppData, playerId: string, amount: number, details: ReceiptDetails): AppData => {
+  let left = amount;
+  let updated = appData;
+  const payments = getChronologicalMatches(appData)
+    .map(match => ({ match, payment: match.payments.find(p => p.playerId === playerId) }))
+    .filter(({ payment }) => payment);
+
+  payments.forEach(({ match, payment }, index) => {
+    const outstanding = Math.max(0, getPaymentTotal(payment!) - payment!.amountPaid - (payment!.creditApplied || 0));
+    const isLast = index === payments.length - 1;
+    const applied = isLast ? left : Math.min(left, outstanding);
+    if (applied <= 0) return;
+    left -= applied;
+    updated = updateMatch(updated, match.id, m => ({
+      ...m,
+      payments: m.payments.map(p => p.id === payment!.id ? recordReceipt(p, applied, details) : p)
+    }));
+  });
+
+  return left > 0 ? receiptOnAccount(updated, playerId, left, details) : updated;
+};
+
+// Money paid out to a player, reimbursing what they fronted (oldest first) before
+// refunding any overpayment on their latest payment
+const payOut = (appData: AppData, playerId: string, amount: number, details: ReceiptDetails): AppData => {
+  let left = amount;
+  let updated = appData;
+
+  getChronologicalMatches(appData).forEach(match => {
+    getChargedExpenses(match).forEach(expense => {
+      if (expense.paidBy !== playerId || left <= 0) return;
+      const outstanding = calculateExpenseFronted(expense);
+      const applied = Math.min(left, outstanding);
+      if (applied <= 0) return;
+      left -= applied;
+      updated = updateMatch(updated, match.id, m => ({
+        ...m,
+        expenses: m.expenses.map(e => e.id === expense.id
+          ? { ...e, reimbursements: [...(e.reimbursements || []), createReceipt(applied, details)] }
+          : e)
+      }));
+    });
+  });
+  if (left <= 0) return updated;
+
+  const latest = getChronologicalMatches(updated).reverse().find(match => match.payments.some(p => p.playerId === playerId));
+  if (!latest) return receiptOnAccount(updated, playerId, -left, { ...details, note: details.note || 'Refund' });
+  return updateMatch(updated, latest.id, m => ({
+    ...m,
+    payments: m.payments.map(p => p.playerId === playerId ? recordReceipt(p, -left, { ...details, note: details.note || 'Refund' }) : p)
+  }));
+};
+
+// Money in or out for a player with nothing open to receipt it against. It goes on a kitty
+// entry that charges nothing, so the receipt is counted in cash and moves their balance.
+const receiptOnAccount = (
+  appData: AppData,
+  playerId: string,
+  amount: number,
+  details: ReceiptDetails,
+  note = 'Opening balance'
+): AppData => {
+  const entry = createKittyEntry({
+    type: 'contribution',
+    amount: 0,
+    date: format(new Date(), 'yyyy-MM-dd'),
+    playerId,
+    note
+  });
+  return recordKittyPayment(addKittyEntry(appData, entry), entry.id, amount, details);
+};
+
+export const PREVIOUS_BALANCE_NOTE = 'Previous balance';
+
+const mapPlayerPayments = (appData: AppData, weekendId: string, playerId: string, fn: (payment: Payment) => Payment): AppData => ({
+  ...appData,
+  weekends: appData.weekends.map(weekend => weekend.id !== weekendId ? weekend : mapWeekendMatches(weekend, match => ({
+    ...match,
+    payments: match.payments.map(p => (p.playerId === playerId ? fn(p) : p))
+  })))
+});
+
+// Marks a player paid up from a weekend's row: the weekend's dues and the previous balance
+// brought into it. The previous balance is receipted on the player's last payment that
+// weekend, where it stands as credit against the older dues, so marking them unpaid again
+// reverses it along with the rest. A player with no match that weekend has it receipted
+// on account instead.
+export const markWeekendPaid = (
+  appData: AppData,
+  weekendId: string,
+  playerId: string,
+  prevBalance: number,
+  details: ReceiptDetails = {}
+): AppData => {
+  const updated = mapPlayerPayments(appData, weekendId, playerId, p => markAsPaid(p, details));
+  if (prevBalance <= 0) return updated;
+  const weekend = updated.weekends.find(w => w.id === weekendId);
+  const last = weekend ? getWeekendMatches(weekend).reverse().find(match => match.payments.some(p => p.playerId === playerId)) : undefined;
+  if (!last) return receiptOnAccount(updated, playerId, prevBalance, details, PREVIOUS_BALANCE_NOTE);
+  return updateMatch(updated, last.id, m => ({
+    ...m,
+    payments: m.payments.map(p => p.playerId === playerId ? recordReceipt(p, prevBalance, { ...details, note: PREVIOUS_BALANCE_NOTE }) : p)
+  }));
+};
+
+// Reverses markWeekendPaid: every receipt on the weekend's payments, or the previous
+// balance last receipted on account for a player with no match that weekend
+export const markWeekendUnpaid = (appData: AppData, weekendId: string, playerId: string): AppData => {
+  const weekend = appData.weekends.find(w => w.id === weekendId);
+  const hasPayments = !!weekend && weekend.matches.some(match => match.payments.some(p => p.playerId === playerId));
+  if (hasPayments) return mapPlayerPayments(appData, weekendId, playerId, markAsUnpaid);
+  const onAccount = (appData.kittyEntries || [])
+    .filter(entry => entry.playerId === playerId && entry.amount === 0 && entry.note === PREVIOUS_BALANCE_NOTE)
+    .pop();
+  return onAccount ? deleteKittyEntry(appData, onAccount.id) : appData;
+};
+
+// Records a completed transfer: the payer's dues go down and the payee's credit is used up
+export const recordTransfer = (appData: AppData, transfer: Transfer, details: ReceiptDetails = {}): AppData => {
+  let updated = appData;
+  if (transfer.from !== KITTY_ID) {
+    updated = receivePayment(updated, transfer.from, transfer.amount, {
+      ...details,
+      note: details.note || `Paid to ${getPartyName(appData, transfer.to)}`
+    });
+  }
+  if (transfer.to !== KITTY_ID) {
+    updated = payOut(updated, transfer.to, transfer.amount, {
+      ...details,
+      note: details.note || `From ${getPartyName(appData, transfer.from)}`
+    });
+  }
+  return updated;
+};
+
+export const formatSettlementText = (appData: AppData, transfers: Transfer[]): string => {
+  let message = `🤝 *Settle Up*\n\n`;
+  transfers.forEach(transfer => {
+    message += `• ${getPartyName(appData, transfer.from)} pays ${getPartyName(appData, transfer.to)} ${formatCurrency(transfer.amount)}\n`;
+  });
+  message += `\nPlease settle and let us know once done. Thanks! 🙏`;
+  return message;
+};
@@ -1,13 +1,18 @@
-import { AppData, Player, Weekend } from '../types';
+import { AppData, AuditEntry, Club, Player, Weekend } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-import { format, startOfWeek, addDays } from 'date-fns';
+import { format, startOfWeek } from 'date-fns';
+import { CURRENT_SCHEMA_VERSION, migrateData } from './migrations';
 
 const STORAGE_KEY = 'cricket-cost-splitter-data';
+const AUDIT_LOG_KEY = 'cricket-cost-splitter-audit-log';
+const AUDIT_USER_KEY = 'cricket-cost-splitter-audit-user';
 
 export const getInitialData = (): AppData => {
   const currentWeekend = getCurrentWeekend();
   return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     players: getSamplePlayers(),
+    clubs: getSampleClubs(),
     weekends: [currentWeekend],
     currentWeekendId: currentWeekend.id
   };
@@ -17,7 +22,7 @@ export const loadData = (): AppData => {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      return migrateData(JSON.parse(stored));
     }
   } catch (error) {
     console.error('Error loading data from localStorage:', error);
@@ -25,14 +30,49 @@ export const loadData = (): AppData => {
   return getInitialData();
 };
 
-export const saveData = (data: AppData): void => {
+// Returns false when the browser would not store the data, typically because it is full
+export const saveData = (data: AppData): boolean => {
   try {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    return true;
   } catch (error) {
     console.error('Error saving data to localStorage:', error);
+    return false;
   }
 };
 
+// The audit log is kept apart from the app data so exports and undo leave it alone
+export const loadAuditLog = (): AuditEntry[] => {
+  try {
+    const stored = localStorage.getItem(AUDIT_LOG_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error('Error loading audit log from localStorage:', error);
+  }
+  return [];
+};
+
+export const saveAuditLog = (log: AuditEntry[]): boolean => {
+  try {
+    localStorage.setItem(AUDIT_LOG_KEY, JSON.stringify(log));
+    return true;
+  } catch (error) {
+    console.error('Error saving audit log to localStorage:', error);
+    return false;
+  }
+};
+
+// Who is making changes on this device, recorded against each audit entry
+export const loadAuditUser = (): string => {
+  return localStorage.getItem(AUDIT_USER_KEY) || '';
+};
+
+export const saveAuditUser = (user: string): void => {
+  localStorage.setItem(AUDIT_USER_KEY, user);
+};
+
 export const exportData = (): string => {
   const data = loadData();
   return JSON.stringify(data, null, 2);
@@ -40,7 +80,7 @@ export const exportData = (): string => {
 
 export const importData = (jsonString: string): AppData => {
   try {
-    const data = JSON.parse(jsonString);
+    const data = migrateData(JSON.parse(jsonString));
     saveData(data);
     return data;
   } catch (error) {
@@ -56,18 +96,7 @@ export const getCurrentWeekend = (): Weekend => {
   return {
     id: uuidv4(),
     startDate: format(saturday, 'yyyy-MM-dd'),
-    weekdayMatches: []
-  };
-};
-
-export const getNextWeekend = (currentWeekend: Weekend): Weekend => {
-  const currentSaturday = new Date(currentWeekend.startDate);
-  const nextSaturday = addDays(currentSaturday, 7);
-  
-  return {
-    id: uuidv4(),
-    startDate: format(nextSaturday, 'yyyy-MM-dd'),
-    weekdayMatches: []
+    matches: []
   };
 };
 
@@ -77,4 +106,9 @@ export const getSamplePlayers = (): Player[] => [
   { id: uuidv4(), firstName: 'Amit', lastName: 'Patel', mobile: '7777777777', balance: 0 },
   { id: uuidv4(), firstName: 'Vikas', lastName: '', mobile: '6666666666', balance: 0 },
   { id: uuidv4(), firstName: 'Rohit', lastName: 'Singh', mobile: '5555555555', balance: 0 }
-];
\ No newline at end of file
+];
+
+export const getSampleClubs = (): Club[] => [
+  { id: uuidv4(), name: 'MICC', defaultGroundCost: 0, colour: '#2c5282' },
+  { id: uuidv4(), name: 'Sadhooz', defaultGroundCost: 0, colour: '#c05621' }
+];
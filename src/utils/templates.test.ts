@@ -0,0 +1,65 @@
+import { AppData, Match } from '../types';
+import { syncMatchPayments } from './calculations';
+import { applyTemplates, createMatchFromTemplate, createTemplateFromMatch, saveTemplate } from './templates';
+import { player } from './testHelpers';
+
+const match: Match = syncMatchPayments({
+  id: 'm1',
+  date: '2025-01-05',
+  time: '07:00',
+  clubId: 'club-micc',
+  expenses: [
+    { id: 'ground', name: 'Ground', amount: 100000, category: 'ground', paidBy: 'sai', reimbursements: [] }
+  ],
+  playerIds: ['sai', 'rahul'],
+  payments: []
+});
+
+const weekend = { id: 'w1', startDate: '2025-01-04', matches: [match] };
+
+const appData: AppData = {
+  players: [player('sai'), player('rahul')],
+  weekends: [weekend, { id: 'w2', startDate: '2025-01-11', matches: [] }],
+  currentWeekendId: 'w1'
+};
+
+describe('createTemplateFromMatch', () => {
+  it('keeps the weekday, time, costs and lineup', () => {
+    const template = createTemplateFromMatch(match, weekend, 'MICC Sunday');
+    expect(template).toMatchObject({ name: 'MICC Sunday', clubId: 'club-micc', day: 1, time: '07:00', playerIds: ['sai', 'rahul'] });
+    expect(template.expenses[0]).toMatchObject({ name: 'Ground', amount: 100000 });
+  });
+
+  it('does not copy who fronted an expense', () => {
+    const template = createTemplateFromMatch(match, weekend, 'MICC Sunday');
+    expect(template.expenses[0].paidBy).toBeUndefined();
+    expect(template.expenses[0].id).not.toBe('ground');
+  });
+});
+
+describe('createMatchFromTemplate', () => {
+  it('schedules the match on the same weekday of another weekend', () => {
+    const template = createTemplateFromMatch(match, weekend, 'MICC Sunday');
+    const created = createMatchFromTemplate(appData, template, appData.weekends[1]);
+    expect(created).toMatchObject({ date: '2025-01-12', time: '07:00', templateId: template.id, status: 'scheduled' });
+    expect(created.payments.map(p => p.amountDue)).toEqual([50000, 50000]);
+  });
+
+  it('leaves out players who have since been deleted', () => {
+    const template = createTemplateFromMatch(match, weekend, 'MICC Sunday');
+    const withoutRahul = { ...appData, players: [player('sai')] };
+    expect(createMatchFromTemplate(withoutRahul, template, appData.weekends[1]).playerIds).toEqual(['sai']);
+  });
+});
+
+describe('applyTemplates', () => {
+  it('adds each auto-create template once per weekend', () => {
+    const template = createTemplateFromMatch(match, weekend, 'MICC Sunday');
+    const manual = { ...createTemplateFromMatch(match, weekend, 'Friday nets'), autoCreate: false };
+    const data = saveTemplate(saveTemplate(appData, template), manual);
+
+    const applied = applyTemplates(data, 'w2');
+    expect(applied.weekends[1].matches).toHaveLength(1);
+    expect(applyTemplates(applied, 'w2')).toBe(applied);
+  });
+});
@@ -0,0 +1,104 @@
+import { AppData, Expense, Match, MatchTemplate, Weekend } from '../types';
+import { addDays, differenceInCalendarDays, format, parse } from 'date-fns';
+import { generateUUID, syncMatchPayments } from './calculations';
+import { getClub, getClubExpenses, getDefaultClubId } from './clubs';
+import { applyGuests } from './guests';
+import { applyMemberships } from './memberships';
+import { getSettings } from './settings';
+
+// Templates hold what stays the same from week to week. Who fronted an expense and what
+// they were paid back is particular to one match, so it is never copied.
+
+export const getTemplates = (appData: AppData): MatchTemplate[] => appData.matchTemplates || [];
+
+export const getTemplate = (appData: AppData, templateId: string): MatchTemplate | undefined => {
+  return getTemplates(appData).find(template => template.id === templateId);
+};
+
+const copyExpenses = (expenses: Expense[]): Expense[] => {
+  return expenses.map(({ paidBy, reimbursements, ...expense }) => ({ ...expense, id: generateUUID() }));
+};
+
+export const createTemplate = (appData: AppData, name: string, day = 0): MatchTemplate => {
+  const clubId = getDefaultClubId(appData);
+  return {
+    id: generateUUID(),
+    name,
+    clubId,
+    day,
+    expenses: getClubExpenses(getClub(appData, clubId)),
+    playerIds: [],
+    autoCreate: true
+  };
+};
+
+// The day is counted from the weekend's Saturday, so the template lands on the same weekday each week
+export const createTemplateFromMatch = (match: Match, weekend: Weekend, name: string): MatchTemplate => {
+  const saturday = parse(weekend.startDate, 'yyyy-MM-dd', new Date());
+  const day = differenceInCalendarDays(parse(match.date, 'yyyy-MM-dd', new Date()), saturday);
+  return {
+    id: generateUUID(),
+    name,
+    clubId: match.clubId,
+    day: Math.min(6, Math.max(0, day)),
+    time: match.time,
+    expenses: copyExpenses(match.expenses),
+    playerIds: [...match.playerIds],
+    playerShares: match.playerShares,
+    autoCreate: true
+  };
+};
+
+export const saveTemplate = (appData: AppData, template: MatchTemplate): AppData => {
+  const templates = getTemplates(appData);
+  const exists = templates.some(t => t.id === template.id);
+  return {
+    ...appData,
+    matchTemplates: exists ? templates.map(t => (t.id === template.id ? template : t)) : [...templates, template]
+  };
+};
+
+export const deleteTemplate = (appData: AppData, templateId: string): AppData => ({
+  ...appData,
+  matchTemplates: getTemplates(appData).filter(template => template.id !== templateId)
+});
+
+export const getTemplateDate = (template: MatchTemplate, weekend: Weekend): string => {
+  return format(addDays(parse(weekend.startDate, 'yyyy-MM-dd', new Date()), template.day), 'yyyy-MM-dd');
+};
+
+// Players who have since been deleted are left out of the lineup
+export const createMatchFromTemplate = (appData: AppData, template: MatchTemplate, weekend: Weekend): Match => {
+  const settings = getSettings(appData);
+  const playerIds = template.playerIds.filter(playerId => appData.players.some(player => player.id === playerId));
+  const match: Match = {
+    id: generateUUID(),
+    date: getTemplateDate(template, weekend),
+    time: template.time,
+    clubId: template.clubId,
+    expenses: copyExpenses(template.expenses),
+    playerIds,
+    playerShares: template.playerShares,
+    payments: [],
+    status: 'scheduled',
+    templateId: template.id
+  };
+  return syncMatchPayments(applyGuests(appData, applyMemberships(appData, match)), settings.rounding, settings.graceDays);
+};
+
+// Adds a match for every auto-create template not already used on the weekend
+export const applyTemplates = (appData: AppData, weekendId: string): AppData => {
+  const weekend = appData.weekends.find(w => w.id === weekendId);
+  if (!weekend) return appData;
+
+  const matches = getTemplates(appData)
+    .filter(template => template.autoCreate)
+    .filter(template => !weekend.matches.some(match => match.templateId === template.id))
+    .map(template => createMatchFromTemplate(appData, template, weekend));
+  if (matches.length === 0) return appData;
+
+  return {
+    ...appData,
+    weekends: appData.weekends.map(w => (w.id === weekendId ? { ...w, matches: [...w.matches, ...matches] } : w))
+  };
+};
@@ -0,0 +1,10 @@
+import { Player } from '../types';
+
+// A player for test fixtures, named after their id
+export const player = (id: string, overrides: Partial<Player> = {}): Player => ({
+  id,
+  firstName: id,
+  mobile: '',
+  balance: 0,
+  ...overrides
+});
@@ -0,0 +1,97 @@
+import { AppData, Match } from '../types';
+import { createReceipt, markAsPaid, syncMatchPayments } from './calculations';
+import { addKittyEntry, createKittyEntry, recordKittyPayment } from './kitty';
+import { buildLedger } from './ledger';
+import { closePeriod } from './periods';
+import { KITTY_ID } from './settlement';
+import { player } from './testHelpers';
+import { CASH_ID, getAccountBalances, getKittyHistory, getPostings, getTreasurySummary, getVendorAccountId } from './treasury';
+import { addVendorEntry, createVendorEntry, getCashPosition } from './vendors';
+
+// ₹1,000 split three ways is rounded up to ₹334 each, leaving ₹2 over for the kitty
+const synced = syncMatchPayments({
+  id: 'm1',
+  date: '2025-01-04',
+  clubId: 'club-micc',
+  expenses: [
+    { id: 'ground', name: 'Ground', amount: 70000, category: 'ground' },
+    { id: 'tea', name: 'Cafeteria', amount: 30000, category: 'cafeteria', paidBy: 'rahul', reimbursements: [createReceipt(10000)] }
+  ],
+  playerIds: ['sai', 'rahul', 'arjun'],
+  payments: []
+}, { unit: 100, remainder: 'kitty' });
+const match: Match = { ...synced, payments: synced.payments.map((p, i) => (i === 0 ? markAsPaid(p) : p)) };
+
+const fine = createKittyEntry({ type: 'fine', amount: 5000, date: '2025-01-04', playerId: 'arjun' });
+
+const appData: AppData = [
+  createKittyEntry({ type: 'purchase', amount: 20000, date: '2025-01-05', note: 'Stumps' }),
+  createKittyEntry({ type: 'income', amount: 50000, date: '2025-01-06', note: 'Sponsor' })
+].reduce(addKittyEntry, addVendorEntry(addKittyEntry({
+  players: [player('sai'), player('rahul'), player('arjun', { balance: 10000 })],
+  weekends: [
+    { id: 'w1', startDate: '2025-01-04', matches: [match] },
+    { id: 'w2', startDate: '2025-01-11', matches: [] }
+  ],
+  currentWeekendId: 'w2',
+  settings: { rounding: { unit: 100, remainder: 'kitty' }, graceDays: 3, missingWeekends: 'create' }
+}, fine), createVendorEntry({ clubId: 'club-micc', type: 'payment', amount: 60000, date: '2025-01-04', matchId: 'm1' })));
+
+describe('getPostings', () => {
+  it('books every posting to two accounts so the balances sum to zero', () => {
+    const balances = getAccountBalances(getPostings(appData));
+    expect(Object.values(balances).reduce((sum, balance) => sum + balance, 0)).toBe(0);
+    expect(balances[getVendorAccountId('club-micc')]).toBe(-10000);
+  });
+
+  it('gives players the same balances as the ledger', () => {
+    const balances = getAccountBalances(getPostings(appData));
+    buildLedger(appData).players.forEach(entry => {
+      expect(balances[entry.player.id] || 0).toBe(entry.closingBalance);
+    });
+  });
+
+  it('keeps cash in step with the cash position', () => {
+    const paid = recordKittyPayment(appData, fine.id, 5000);
+    expect(getAccountBalances(getPostings(paid))[CASH_ID]).toBe(getCashPosition(paid).net);
+  });
+
+  it('brings forward only what players owed before the first period was closed', () => {
+    const closed = closePeriod(appData, '2025-01-10', 'January');
+    expect(getAccountBalances(getPostings(closed))).toEqual(getAccountBalances(getPostings(appData)));
+  });
+});
+
+describe('getTreasurySummary', () => {
+  it('reconciles cash with the kitty, players and clubs', () => {
+    expect(getTreasurySummary(appData)).toEqual({
+      cash: 33400 - 10000 - 60000 - 20000 + 50000, // receipts and payback, club, stumps, sponsor
+      heldByCollectors: 0,
+      kitty: 10000 + 200 + 5000 - 20000 + 50000, // brought forward, surplus, fine, stumps, sponsor
+      playersOwe: (33400 - 20000) + (10000 + 33400 + 5000), // rahul net of the fronted cafeteria, arjun
+      playersOwed: 0,
+      vendorsOwed: 10000,
+      difference: 0
+    });
+  });
+
+  it('shows cash the books cannot account for as a difference', () => {
+    // Sai's receipts stay on the match after Sai is removed, but no longer post to the treasury
+    const removed = { ...appData, players: appData.players.filter(p => p.id !== 'sai') };
+    expect(getTreasurySummary(removed).difference).toBe(-33400);
+  });
+});
+
+describe('getKittyHistory', () => {
+  it('nets each match into one line with a running balance', () => {
+    const history = getKittyHistory(appData);
+    expect(history.map(line => line.amount)).toEqual([10000, 200, 5000, -20000, 50000]);
+    expect(history[1]).toMatchObject({ matchId: 'm1', balance: 10200 });
+    expect(history[history.length - 1].balance).toBe(45200);
+  });
+
+  it('counts nothing twice between the kitty and the ledger', () => {
+    const balances = getAccountBalances(getPostings(appData));
+    expect(-balances[KITTY_ID]).toBe(getKittyHistory(appData).pop()!.balance);
+  });
+});
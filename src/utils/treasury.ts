@@ -0,0 +1,237 @@
+import { AppData, Receipt } from '../types';
+import { getMatchLabel } from './audit';
+import { getChargedExpenses } from './calculations';
+import { getHandovers, isWithCollector } from './collections';
+import { getKittyEntries, getKittyEntryLabel, isPlayerCharge } from './kitty';
+import {
+  calculateMatchEntry,
+  calculateWeekendEntry,
+  getAllMatches,
+  getOpeningBalance,
+  getSortedWeekends,
+  getWeekendMatches,
+  isWeekendLocked
+} from './ledger';
+import { KITTY_ID } from './settlement';
+import { getSettings } from './settings';
+import { getCashPosition, getVendorEntries, getVendorEntryLabel } from './vendors';
+
+// The treasury books every movement of money as a posting that debits one account and
+// credits another by the same amount. The accounts are the players (by id), the team kitty,
+// the cash with the treasurer, the cash each collector still holds and each club as a vendor.
+// An account's balance is its debits less its credits: a player's matches their ledger
+// balance (positive = owes the team), cash is what is held, and the kitty and clubs are
+// negative when they are owed. As every posting has both sides, the balances always sum to zero.
+export const CASH_ID = 'cash';
+
+export const getVendorAccountId = (clubId: string): string => `vendor:${clubId}`;
+
+export const isVendorAccount = (accountId: string): boolean => accountId.startsWith('vendor:');
+
+export const getHolderAccountId = (collectorId: string): string => `held:${collectorId}`;
+
+export const isHolderAccount = (accountId: string): boolean => accountId.startsWith('held:');
+
+export interface Posting {
+  date: string;
+  debit: string;
+  credit: string;
+  amount: number; // always positive
+  description: string;
+  matchId?: string;
+  kittyEntryId?: string;
+}
+
+export interface TreasurySummary {
+  cash: number; // what the team holds, with the treasurer or collectors
+  heldByCollectors: number; // the part of the cash collectors have not handed over yet
+  kitty: number; // the team fund: match surpluses, fees, fines and contributions less purchases
+  playersOwe: number; // what players in debt owe the team
+  playersOwed: number; // what the team owes players in credit
+  vendorsOwed: number; // what the team owes clubs, less what clubs hold of the team's
+  difference: number; // cash less the money actually taken in and paid out; zero when the books agree
+}
+
+export interface KittyLine {
+  date: string;
+  description: string;
+  amount: number; // positive = into the kitty
+  balance: number; // the kitty after the line
+  matchId?: string;
+  kittyEntryId?: string;
+}
+
+type PostingLinks = Pick<Posting, 'matchId' | 'kittyEntryId'>;
+
+// Negative amounts are booked the other way round, so every posting reads as a positive sum
+const post = (
+  postings: Posting[],
+  date: string,
+  debit: string,
+  credit: string,
+  amount: number,
+  description: string,
+  links: PostingLinks = {}
+): void => {
+  if (amount === 0) return;
+  postings.push(amount > 0
+    ? { date, debit, credit, amount, description, ...links }
+    : { date, debit: credit, credit: debit, amount: -amount, description, ...links });
+};
+
+// Every posting from the app data, oldest first
+export const getPostings = (appData: AppData): Posting[] => {
+  const { rounding } = getSettings(appData);
+  const weekends = getSortedWeekends(appData.weekends);
+  const postings: Posting[] = [];
+
+  const postReceipts = (receipts: Receipt[], playerId: string, description: string, links: PostingLinks = {}): void => {
+    receipts.forEach(receipt => {
+      const holder = isWithCollector(appData, receipt) ? getHolderAccountId(receipt.collectedBy!) : CASH_ID;
+      post(postings, receipt.date, holder, playerId, receipt.amount, description, links);
+    });
+  };
+
+  // Closing a period folds its weekends into players' opening balances. Those weekends are
+  // posted below like any other, so only what a player owed from before is brought forward.
+  const lockedWeekends = weekends.filter(weekend => isWeekendLocked(appData, weekend));
+  appData.players.forEach(player => {
+    const locked = lockedWeekends.reduce((sum, weekend) => sum + calculateWeekendEntry(weekend, player.id, rounding).balance, 0);
+    post(postings, '', player.id, KITTY_ID, getOpeningBalance(player) - locked, 'Brought forward');
+  });
+
+  weekends.flatMap(getWeekendMatches).forEach(match => {
+    const links = { matchId: match.id };
+    appData.players.forEach(player => {
+      const entry = calculateMatchEntry(match, player.id, rounding);
+      if (!entry) return;
+      post(postings, match.date, player.id, KITTY_ID, entry.due, 'Match share', links);
+      post(postings, match.date, player.id, KITTY_ID, entry.lateFee, 'Late fee', links);
+      postReceipts(entry.payment?.receipts || [], player.id, 'Paid', links);
+    });
+    getChargedExpenses(match).forEach(expense => {
+      const { paidBy } = expense;
+      if (!paidBy) {
+        post(postings, match.date, KITTY_ID, getVendorAccountId(match.clubId), expense.amount, expense.name, links);
+        return;
+      }
+      post(postings, match.date, KITTY_ID, paidBy, expense.amount, `${expense.name} (fronted)`, links);
+      (expense.reimbursements || []).forEach(receipt =>
+        post(postings, receipt.date, paidBy, CASH_ID, receipt.amount, 'Paid back', links));
+    });
+  });
+
+  (appData.memberships || []).forEach(membership => {
+    post(postings, membership.date, membership.playerId, KITTY_ID, membership.fee, 'Membership fee');
+    postReceipts(membership.receipts, membership.playerId, 'Paid membership');
+  });
+
+  getKittyEntries(appData).forEach(entry => {
+    const links = { kittyEntryId: entry.id };
+    const description = entry.note || getKittyEntryLabel(entry.type);
+    if (isPlayerCharge(entry)) {
+      if (!entry.playerId) return;
+      post(postings, entry.date, entry.playerId, KITTY_ID, entry.amount, description, links);
+      postReceipts(entry.receipts, entry.playerId, `Paid ${getKittyEntryLabel(entry.type).toLowerCase()}`, links);
+    } else if (entry.type === 'purchase') {
+      post(postings, entry.date, KITTY_ID, CASH_ID, entry.amount, description, links);
+    } else {
+      post(postings, entry.date, CASH_ID, KITTY_ID, entry.amount, description, links);
+    }
+  });
+
+  getVendorEntries(appData).forEach(entry => {
+    const vendor = getVendorAccountId(entry.clubId);
+    const links = { matchId: entry.matchId };
+    const description = entry.note || getVendorEntryLabel(entry.type);
+    if (entry.type === 'booking') {
+      // A booking for a match is already charged through the match's expenses
+      if (!entry.matchId) post(postings, entry.date, KITTY_ID, vendor, entry.amount, description);
+    } else if (entry.type === 'refund') {
+      post(postings, entry.date, CASH_ID, vendor, entry.amount, description, links);
+    } else {
+      post(postings, entry.date, vendor, CASH_ID, entry.amount, description, links);
+    }
+  });
+
+  getHandovers(appData).forEach(handover => {
+    post(postings, handover.date, CASH_ID, getHolderAccountId(handover.collectorId), handover.amount, handover.note || 'Handed over');
+  });
+
+  return postings.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const getAccountBalances = (postings: Posting[]): { [accountId: string]: number } => {
+  const balances: { [accountId: string]: number } = {};
+  postings.forEach(posting => {
+    balances[posting.debit] = (balances[posting.debit] || 0) + posting.amount;
+    balances[posting.credit] = (balances[posting.credit] || 0) - posting.amount;
+  });
+  return balances;
+};
+
+export const getTreasurySummary = (appData: AppData): TreasurySummary => {
+  const balances = getAccountBalances(getPostings(appData));
+  const kitty = -(balances[KITTY_ID] || 0);
+  let cash = balances[CASH_ID] || 0;
+  let heldByCollectors = 0;
+  let playersOwe = 0;
+  let playersOwed = 0;
+  let vendorsOwed = 0;
+  Object.keys(balances).forEach(accountId => {
+    const balance = balances[accountId];
+    if (accountId === CASH_ID || accountId === KITTY_ID) return;
+    if (isHolderAccount(accountId)) {
+      cash += balance;
+      heldByCollectors += balance;
+    } else if (isVendorAccount(accountId)) {
+      vendorsOwed -= balance;
+    } else if (balance > 0) {
+      playersOwe += balance;
+    } else {
+      playersOwed -= balance;
+    }
+  });
+  return {
+    cash,
+    heldByCollectors,
+    kitty,
+    playersOwe,
+    playersOwed,
+    vendorsOwed,
+    difference: cash - getCashPosition(appData).net
+  };
+};
+
+// The kitty's own history with a running balance. A match's shares, late fees and costs are
+// netted into one line, which is its surplus or the deficit the kitty made up.
+export const getKittyHistory = (appData: AppData): KittyLine[] => {
+  const matches = getAllMatches(appData);
+  const lines: KittyLine[] = [];
+  getPostings(appData).forEach(posting => {
+    const amount = posting.credit === KITTY_ID ? posting.amount : posting.debit === KITTY_ID ? -posting.amount : 0;
+    if (amount === 0) return;
+    const matchLine = posting.matchId ? lines.find(line => line.matchId === posting.matchId) : undefined;
+    if (matchLine) {
+      matchLine.amount += amount;
+      return;
+    }
+    const match = posting.matchId ? matches.find(m => m.id === posting.matchId) : undefined;
+    lines.push({
+      date: posting.date,
+      description: match ? getMatchLabel(appData, match) : posting.description,
+      amount,
+      balance: 0,
+      matchId: posting.matchId,
+      kittyEntryId: posting.kittyEntryId
+    });
+  });
+
+  let balance = 0;
+  return lines
+    .filter(line => line.amount !== 0)
+    .map(line => {
+      balance += line.amount;
+      return { ...line, balance };
+    });
+};
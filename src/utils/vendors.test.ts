@@ -0,0 +1,82 @@
+import { AppData, Match } from '../types';
+import { createReceipt, markAsPaid, syncMatchPayments } from './calculations';
+import {
+  addVendorEntry,
+  createVendorEntry,
+  getCashPosition,
+  getMatchReconciliation,
+  getVendorBalance,
+  getVendorLedger
+} from './vendors';
+
+const synced = syncMatchPayments({
+  id: 'm1',
+  date: '2025-01-04',
+  clubId: 'club-micc',
+  expenses: [
+    { id: 'ground', name: 'Ground', amount: 90000, category: 'ground' },
+    { id: 'tea', name: 'Cafeteria', amount: 30000, category: 'cafeteria', paidBy: 'rahul', reimbursements: [createReceipt(30000)] }
+  ],
+  playerIds: ['sai', 'rahul', 'arjun'],
+  payments: []
+});
+// Two of the three have paid
+const match: Match = { ...synced, payments: synced.payments.map((p, i) => (i < 2 ? markAsPaid(p) : p)) };
+
+const entries = [
+  createVendorEntry({ clubId: 'club-micc', type: 'booking', amount: 90000, date: '2025-01-01', matchId: 'm1' }),
+  createVendorEntry({ clubId: 'club-micc', type: 'deposit', amount: 20000, date: '2025-01-02' }),
+  createVendorEntry({ clubId: 'club-micc', type: 'payment', amount: 90000, date: '2025-01-04', matchId: 'm1' }),
+  createVendorEntry({ clubId: 'club-sadhooz', type: 'payment', amount: 50000, date: '2025-01-05' })
+];
+
+const appData: AppData = entries.reduce(addVendorEntry, {
+  players: [],
+  weekends: [{ id: 'w1', startDate: '2025-01-04', matches: [match] }],
+  currentWeekendId: 'w1'
+});
+
+describe('getVendorBalance', () => {
+  it('nets bookings against what was paid to the club', () => {
+    expect(getVendorBalance(appData, 'club-micc')).toEqual({
+      clubId: 'club-micc',
+      booked: 90000,
+      deposits: 20000,
+      payments: 90000,
+      refunds: 0,
+      balance: -20000
+    });
+  });
+
+  it('keeps a running balance in date order', () => {
+    expect(getVendorLedger(appData, 'club-micc').map(line => line.balance)).toEqual([90000, 70000, -20000]);
+  });
+});
+
+describe('getMatchReconciliation', () => {
+  it('compares what players paid with what went to the club and back to players', () => {
+    expect(getMatchReconciliation(appData, match)).toMatchObject({
+      cost: 120000,
+      booked: 90000,
+      collected: 80000,
+      paidToVendor: 90000,
+      reimbursed: 30000,
+      difference: -40000
+    });
+  });
+});
+
+describe('getCashPosition', () => {
+  it('counts receipts in and vendor payments and reimbursements out', () => {
+    const refunded = addVendorEntry(appData, createVendorEntry({ clubId: 'club-sadhooz', type: 'refund', amount: 10000, date: '2025-01-06' }));
+    expect(getCashPosition(refunded)).toEqual({
+      collected: 80000,
+      reimbursed: 30000,
+      paidToVendors: 160000,
+      refundsReceived: 10000,
+      purchases: 0,
+      income: 0,
+      net: -100000
+    });
+  });
+});
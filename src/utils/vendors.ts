@@ -0,0 +1,145 @@
+import { AppData, Match, VendorEntry, VendorEntryType } from '../types';
+import { calculateMatchTotalCost, generateUUID, getReceiptsTotal } from './calculations';
+import { getAllMatches } from './ledger';
+
+// The vendor ledger records what the team owes each club and what it has paid them, apart
+// from what players owe the team. A vendor's balance is bookings less deposits and payments,
+// plus refunds: positive means the team still owes the club, negative that the club holds
+// the team's money.
+
+export const VENDOR_ENTRY_TYPES: { value: VendorEntryType; label: string }[] = [
+  { value: 'booking', label: 'Booking' },
+  { value: 'deposit', label: 'Deposit' },
+  { value: 'payment', label: 'Payment' },
+  { value: 'refund', label: 'Refund' }
+];
+
+export interface VendorBalance {
+  clubId: string;
+  booked: number;
+  deposits: number;
+  payments: number;
+  refunds: number;
+  balance: number; // positive = the team owes the club
+}
+
+export interface VendorLedgerLine {
+  entry: VendorEntry;
+  balance: number; // running balance after the entry
+}
+
+export interface MatchReconciliation {
+  match: Match;
+  cost: number;
+  booked: number;
+  collected: number; // received from players for the match
+  paidToVendor: number; // deposits and payments for the match, less refunds
+  reimbursed: number; // paid back to players who fronted the match's expenses
+  difference: number; // positive = surplus, negative = the kitty made up a deficit
+}
+
+export interface CashPosition {
+  collected: number; // every receipt from players: match dues, membership fees and kitty charges
+  reimbursed: number;
+  paidToVendors: number;
+  refundsReceived: number;
+  purchases: number; // bought out of the kitty
+  income: number; // paid into the kitty from outside the team
+  net: number;
+}
+
+export const getVendorEntryLabel = (type: VendorEntryType): string => {
+  return VENDOR_ENTRY_TYPES.find(t => t.value === type)?.label || type;
+};
+
+// Oldest first
+export const getVendorEntries = (appData: AppData, clubId?: string): VendorEntry[] => {
+  return (appData.vendorEntries || [])
+    .filter(entry => !clubId || entry.clubId === clubId)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const createVendorEntry = (entry: Omit<VendorEntry, 'id'>): VendorEntry => ({ id: generateUUID(), ...entry });
+
+export const addVendorEntry = (appData: AppData, entry: VendorEntry): AppData => ({
+  ...appData,
+  vendorEntries: [...(appData.vendorEntries || []), entry]
+});
+
+export const deleteVendorEntry = (appData: AppData, entryId: string): AppData => ({
+  ...appData,
+  vendorEntries: (appData.vendorEntries || []).filter(entry => entry.id !== entryId)
+});
+
+// How an entry moves what the team owes the club
+export const getVendorEffect = (entry: VendorEntry): number => {
+  return entry.type === 'booking' || entry.type === 'refund' ? entry.amount : -entry.amount;
+};
+
+export const getVendorLedger = (appData: AppData, clubId: string): VendorLedgerLine[] => {
+  let balance = 0;
+  return getVendorEntries(appData, clubId).map(entry => {
+    balance += getVendorEffect(entry);
+    return { entry, balance };
+  });
+};
+
+const sumOf = (entries: VendorEntry[], type: VendorEntryType): number => {
+  return entries.filter(entry => entry.type === type).reduce((sum, entry) => sum + entry.amount, 0);
+};
+
+export const getVendorBalance = (appData: AppData, clubId: string): VendorBalance => {
+  const entries = getVendorEntries(appData, clubId);
+  const booked = sumOf(entries, 'booking');
+  const deposits = sumOf(entries, 'deposit');
+  const payments = sumOf(entries, 'payment');
+  const refunds = sumOf(entries, 'refund');
+  return { clubId, booked, deposits, payments, refunds, balance: booked - deposits - payments + refunds };
+};
+
+const getReimbursed = (match: Match): number => {
+  return match.expenses.reduce((sum, expense) => sum + getReceiptsTotal(expense.reimbursements || []), 0);
+};
+
+export const getMatchReconciliation = (appData: AppData, match: Match): MatchReconciliation => {
+  const entries = (appData.vendorEntries || []).filter(entry => entry.matchId === match.id);
+  const collected = match.payments.reduce((sum, payment) => sum + getReceiptsTotal(payment.receipts), 0);
+  const paidToVendor = sumOf(entries, 'deposit') + sumOf(entries, 'payment') - sumOf(entries, 'refund');
+  const reimbursed = getReimbursed(match);
+  return {
+    match,
+    cost: calculateMatchTotalCost(match),
+    booked: sumOf(entries, 'booking'),
+    collected,
+    paidToVendor,
+    reimbursed,
+    difference: collected - paidToVendor - reimbursed
+  };
+};
+
+// What the team should be holding: everything players paid in, less what went out to
+// vendors and to players who fronted expenses, plus vendor refunds and the kitty's own
+// purchases and income
+export const getCashPosition = (appData: AppData): CashPosition => {
+  const matches = getAllMatches(appData);
+  const entries = appData.vendorEntries || [];
+  const kittyEntries = appData.kittyEntries || [];
+  const collected =
+    matches.reduce((sum, match) => sum + match.payments.reduce((total, payment) => total + getReceiptsTotal(payment.receipts), 0), 0) +
+    (appData.memberships || []).reduce((sum, membership) => sum + getReceiptsTotal(membership.receipts), 0) +
+    kittyEntries.reduce((sum, entry) => sum + getReceiptsTotal(entry.receipts), 0);
+  const reimbursed = matches.reduce((sum, match) => sum + getReimbursed(match), 0);
+  const paidToVendors = sumOf(entries, 'deposit') + sumOf(entries, 'payment');
+  const refundsReceived = sumOf(entries, 'refund');
+  const purchases = kittyEntries.filter(entry => entry.type === 'purchase').reduce((sum, entry) => sum + entry.amount, 0);
+  const income = kittyEntries.filter(entry => entry.type === 'income').reduce((sum, entry) => sum + entry.amount, 0);
+  return {
+    collected,
+    reimbursed,
+    paidToVendors,
+    refundsReceived,
+    purchases,
+    income,
+    net: collected - reimbursed - paidToVendors + refundsReceived - purchases + income
+  };
+};
@@ -0,0 +1,92 @@
+import { AppData, Match } from '../types';
+import { markAsPaid, syncMatchPayments } from './calculations';
+import { DEFAULT_SETTINGS } from './settings';
+import { getAdjacentWeekend, getWeekendStartDate, getWeekendTotal, goToNextWeekend, goToToday, goToWeekend } from './weekends';
+
+const match: Match = syncMatchPayments({
+  id: 'm1',
+  date: '2025-01-04',
+  clubId: 'club-micc',
+  expenses: [{ id: 'ground', name: 'Ground', amount: 100000, category: 'ground' }],
+  playerIds: ['sai', 'rahul'],
+  payments: []
+});
+
+const appData: AppData = {
+  players: [],
+  weekends: [
+    { id: 'w2', startDate: '2025-01-11', matches: [] },
+    { id: 'w1', startDate: '2025-01-04', matches: [match] }
+  ],
+  currentWeekendId: 'w1'
+};
+
+describe('getWeekendStartDate', () => {
+  it('goes back to the Saturday on or before the date', () => {
+    expect(getWeekendStartDate(new Date(2025, 0, 4))).toBe('2025-01-04');
+    expect(getWeekendStartDate(new Date(2025, 0, 10))).toBe('2025-01-04');
+  });
+});
+
+describe('goToWeekend', () => {
+  it('switches to a recorded weekend without adding another', () => {
+    const moved = goToWeekend(appData, '2025-01-14');
+    expect(moved.currentWeekendId).toBe('w2');
+    expect(moved.weekends).toHaveLength(2);
+  });
+
+  it('adds a weekend for a Saturday not yet recorded', () => {
+    const moved = goToWeekend(appData, '2025-02-02');
+    expect(moved.weekends).toHaveLength(3);
+    expect(moved.weekends[2]).toMatchObject({ startDate: '2025-02-01', matches: [] });
+    expect(moved.currentWeekendId).toBe(moved.weekends[2].id);
+  });
+});
+
+describe('goToNextWeekend', () => {
+  it('never creates two weekends for the same Saturday', () => {
+    const once = goToNextWeekend(appData);
+    expect(once.currentWeekendId).toBe('w2');
+    const twice = goToNextWeekend(goToNextWeekend({ ...appData, currentWeekendId: 'w2' }));
+    const startDates = twice.weekends.map(weekend => weekend.startDate);
+    expect(startDates).toEqual(['2025-01-11', '2025-01-04', '2025-01-18', '2025-01-25']);
+  });
+});
+
+describe('getAdjacentWeekend', () => {
+  it('steps through weekends in date order', () => {
+    expect(getAdjacentWeekend(appData, 1)?.id).toBe('w2');
+    expect(getAdjacentWeekend(appData, -1)).toBeUndefined();
+  });
+});
+
+describe('getWeekendTotal', () => {
+  it('splits what was due into collected and outstanding', () => {
+    const paid = { ...match, payments: [markAsPaid(match.payments[0]), match.payments[1]] };
+    expect(getWeekendTotal({ id: 'w1', startDate: '2025-01-04', matches: [paid] })).toMatchObject({
+      matchCount: 1,
+      due: 100000,
+      collected: 50000,
+      outstanding: 50000
+    });
+  });
+});
+
+describe('goToToday', () => {
+  it('lands on the weekend already recorded for today', () => {
+    expect(goToToday(appData, new Date(2025, 0, 13)).currentWeekendId).toBe('w2');
+  });
+
+  it('adds the weekends missed since the last one, empty', () => {
+    const today = goToToday(appData, new Date(2025, 0, 27));
+    expect(today.weekends.map(weekend => weekend.startDate).slice(2)).toEqual(['2025-01-18', '2025-01-25']);
+    expect(today.weekends[3].matches).toEqual([]);
+    expect(today.currentWeekendId).toBe(today.weekends[3].id);
+  });
+
+  it('skips missed weekends when asked to', () => {
+    const skipping = { ...appData, settings: { ...DEFAULT_SETTINGS, missingWeekends: 'skip' as const } };
+    const today = goToToday(skipping, new Date(2025, 0, 27));
+    expect(today.weekends.map(weekend => weekend.startDate).slice(2)).toEqual(['2025-01-25']);
+  });
+});
@@ -0,0 +1,88 @@
+import { AppData, Weekend } from '../types';
+import { addDays, format, parse, startOfWeek } from 'date-fns';
+import { generateUUID, getPaymentTotal } from './calculations';
+import { getOutstanding } from './lateFees';
+import { getCurrentWeekend, getSortedWeekends, getWeekendMatches } from './ledger';
+import { getSettings } from './settings';
+
+// Weekends are named after their Saturday, and there is at most one weekend per Saturday.
+// Moving between weekends only changes currentWeekendId, so the audit log does not record it.
+
+export interface WeekendTotal {
+  weekend: Weekend;
+  matchCount: number;
+  due: number; // shares and late fees charged for the weekend's matches
+  collected: number; // received from players, including credit put towards the dues
+  outstanding: number;
+}
+
+// The Saturday on or before the date, as yyyy-MM-dd
+export const getWeekendStartDate = (date: Date): string => {
+  return format(startOfWeek(date, { weekStartsOn: 6 }), 'yyyy-MM-dd');
+};
+
+export const findWeekend = (appData: AppData, startDate: string): Weekend | undefined => {
+  return getSortedWeekends(appData.weekends).find(weekend => weekend.startDate === startDate);
+};
+
+export const createWeekend = (startDate: string): Weekend => ({ id: generateUUID(), startDate, matches: [] });
+
+// Views the weekend the date falls in, adding it first when it has not been recorded yet
+export const goToWeekend = (appData: AppData, date: string): AppData => {
+  const startDate = getWeekendStartDate(parse(date, 'yyyy-MM-dd', new Date()));
+  const existing = findWeekend(appData, startDate);
+  if (existing) return { ...appData, currentWeekendId: existing.id };
+
+  const weekend = createWeekend(startDate);
+  return { ...appData, weekends: [...appData.weekends, weekend], currentWeekendId: weekend.id };
+};
+
+// The weekend a week after the one being viewed, reusing it when it already exists
+export const goToNextWeekend = (appData: AppData): AppData => {
+  const currentWeekend = getCurrentWeekend(appData);
+  if (!currentWeekend) return appData;
+  const saturday = parse(currentWeekend.startDate, 'yyyy-MM-dd', new Date());
+  return goToWeekend(appData, format(addDays(saturday, 7), 'yyyy-MM-dd'));
+};
+
+// The recorded weekend before (-1) or after (1) the one being viewed
+export const getAdjacentWeekend = (appData: AppData, offset: -1 | 1): Weekend | undefined => {
+  const weekends = getSortedWeekends(appData.weekends);
+  const index = weekends.findIndex(weekend => weekend.id === appData.currentWeekendId);
+  return index === -1 ? undefined : weekends[index + offset];
+};
+
+// Lands on the weekend today falls in. Weekends passed since the latest recorded one are
+// added empty (no match played) or skipped, as the settings say.
+export const goToToday = (appData: AppData, today: Date): AppData => {
+  const startDate = getWeekendStartDate(today);
+  const existing = findWeekend(appData, startDate);
+  if (existing) return { ...appData, currentWeekendId: existing.id };
+
+  const latest = getSortedWeekends(appData.weekends)
+    .filter(weekend => weekend.startDate < startDate)
+    .pop();
+  const missing: Weekend[] = [];
+  if (latest && getSettings(appData).missingWeekends === 'create') {
+    let saturday = addDays(parse(latest.startDate, 'yyyy-MM-dd', new Date()), 7);
+    while (format(saturday, 'yyyy-MM-dd') < startDate) {
+      missing.push(createWeekend(format(saturday, 'yyyy-MM-dd')));
+      saturday = addDays(saturday, 7);
+    }
+  }
+
+  const weekend = createWeekend(startDate);
+  return { ...appData, weekends: [...appData.weekends, ...missing, weekend], currentWeekendId: weekend.id };
+};
+
+export const getWeekendTotal = (weekend: Weekend): WeekendTotal => {
+  const matches = getWeekendMatches(weekend);
+  const payments = matches.flatMap(match => match.payments);
+  const due = payments.reduce((sum, payment) => sum + getPaymentTotal(payment), 0);
+  const outstanding = payments.reduce((sum, payment) => sum + getOutstanding(payment), 0);
+  return { weekend, matchCount: matches.length, due, collected: due - outstanding, outstanding };
+};
+
+export const getWeekendTotals = (appData: AppData): WeekendTotal[] => {
+  return getSortedWeekends(appData.weekends).map(getWeekendTotal);
+};
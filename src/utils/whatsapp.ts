@@ -0,0 +1,21 @@
+// Copies a message for pasting into WhatsApp, falling back to a popup to copy from by hand
+export const shareWhatsAppText = (message: string): void => {
+  navigator.clipboard.writeText(message).then(() => {
+    alert('Message copied to clipboard! You can now paste it in WhatsApp.');
+  }).catch(() => {
+    const popup = window.open('', '_blank', 'width=400,height=600');
+    if (popup) {
+      popup.document.write(`
+        <html>
+          <head><title>WhatsApp Message</title></head>
+          <body style="font-family: Arial; padding: 20px;">
+            <h3>Copy this message for WhatsApp:</h3>
+            <textarea style="width: 100%; height: 400px; font-size: 14px;" readonly>${message}</textarea>
+            <br><br>
+            <button onclick="navigator.clipboard.writeText(document.querySelector('textarea').value).then(() => alert('Copied!')).catch(() => alert('Please copy manually'))">Copy to Clipboard</button>
+          </body>
+        </html>
+      `);
+    }
+  });
+};